@@ -587,6 +587,144 @@ describe("Event.patch", () => {
     });
 });
 
+describe("withTimeZone", () => {
+    /**
+     * Create a weekly New York meeting with an override and an until bound.
+     * @return Event instance.
+     */
+    function makeMeeting(): EventInstance {
+        return new JsCal.Event(
+            {
+                uid: "relocate",
+                start: "2026-03-02T09:00:00",
+                timeZone: "America/New_York",
+                recurrenceRules: [
+                    {
+                        "@type": "RecurrenceRule",
+                        frequency: "weekly",
+                        until: "2026-04-27T09:00:00",
+                    },
+                ],
+                recurrenceOverrides: {
+                    "2026-03-16T09:00:00": { start: "2026-03-16T10:00:00" },
+                },
+            },
+            { now: fixedNow },
+        );
+    }
+
+    it("converts all local date-times while preserving instants", () => {
+        const moved = makeMeeting().withTimeZone("Europe/London", {
+            now: () => "2026-02-05T00:00:00Z",
+        });
+        expect(moved.data.timeZone).toBe("Europe/London");
+        expect(moved.data.start).toBe("2026-03-02T14:00:00");
+        expect(moved.data.recurrenceRules?.[0]?.until).toBe(
+            "2026-04-27T14:00:00",
+        );
+        expect(moved.data.recurrenceOverrides).toEqual({
+            "2026-03-16T14:00:00": { start: "2026-03-16T14:00:00" },
+        });
+        expect(moved.data.updated).toBe("2026-02-05T00:00:00Z");
+        expect(moved.data.sequence).toBe(1);
+        expect(moved.data.recurrenceId).toBeUndefined();
+        expect(moved.data.recurrenceIdTimeZone).toBeNull();
+        const records = Array.from(
+            JsCal.expandRecurrence(
+                [moved],
+                {
+                    from: new Date("2026-03-01T00:00:00Z"),
+                    to: new Date("2026-05-01T00:00:00Z"),
+                },
+                { records: true },
+            ),
+        );
+        expect(records).toHaveLength(9);
+        expect(records.filter((record) => record.isOverride)).toHaveLength(1);
+    });
+
+    it("converts pointer-keyed override times", () => {
+        const event = new JsCal.Event(
+            {
+                start: "2026-03-02T09:00:00",
+                timeZone: "America/New_York",
+                recurrenceRules: [
+                    { "@type": "RecurrenceRule", frequency: "weekly" },
+                ],
+                recurrenceOverrides: {
+                    "2026-03-23T09:00:00": { "/start": "2026-03-23T11:00:00" },
+                    "2026-03-30T09:00:00": {
+                        "/start": "2026-03-30T10:00:00",
+                        "/timeZone": "Asia/Tokyo",
+                    },
+                },
+            },
+            { now: fixedNow },
+        );
+        const moved = event.withTimeZone("Europe/London");
+        expect(moved.data.recurrenceOverrides).toEqual({
+            "2026-03-23T14:00:00": { "/start": "2026-03-23T15:00:00" },
+            "2026-03-30T14:00:00": {
+                "/start": "2026-03-30T10:00:00",
+                "/timeZone": "Asia/Tokyo",
+            },
+        });
+    });
+
+    it("keeps local times in wallclock mode", () => {
+        const moved = makeMeeting().withTimeZone("europe/london", {
+            preserve: "wallclock",
+        });
+        expect(moved.data.timeZone).toBe("Europe/London");
+        expect(moved.data.start).toBe("2026-03-02T09:00:00");
+        expect(Object.keys(moved.data.recurrenceOverrides ?? {})).toEqual([
+            "2026-03-16T09:00:00",
+        ]);
+    });
+
+    it("resolves alias targets unless strict", () => {
+        const moved = makeMeeting().withTimeZone("US/Central");
+        expect(moved.data.timeZone).toBe("America/Chicago");
+        expect(moved.data.start).toBe("2026-03-02T08:00:00");
+        expect(() =>
+            makeMeeting().withTimeZone("US/Central", {
+                timeZoneMode: "strict",
+            }),
+        ).toThrow("Unknown time zone: US/Central");
+    });
+
+    it("converts between floating and zoned time", () => {
+        const floating = makeMeeting().withTimeZone(null);
+        expect(floating.data.timeZone).toBeNull();
+        expect(floating.data.start).toBe("2026-03-02T09:00:00");
+
+        const zoned = floating.withTimeZone("Asia/Tokyo");
+        expect(zoned.data.timeZone).toBe("Asia/Tokyo");
+        expect(zoned.data.start).toBe("2026-03-02T09:00:00");
+    });
+
+    it("moves recurrence ids of task instances", () => {
+        const task = new JsCal.Task(
+            {
+                start: "2026-03-02T09:00:00",
+                due: "2026-03-02T17:00:00",
+                timeZone: "Europe/Berlin",
+                recurrenceId: "2026-03-02T09:00:00",
+                recurrenceIdTimeZone: "Europe/Berlin",
+            },
+            { now: fixedNow },
+        );
+        const moved = task.withTimeZone("Etc/UTC");
+        expect(moved.data).toMatchObject({
+            timeZone: "Etc/UTC",
+            start: "2026-03-02T08:00:00",
+            due: "2026-03-02T16:00:00",
+            recurrenceId: "2026-03-02T08:00:00",
+            recurrenceIdTimeZone: "Etc/UTC",
+        });
+    });
+});
+
 describe("createUid", () => {
     it("generates unique-ish id format", () => {
         const uid = createUid();
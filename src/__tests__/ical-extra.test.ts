@@ -1,4 +1,4 @@
-import { describe, expect, it } from "vitest";
+import { afterEach, describe, expect, it, vi } from "vitest";
 import { JsCal } from "../jscal.js";
 import type { Event, Group, Task } from "../types.js";
 
@@ -103,3 +103,584 @@ describe("toICal extras", () => {
         expect(ical).not.toContain("BEGIN:VTODO");
     });
 });
+
+describe("toICal participants", () => {
+    const meeting: Event = {
+        ...event,
+        uid: "e3",
+        replyTo: { imip: "mailto:owner@example.com" },
+        participants: {
+            owner: {
+                "@type": "Participant",
+                name: "Owner, Ann",
+                email: "owner@example.com",
+                sendTo: { imip: "mailto:owner@example.com" },
+                roles: { owner: true, attendee: true },
+                participationStatus: "accepted",
+                scheduleForceSend: true,
+            },
+            bob: {
+                "@type": "Participant",
+                name: "Bob",
+                sendTo: { imip: "mailto:bob@example.com" },
+                kind: "individual",
+                roles: { attendee: true },
+                participationStatus: "delegated",
+                expectReply: true,
+                delegatedTo: { carol: true },
+                sentBy: "assistant@example.com",
+                scheduleAgent: "client",
+            },
+            carol: {
+                "@type": "Participant",
+                email: "carol@example.com",
+                roles: { optional: true },
+                delegatedFrom: { bob: true },
+                scheduleAgent: "server",
+            },
+            room: {
+                "@type": "Participant",
+                name: "Room 1",
+                kind: "resource",
+                roles: { informational: true },
+            },
+        },
+    };
+
+    it("exports owner as ORGANIZER and others as ATTENDEE", () => {
+        const ical = JsCal.toICal([meeting], { includeXJSCalendar: false });
+        const lines = ical.replace(/\r\n /g, "").split("\r\n");
+        expect(lines).toContain(
+            'ORGANIZER;CN="Owner, Ann";SCHEDULE-FORCE-SEND=REPLY:mailto:owner@example.com',
+        );
+        expect(lines).toContain(
+            'ATTENDEE;CN="Owner, Ann";ROLE=REQ-PARTICIPANT;PARTSTAT=ACCEPTED;SCHEDULE-FORCE-SEND=REQUEST:mailto:owner@example.com',
+        );
+        expect(lines).toContain(
+            'ATTENDEE;CN=Bob;CUTYPE=INDIVIDUAL;ROLE=REQ-PARTICIPANT;PARTSTAT=DELEGATED;RSVP=TRUE;DELEGATED-TO="mailto:carol@example.com";SENT-BY="mailto:assistant@example.com";SCHEDULE-AGENT=CLIENT:mailto:bob@example.com',
+        );
+        expect(lines).toContain(
+            'ATTENDEE;ROLE=OPT-PARTICIPANT;DELEGATED-FROM="mailto:bob@example.com":mailto:carol@example.com',
+        );
+        expect(ical).not.toContain("Room 1");
+    });
+
+    it("round-trips optional attendees", () => {
+        const optional: Event = {
+            ...event,
+            uid: "e11",
+            participants: {
+                dave: {
+                    "@type": "Participant",
+                    email: "dave@example.com",
+                    roles: { attendee: true, optional: true },
+                },
+            },
+        };
+        const ical = JsCal.toICal([optional], { includeXJSCalendar: false });
+        expect(ical).toContain(
+            "ATTENDEE;ROLE=OPT-PARTICIPANT:mailto:dave@example.com",
+        );
+        const [imported] = JsCal.fromICal(ical);
+        expect(imported?.participants?.["dave-example-com"]?.roles).toEqual({
+            attendee: true,
+            optional: true,
+        });
+    });
+
+    it("exports task progress as PARTSTAT", () => {
+        const assigned: Task = {
+            ...task,
+            participants: {
+                dev: {
+                    "@type": "Participant",
+                    email: "dev@example.com",
+                    roles: { attendee: true },
+                    participationStatus: "accepted",
+                    progress: "completed",
+                },
+            },
+        };
+        const ical = JsCal.toICal([assigned], { includeXJSCalendar: false });
+        expect(ical).toContain(
+            "ATTENDEE;ROLE=REQ-PARTICIPANT;PARTSTAT=COMPLETED:mailto:dev@example.com",
+        );
+        expect(ical).not.toContain("ORGANIZER");
+    });
+});
+
+describe("toICal alerts", () => {
+    const reminded: Event = {
+        ...event,
+        uid: "e4",
+        alerts: {
+            before: {
+                "@type": "Alert",
+                trigger: { "@type": "OffsetTrigger", offset: "-PT15M" },
+            },
+            after: {
+                "@type": "Alert",
+                action: "email",
+                trigger: {
+                    "@type": "OffsetTrigger",
+                    offset: "PT5M",
+                    relativeTo: "end",
+                },
+                acknowledged: "2026-02-03T09:20:00Z",
+            },
+            snooze: {
+                "@type": "Alert",
+                trigger: {
+                    "@type": "AbsoluteTrigger",
+                    when: "2026-02-03T08:55:00Z",
+                },
+                relatedTo: {
+                    before: {
+                        "@type": "Relation",
+                        relation: { parent: true },
+                    },
+                },
+            },
+            unknown: {
+                "@type": "Alert",
+                trigger: { "@type": "LocationTrigger", radius: 100 },
+            },
+        },
+    };
+
+    it("exports VALARM components inside the VEVENT", () => {
+        const ical = JsCal.toICal([reminded], { includeXJSCalendar: false });
+        expect(ical).toContain(
+            [
+                "BEGIN:VALARM",
+                "UID:before",
+                "ACTION:DISPLAY",
+                "TRIGGER:-PT15M",
+                "DESCRIPTION:Planning",
+                "END:VALARM",
+                "BEGIN:VALARM",
+                "UID:after",
+                "ACTION:EMAIL",
+                "TRIGGER;RELATED=END:PT5M",
+                "SUMMARY:Planning",
+                "DESCRIPTION:Planning",
+                "ACKNOWLEDGED:20260203T092000Z",
+                "END:VALARM",
+                "BEGIN:VALARM",
+                "UID:snooze",
+                "ACTION:DISPLAY",
+                "TRIGGER;VALUE=DATE-TIME:20260203T085500Z",
+                "DESCRIPTION:Planning",
+                "RELATED-TO;RELTYPE=SNOOZE:before",
+                "END:VALARM",
+                "END:VEVENT",
+            ].join("\r\n"),
+        );
+        expect(ical.match(/BEGIN:VALARM/g)).toHaveLength(3);
+    });
+
+    it("imports VALARM components back into alerts", () => {
+        const ical = JsCal.toICal([reminded], { includeXJSCalendar: false });
+        const [imported] = JsCal.fromICal(ical);
+        expect(imported?.alerts).toEqual({
+            before: {
+                "@type": "Alert",
+                action: "display",
+                trigger: {
+                    "@type": "OffsetTrigger",
+                    offset: "-PT15M",
+                    relativeTo: "start",
+                },
+            },
+            after: {
+                "@type": "Alert",
+                action: "email",
+                trigger: {
+                    "@type": "OffsetTrigger",
+                    offset: "PT5M",
+                    relativeTo: "end",
+                },
+                acknowledged: "2026-02-03T09:20:00Z",
+            },
+            snooze: {
+                "@type": "Alert",
+                action: "display",
+                trigger: {
+                    "@type": "AbsoluteTrigger",
+                    when: "2026-02-03T08:55:00Z",
+                },
+                relatedTo: {
+                    before: {
+                        "@type": "Relation",
+                        relation: { parent: true },
+                    },
+                },
+            },
+        });
+    });
+});
+
+describe("toICal recurrence overrides", () => {
+    const series: Event = {
+        ...event,
+        uid: "e5",
+        timeZone: "Europe/Berlin",
+        duration: "PT1H",
+        recurrenceRules: [
+            { "@type": "RecurrenceRule", frequency: "daily", count: 5 },
+        ],
+        excludedRecurrenceRules: [
+            {
+                "@type": "RecurrenceRule",
+                frequency: "weekly",
+                byDay: [{ "@type": "NDay", day: "sa" }],
+            },
+        ],
+        recurrenceOverrides: {
+            "2026-02-04T09:00:00": { excluded: true },
+            "2026-02-05T09:00:00": {
+                start: "2026-02-05T11:00:00",
+                title: "Moved",
+            },
+            "2026-02-10T14:00:00": {},
+            "2026-02-11T14:00:00": { title: "Extra" },
+        },
+    };
+
+    it("exports EXRULE, RDATE, EXDATE, and RECURRENCE-ID components", () => {
+        const ical = JsCal.toICal([series], { includeXJSCalendar: false });
+        const lines = ical.split("\r\n");
+        expect(lines).toContain("EXRULE:FREQ=WEEKLY;BYDAY=SA");
+        expect(lines).toContain(
+            "RDATE;TZID=Europe/Berlin:20260210T140000,20260211T140000",
+        );
+        expect(lines).toContain("EXDATE;TZID=Europe/Berlin:20260204T090000");
+        expect(ical.match(/BEGIN:VEVENT/g)).toHaveLength(3);
+        expect(ical).toContain(
+            [
+                "SUMMARY:Moved",
+                "DTSTART;TZID=Europe/Berlin:20260205T110000",
+                "RECURRENCE-ID;TZID=Europe/Berlin:20260205T090000",
+            ].join("\r\n"),
+        );
+        expect(ical).toContain(
+            [
+                "SUMMARY:Extra",
+                "DTSTART;TZID=Europe/Berlin:20260211T140000",
+                "RECURRENCE-ID;TZID=Europe/Berlin:20260211T140000",
+            ].join("\r\n"),
+        );
+    });
+
+    it("round-trips overrides through standard properties", () => {
+        const ical = JsCal.toICal([series], { includeXJSCalendar: false });
+        const [imported] = JsCal.fromICal(ical);
+        expect(imported?.excludedRecurrenceRules).toEqual(
+            series.excludedRecurrenceRules,
+        );
+        expect(imported?.recurrenceOverrides).toEqual(
+            series.recurrenceOverrides,
+        );
+    });
+
+    it("exports RECURRENCE-ID for standalone instances", () => {
+        const instance: Event = {
+            ...event,
+            uid: "e6",
+            recurrenceId: "2026-02-03T09:00:00",
+            recurrenceIdTimeZone: "Asia/Tokyo",
+        };
+        const ical = JsCal.toICal([instance], { includeXJSCalendar: false });
+        expect(ical).toContain("RECURRENCE-ID;TZID=Asia/Tokyo:20260203T090000");
+    });
+});
+
+describe("toICal descriptive properties", () => {
+    const meeting: Event = {
+        ...event,
+        uid: "e7",
+        timeZone: "Europe/Berlin",
+        created: "2026-01-15T08:00:00Z",
+        locations: {
+            room: {
+                "@type": "Location",
+                name: "Room 1, East wing",
+                coordinates: "geo:52.52,13.405",
+            },
+        },
+        virtualLocations: {
+            call: {
+                "@type": "VirtualLocation",
+                name: "Video call",
+                uri: "https://meet.example.com/abc",
+                features: { audio: true, video: true },
+            },
+        },
+        links: {
+            agenda: {
+                "@type": "Link",
+                href: "https://example.com/agenda.pdf",
+                contentType: "application/pdf",
+                size: 1024,
+            },
+            page: {
+                "@type": "Link",
+                href: "https://example.com/meeting",
+                rel: "describedby",
+            },
+            logo: {
+                "@type": "Link",
+                href: "https://example.com/logo.png",
+                rel: "icon",
+                display: "badge",
+            },
+        },
+        keywords: { planning: true, "q1,2026": true },
+        privacy: "secret",
+        priority: 3,
+        freeBusyStatus: "free",
+        color: "steelblue",
+        relatedTo: {
+            "project@example.com": {
+                "@type": "Relation",
+                relation: { parent: true },
+            },
+        },
+    };
+
+    it("maps locations, links, keywords, and scheduling hints", () => {
+        const ical = JsCal.toICal([meeting], { includeXJSCalendar: false });
+        const lines = ical.replace(/\r\n /g, "").split("\r\n");
+        expect(lines).toEqual(
+            expect.arrayContaining([
+                "CREATED:20260115T080000Z",
+                "LAST-MODIFIED:20260201T000000Z",
+                "LOCATION:Room 1\\, East wing",
+                "GEO:52.52;13.405",
+                "CONFERENCE;VALUE=URI;FEATURE=AUDIO,VIDEO;LABEL=Video call:https://meet.example.com/abc",
+                "ATTACH;FMTTYPE=application/pdf;SIZE=1024:https://example.com/agenda.pdf",
+                "URL:https://example.com/meeting",
+                "IMAGE;VALUE=URI;DISPLAY=BADGE:https://example.com/logo.png",
+                "CATEGORIES:planning,q1\\,2026",
+                "CLASS:CONFIDENTIAL",
+                "PRIORITY:3",
+                "TRANSP:TRANSPARENT",
+                "COLOR:steelblue",
+                "RELATED-TO;RELTYPE=PARENT:project@example.com",
+            ]),
+        );
+    });
+
+    it("omits properties that hold iCalendar defaults", () => {
+        const ical = JsCal.toICal(
+            [
+                {
+                    ...event,
+                    privacy: "public",
+                    priority: 0,
+                    freeBusyStatus: "busy",
+                },
+            ],
+            { includeXJSCalendar: false },
+        );
+        expect(ical).not.toContain("CLASS:");
+        expect(ical).not.toContain("PRIORITY:");
+        expect(ical).not.toContain("TRANSP:");
+    });
+
+    it("round-trips through standard properties", () => {
+        const ical = JsCal.toICal([meeting], { includeXJSCalendar: false });
+        const [imported] = JsCal.fromICal(ical);
+        expect(imported).toMatchObject({
+            created: meeting.created,
+            locations: {
+                "1": {
+                    "@type": "Location",
+                    name: "Room 1, East wing",
+                    coordinates: "geo:52.52,13.405",
+                },
+            },
+            virtualLocations: { "1": meeting.virtualLocations?.call },
+            links: {
+                "1": meeting.links?.agenda,
+                "2": meeting.links?.page,
+                "3": meeting.links?.logo,
+            },
+            keywords: meeting.keywords,
+            privacy: "secret",
+            priority: 3,
+            freeBusyStatus: "free",
+            color: "steelblue",
+            relatedTo: meeting.relatedTo,
+        });
+    });
+
+    it("renders showWithoutTime as VALUE=DATE", () => {
+        const holiday: Event = {
+            ...event,
+            uid: "e8",
+            start: "2026-02-14T00:00:00",
+            duration: "P1D",
+            showWithoutTime: true,
+            recurrenceRules: [
+                { "@type": "RecurrenceRule", frequency: "yearly", count: 3 },
+            ],
+            recurrenceOverrides: {
+                "2027-02-14T00:00:00": { excluded: true },
+                "2028-02-14T00:00:00": { title: "Leap year" },
+            },
+        };
+        const ical = JsCal.toICal([holiday], { includeXJSCalendar: false });
+        const lines = ical.split("\r\n");
+        expect(lines).toContain("DTSTART;VALUE=DATE:20260214");
+        expect(lines).toContain("EXDATE;VALUE=DATE:20270214");
+        expect(lines).toContain("RECURRENCE-ID;VALUE=DATE:20280214");
+        expect(ical).not.toContain("TZID");
+
+        const [imported] = JsCal.fromICal(ical);
+        expect(imported).toMatchObject({
+            start: holiday.start,
+            showWithoutTime: true,
+            recurrenceOverrides: holiday.recurrenceOverrides,
+        });
+    });
+});
+
+describe("toICal VTIMEZONE", () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it("defines every referenced TZID once before the components", () => {
+        const berlin: Event = {
+            ...event,
+            uid: "e7",
+            timeZone: "Europe/Berlin",
+        };
+        const ical = JsCal.toICal([berlin, { ...berlin, uid: "e8" }], {
+            includeXJSCalendar: false,
+        });
+        expect(ical.match(/BEGIN:VTIMEZONE/g)).toHaveLength(1);
+        expect(ical.indexOf("BEGIN:VTIMEZONE")).toBeLessThan(
+            ical.indexOf("BEGIN:VEVENT"),
+        );
+        expect(ical).toContain(
+            [
+                "BEGIN:DAYLIGHT",
+                "DTSTART:20250330T020000",
+                "TZOFFSETFROM:+0100",
+                "TZOFFSETTO:+0200",
+                "RRULE:FREQ=YEARLY;BYDAY=-1SU;BYMONTH=3",
+                "TZNAME:CEST",
+                "END:DAYLIGHT",
+            ].join("\r\n"),
+        );
+        expect(ical).toContain(
+            [
+                "BEGIN:STANDARD",
+                "DTSTART:20251026T030000",
+                "TZOFFSETFROM:+0200",
+                "TZOFFSETTO:+0100",
+                "RRULE:FREQ=YEARLY;BYDAY=-1SU;BYMONTH=10",
+                "TZNAME:CET",
+                "END:STANDARD",
+            ].join("\r\n"),
+        );
+    });
+
+    it("prefers custom definitions from the timeZones map", () => {
+        const custom: Event = {
+            ...event,
+            uid: "e9",
+            timeZone: "Asia/Tokyo",
+            timeZones: {
+                "Asia/Tokyo": {
+                    "@type": "TimeZone",
+                    tzId: "Asia/Tokyo",
+                    url: "https://example.com/tz/tokyo",
+                    standard: [
+                        {
+                            "@type": "TimeZoneRule",
+                            start: "1951-09-08T00:00:00",
+                            offsetFrom: "+10:00",
+                            offsetTo: "+09:00",
+                            names: { JST: true },
+                            comments: ["After summer time"],
+                        },
+                    ],
+                    daylight: [
+                        {
+                            "@type": "TimeZoneRule",
+                            start: "1950-05-07T00:00:00",
+                            offsetFrom: "+0900",
+                            offsetTo: "+1000",
+                            recurrenceRules: [
+                                {
+                                    "@type": "RecurrenceRule",
+                                    frequency: "yearly",
+                                    byMonth: ["5"],
+                                    byDay: [
+                                        {
+                                            "@type": "NDay",
+                                            day: "sa",
+                                            nthOfPeriod: 1,
+                                        },
+                                    ],
+                                    until: "1951-05-05T00:00:00",
+                                },
+                            ],
+                        },
+                    ],
+                },
+            },
+        };
+        const ical = JsCal.toICal([custom], { includeXJSCalendar: false });
+        expect(ical).toContain(
+            [
+                "BEGIN:VTIMEZONE",
+                "TZID:Asia/Tokyo",
+                "TZURL:https://example.com/tz/tokyo",
+                "BEGIN:STANDARD",
+                "DTSTART:19510908T000000",
+                "TZOFFSETFROM:+1000",
+                "TZOFFSETTO:+0900",
+                "TZNAME:JST",
+                "COMMENT:After summer time",
+                "END:STANDARD",
+                "BEGIN:DAYLIGHT",
+                "DTSTART:19500507T000000",
+                "TZOFFSETFROM:+0900",
+                "TZOFFSETTO:+1000",
+                "RRULE:FREQ=YEARLY;BYDAY=1SA;BYMONTH=5;UNTIL=19510504T150000Z",
+                "END:DAYLIGHT",
+                "END:VTIMEZONE",
+            ].join("\r\n"),
+        );
+    });
+
+    it("derives recurring spans from the data, not the clock", () => {
+        const recurring: Event = {
+            ...event,
+            uid: "e10",
+            start: "2017-01-01T09:00:00",
+            timeZone: "America/Sao_Paulo",
+            recurrenceRules: [
+                { "@type": "RecurrenceRule", frequency: "weekly" },
+            ],
+        };
+        const exportAt = (now: string): string => {
+            vi.setSystemTime(new Date(now));
+            return JsCal.toICal([recurring], { includeXJSCalendar: false });
+        };
+        vi.useFakeTimers({ toFake: ["Date"] });
+        const early = exportAt("2017-02-01T00:00:00Z");
+        const late = exportAt("2030-01-01T00:00:00Z");
+        expect(late).toBe(early);
+        expect(early).not.toContain("DTSTART:20190217T000000");
+    });
+
+    it("omits VTIMEZONE for floating times", () => {
+        const ical = JsCal.toICal([event], { includeXJSCalendar: false });
+        expect(ical).not.toContain("VTIMEZONE");
+    });
+});
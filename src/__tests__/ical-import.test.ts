@@ -0,0 +1,407 @@
+import { describe, expect, it } from "vitest";
+import { JsCal } from "../jscal.js";
+import { ICalParseError } from "../ical.js";
+import type { Event, Group, Task } from "../types.js";
+
+const event: Event = {
+    "@type": "Event",
+    uid: "e1",
+    updated: "2026-02-01T00:00:00Z",
+    title: "Demo; with, escapes",
+    description: "Line one\nLine two",
+    sequence: 2,
+    start: "2026-02-01T10:00:00",
+    timeZone: "America/New_York",
+    duration: "PT30M",
+    status: "confirmed",
+    recurrenceRules: [
+        {
+            "@type": "RecurrenceRule",
+            frequency: "weekly",
+            byDay: [{ "@type": "NDay", day: "mo" }],
+        },
+    ],
+};
+
+const external = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Example Corp//Calendar//EN",
+    "BEGIN:VEVENT",
+    "UID:standup@example.com",
+    "DTSTAMP:20260101T120000Z",
+    "CREATED:20251220T080000Z",
+    "SEQUENCE:1",
+    "SUMMARY:Daily standup\\, team A",
+    "DESCRIPTION:Discuss blockers",
+    "DTSTART;TZID=Europe/Berlin:20260105T093000",
+    "DTEND;TZID=Europe/Berlin:20260105T094500",
+    "RRULE:FREQ=DAILY;UNTIL=20260109T083000Z;BYDAY=MO,TU,WE,TH,FR",
+    "EXDATE;TZID=Europe/Berlin:20260107T093000",
+    "RDATE;TZID=Europe/Berlin:20260110T100000",
+    "STATUS:CONFIRMED",
+    "END:VEVENT",
+    "BEGIN:VEVENT",
+    "UID:standup@example.com",
+    "DTSTAMP:20260101T120000Z",
+    "RECURRENCE-ID;TZID=Europe/Berlin:20260108T093000",
+    "SUMMARY:Daily standup\\, team A",
+    "DESCRIPTION:Discuss blockers",
+    "DTSTART;TZID=Europe/Berlin:20260108T110000",
+    "DTEND;TZID=Europe/Berlin:20260108T111500",
+    "SEQUENCE:1",
+    "STATUS:CONFIRMED",
+    "END:VEVENT",
+    "END:VCALENDAR",
+].join("\r\n");
+
+describe("fromICal", () => {
+    it("round-trips exports through X-JSCALENDAR", () => {
+        const ical = JsCal.toICal([event]);
+        expect(JsCal.fromICal(ical)).toEqual([event]);
+    });
+
+    it("round-trips groups with their entries", () => {
+        const task: Task = {
+            "@type": "Task",
+            uid: "t1",
+            updated: "2026-02-01T00:00:00Z",
+            title: "Notes",
+        };
+        const group: Group = {
+            "@type": "Group",
+            uid: "g1",
+            updated: "2026-02-01T00:00:00Z",
+            title: "Project",
+            entries: [event, task],
+        };
+        const loose: Event = { ...event, uid: "e-loose" };
+
+        const imported = JsCal.fromICal(JsCal.toICal([group, loose]));
+        expect(imported).toEqual([group, loose]);
+    });
+
+    it("maps standard properties when no X-JSCALENDAR is present", () => {
+        const [imported] = JsCal.fromICal(external);
+        expect(imported?.["@type"]).toBe("Event");
+        if (!imported || imported["@type"] !== "Event") return;
+
+        expect(imported.uid).toBe("standup@example.com");
+        expect(imported.prodId).toBe("-//Example Corp//Calendar//EN");
+        expect(imported.title).toBe("Daily standup, team A");
+        expect(imported.updated).toBe("2026-01-01T12:00:00Z");
+        expect(imported.created).toBe("2025-12-20T08:00:00Z");
+        expect(imported.sequence).toBe(1);
+        expect(imported.start).toBe("2026-01-05T09:30:00");
+        expect(imported.timeZone).toBe("Europe/Berlin");
+        expect(imported.duration).toBe("PT15M");
+        expect(imported.status).toBe("confirmed");
+        expect(imported.recurrenceRules).toEqual([
+            {
+                "@type": "RecurrenceRule",
+                frequency: "daily",
+                until: "2026-01-09T09:30:00",
+                byDay: [
+                    { "@type": "NDay", day: "mo" },
+                    { "@type": "NDay", day: "tu" },
+                    { "@type": "NDay", day: "we" },
+                    { "@type": "NDay", day: "th" },
+                    { "@type": "NDay", day: "fr" },
+                ],
+            },
+        ]);
+        expect(imported.recurrenceOverrides).toEqual({
+            "2026-01-07T09:30:00": { excluded: true },
+            "2026-01-10T10:00:00": {},
+            "2026-01-08T09:30:00": { start: "2026-01-08T11:00:00" },
+        });
+    });
+
+    it("expands imported overrides like native objects", () => {
+        const imported = JsCal.fromICal(external);
+        const starts: string[] = [];
+        for (const occurrence of JsCal.expandRecurrence(imported, {
+            from: new Date("2026-01-01T00:00:00Z"),
+            to: new Date("2026-01-31T00:00:00Z"),
+        })) {
+            if (occurrence["@type"] === "Event") starts.push(occurrence.start);
+        }
+        expect(starts).toEqual([
+            "2026-01-05T09:30:00",
+            "2026-01-06T09:30:00",
+            "2026-01-08T11:00:00",
+            "2026-01-09T09:30:00",
+            "2026-01-10T10:00:00",
+        ]);
+    });
+
+    it("ignores X-JSCALENDAR when preferXJSCalendar is false", () => {
+        const ical = JsCal.toICal([event]);
+        const [imported] = JsCal.fromICal(ical, { preferXJSCalendar: false });
+        expect(imported?.title).toBe("Demo; with, escapes");
+        expect(imported?.description).toBe("Line one\nLine two");
+        expect(imported?.recurrenceRules).toEqual(event.recurrenceRules);
+        expect(imported?.freeBusyStatus).toBe("busy");
+    });
+
+    it("imports VTODO and all-day values", () => {
+        const ical = [
+            "BEGIN:VCALENDAR",
+            "METHOD:REQUEST",
+            "BEGIN:VTODO",
+            "UID:todo-1",
+            "DTSTAMP:20260101T000000Z",
+            "DTSTART;VALUE=DATE:20260201",
+            "DUE;VALUE=DATE:20260203",
+            "PERCENT-COMPLETE:40",
+            "STATUS:IN-PROCESS",
+            "END:VTODO",
+            "BEGIN:VEVENT",
+            "UID:holiday",
+            "DTSTAMP:20260101T000000Z",
+            "DTSTART;VALUE=DATE:20260214",
+            "SUMMARY:Long folded",
+            "  title",
+            "END:VEVENT",
+            "END:VCALENDAR",
+        ].join("\n");
+
+        const [task, holiday] = JsCal.fromICal(ical);
+        expect(task).toMatchObject({
+            "@type": "Task",
+            method: "request",
+            start: "2026-02-01T00:00:00",
+            due: "2026-02-03T00:00:00",
+            showWithoutTime: true,
+            percentComplete: 40,
+            progress: "in-process",
+        });
+        expect(holiday).toMatchObject({
+            "@type": "Event",
+            title: "Long folded title",
+            start: "2026-02-14T00:00:00",
+            duration: "P1D",
+            showWithoutTime: true,
+        });
+    });
+
+    it("imports UTC start values in Etc/UTC", () => {
+        const ical = [
+            "BEGIN:VCALENDAR",
+            "BEGIN:VEVENT",
+            "UID:utc",
+            "DTSTAMP:20260101T000000Z",
+            "DTSTART:20260301T150000Z",
+            "DURATION:PT1H",
+            "END:VEVENT",
+            "END:VCALENDAR",
+        ].join("\r\n");
+        const [imported] = JsCal.fromICal(ical);
+        expect(imported).toMatchObject({
+            start: "2026-03-01T15:00:00",
+            timeZone: "Etc/UTC",
+            duration: "PT1H",
+        });
+    });
+
+    it("imports PERIOD RDATEs as overrides with durations", () => {
+        const ical = [
+            "BEGIN:VCALENDAR",
+            "BEGIN:VEVENT",
+            "UID:periods",
+            "DTSTAMP:20260101T000000Z",
+            "DTSTART;TZID=Europe/Berlin:20260105T090000",
+            "DURATION:PT1H",
+            "RRULE:FREQ=WEEKLY;COUNT=2",
+            "RDATE;VALUE=PERIOD:20260107T120000Z/20260107T143000Z,20260108T080000Z/PT2H",
+            "RDATE;VALUE=PERIOD;TZID=Europe/Berlin:20260109T100000/20260109T104500",
+            "END:VEVENT",
+            "BEGIN:VTODO",
+            "UID:task-periods",
+            "DTSTAMP:20260101T000000Z",
+            "DTSTART:20260105T090000",
+            "RDATE;VALUE=PERIOD:20260106T090000/PT30M",
+            "END:VTODO",
+            "END:VCALENDAR",
+        ].join("\r\n");
+        const [imported, task] = JsCal.fromICal(ical);
+        expect(imported?.recurrenceOverrides).toEqual({
+            "2026-01-07T13:00:00": { duration: "PT2H30M" },
+            "2026-01-08T09:00:00": { duration: "PT2H" },
+            "2026-01-09T10:00:00": { duration: "PT45M" },
+        });
+        expect(task?.recurrenceOverrides).toEqual({
+            "2026-01-06T09:00:00": { estimatedDuration: "PT30M" },
+        });
+    });
+
+    it("keeps instances without a master as standalone objects", () => {
+        const ical = [
+            "BEGIN:VCALENDAR",
+            "BEGIN:VEVENT",
+            "UID:series",
+            "DTSTAMP:20260101T000000Z",
+            "RECURRENCE-ID;TZID=Asia/Tokyo:20260301T090000",
+            "DTSTART;TZID=Asia/Tokyo:20260301T100000",
+            "END:VEVENT",
+            "END:VCALENDAR",
+        ].join("\r\n");
+        const [imported] = JsCal.fromICal(ical);
+        expect(imported).toMatchObject({
+            uid: "series",
+            start: "2026-03-01T10:00:00",
+            recurrenceId: "2026-03-01T09:00:00",
+            recurrenceIdTimeZone: "Asia/Tokyo",
+        });
+    });
+
+    it("imports ORGANIZER and ATTENDEE as participants", () => {
+        const ical = [
+            "BEGIN:VCALENDAR",
+            "BEGIN:VEVENT",
+            "UID:meeting",
+            "DTSTAMP:20260101T000000Z",
+            "DTSTART;TZID=Europe/Berlin:20260301T090000",
+            'ORGANIZER;CN="Owner, Ann":mailto:owner@example.com',
+            "ATTENDEE;CN=Bob;ROLE=CHAIR;PARTSTAT=DELEGATED;RSVP=TRUE;",
+            ' DELEGATED-TO="mailto:carol@example.com":mailto:bob@example.com',
+            'ATTENDEE;ROLE=OPT-PARTICIPANT;DELEGATED-FROM="mailto:bob@example.com";',
+            " SCHEDULE-AGENT=CLIENT:mailto:carol@example.com",
+            "END:VEVENT",
+            "END:VCALENDAR",
+        ].join("\r\n");
+        const [imported] = JsCal.fromICal(ical);
+        expect(imported?.replyTo).toEqual({
+            imip: "mailto:owner@example.com",
+        });
+        expect(imported?.participants).toEqual({
+            "owner-example-com": {
+                "@type": "Participant",
+                name: "Owner, Ann",
+                email: "owner@example.com",
+                sendTo: { imip: "mailto:owner@example.com" },
+                roles: { owner: true },
+                participationStatus: "needs-action",
+                expectReply: false,
+                scheduleAgent: "server",
+                scheduleForceSend: false,
+                scheduleSequence: 0,
+            },
+            "bob-example-com": {
+                "@type": "Participant",
+                name: "Bob",
+                email: "bob@example.com",
+                sendTo: { imip: "mailto:bob@example.com" },
+                roles: { attendee: true, chair: true },
+                participationStatus: "delegated",
+                expectReply: true,
+                delegatedTo: { "carol-example-com": true },
+                scheduleAgent: "server",
+                scheduleForceSend: false,
+                scheduleSequence: 0,
+            },
+            "carol-example-com": {
+                "@type": "Participant",
+                email: "carol@example.com",
+                sendTo: { imip: "mailto:carol@example.com" },
+                roles: { attendee: true, optional: true },
+                participationStatus: "needs-action",
+                expectReply: false,
+                delegatedFrom: { "bob-example-com": true },
+                scheduleAgent: "client",
+                scheduleForceSend: false,
+                scheduleSequence: 0,
+            },
+        });
+    });
+
+    it("rejects malformed input", () => {
+        expect(() => JsCal.fromICal("BEGIN:VCALENDAR\r\nEND:VEVENT")).toThrow(
+            ICalParseError,
+        );
+        expect(() =>
+            JsCal.fromICal(
+                "BEGIN:VCALENDAR\r\nBEGIN:VEVENT\r\nUID:x\r\nEND:VEVENT\r\nEND:VCALENDAR",
+            ),
+        ).toThrow("VEVENT is missing DTSTART");
+        expect(() =>
+            JsCal.fromICal(
+                "BEGIN:VCALENDAR\r\nBEGIN:VEVENT\r\nUID:x\r\nDTSTART;TZID=Mars/Base:20260101T000000\r\nEND:VEVENT\r\nEND:VCALENDAR",
+            ),
+        ).toThrow("unknown TZID");
+        expect(() =>
+            JsCal.fromICal(
+                "BEGIN:VCALENDAR\r\nBEGIN:VEVENT\r\nUID:x\r\nDTSTART;TZID=Europe/Berlin:20260101T000000\r\nRRULE:FREQ=DAILY\r\nEXDATE;TZID=Mars/Base:20260102T000000\r\nEND:VEVENT\r\nEND:VCALENDAR",
+            ),
+        ).toThrow("unknown TZID: Mars/Base");
+    });
+
+    it("imports TZIDs defined by a VTIMEZONE as custom time zones", () => {
+        const ics = [
+            "BEGIN:VCALENDAR",
+            "VERSION:2.0",
+            "PRODID:-//Microsoft Corporation//Outlook 16.0 MIMEDIR//EN",
+            "BEGIN:VTIMEZONE",
+            "TZID:Customized Time Zone",
+            "BEGIN:STANDARD",
+            "DTSTART:16010101T030000",
+            "TZOFFSETFROM:+0200",
+            "TZOFFSETTO:+0100",
+            "RRULE:FREQ=YEARLY;INTERVAL=1;BYDAY=-1SU;BYMONTH=10",
+            "END:STANDARD",
+            "BEGIN:DAYLIGHT",
+            "DTSTART:16010101T020000",
+            "TZOFFSETFROM:+0100",
+            "TZOFFSETTO:+0200",
+            "RRULE:FREQ=YEARLY;INTERVAL=1;BYDAY=-1SU;BYMONTH=3",
+            "END:DAYLIGHT",
+            "END:VTIMEZONE",
+            "BEGIN:VEVENT",
+            "UID:outlook@example.com",
+            "DTSTAMP:20260101T000000Z",
+            "DTSTART;TZID=Customized Time Zone:20260715T090000",
+            "DTEND;TZID=Customized Time Zone:20260715T100000",
+            "RRULE:FREQ=MONTHLY;COUNT=7",
+            "EXDATE;TZID=Customized Time Zone:20260815T090000",
+            "END:VEVENT",
+            "END:VCALENDAR",
+        ].join("\r\n");
+        const [imported] = JsCal.fromICal(ics);
+        if (imported?.["@type"] !== "Event") throw new Error("expected event");
+        expect(imported.timeZone).toBe("/Customized Time Zone");
+        expect(imported.duration).toBe("PT1H");
+        expect(imported.recurrenceOverrides).toEqual({
+            "2026-08-15T09:00:00": { excluded: true },
+        });
+        expect(imported.timeZones?.["/Customized Time Zone"]).toMatchObject({
+            "@type": "TimeZone",
+            tzId: "/Customized Time Zone",
+            standard: [
+                {
+                    start: "1601-01-01T03:00:00",
+                    offsetFrom: "+0200",
+                    offsetTo: "+0100",
+                },
+            ],
+            daylight: [{ offsetFrom: "+0100", offsetTo: "+0200" }],
+        });
+
+        const starts = Array.from(
+            JsCal.expandRecurrence(
+                [imported],
+                {
+                    from: new Date("2026-07-01T00:00:00Z"),
+                    to: new Date("2027-02-01T00:00:00Z"),
+                },
+                { records: true },
+            ),
+            (record) => record.utcStart?.toISOString(),
+        );
+        expect(starts[0]).toBe("2026-07-15T07:00:00.000Z");
+        expect(starts.at(-1)).toBe("2027-01-15T08:00:00.000Z");
+        expect(starts).toHaveLength(6);
+
+        const [roundTrip] = JsCal.fromICal(JsCal.toICal([imported]));
+        expect(roundTrip?.timeZones).toEqual(imported.timeZones);
+    });
+});
@@ -1,6 +1,6 @@
 import { describe, expect, it } from "vitest";
 import { JsCal } from "../jscal.js";
-import type { Event, Task } from "../types.js";
+import type { Event, RecurrenceRule, Task } from "../types.js";
 
 const textEncoder = new TextEncoder();
 
@@ -80,6 +80,43 @@ describe("toICal", () => {
         );
     });
 
+    it("writes UNTIL in UTC for zoned and as DATE for all-day objects", () => {
+        const until = "2026-03-31T10:00:00";
+        const rule: RecurrenceRule = {
+            "@type": "RecurrenceRule",
+            frequency: "weekly",
+            until,
+            rscale: "gregorian",
+            skip: "omit",
+        };
+        const zoned: Event = { ...event, recurrenceRules: [rule] };
+        const allDay: Event = {
+            ...event,
+            uid: "e-all-day",
+            start: "2026-02-01T00:00:00",
+            showWithoutTime: true,
+            recurrenceRules: [{ ...rule, until: "2026-03-31T00:00:00" }],
+        };
+        const floating: Event = {
+            ...event,
+            uid: "e-floating",
+            timeZone: null,
+            recurrenceRules: [rule],
+        };
+
+        const lines = JsCal.toICal([zoned, allDay, floating], {
+            includeXJSCalendar: false,
+        }).split("\r\n");
+        expect(lines).toContain("RRULE:FREQ=WEEKLY;UNTIL=20260331T140000Z");
+        expect(lines).toContain("RRULE:FREQ=WEEKLY;UNTIL=20260331");
+        expect(lines).toContain("RRULE:FREQ=WEEKLY;UNTIL=20260331T100000");
+
+        const imported = JsCal.fromICal(lines.join("\r\n"));
+        expect(
+            imported.map((object) => object.recurrenceRules?.[0]?.until),
+        ).toEqual([until, "2026-03-31T00:00:00", until]);
+    });
+
     it("folds UTF-8 content lines to 75 octets", () => {
         const rich: Event = {
             "@type": "Event",
@@ -144,7 +181,7 @@ describe("toICal", () => {
                     "DESCRIPTION:진행 상황\\, 막힌 부분\\, 다음 작업을 정리해 팀에 공유합니다.",
                 expectedDtStartLine: "DTSTART;TZID=Asia/Tokyo:20260421T093000",
                 expectedRRuleLine:
-                    "RRULE:FREQ=DAILY;INTERVAL=1;UNTIL=20260819T093000;SKIP=BACKWARD",
+                    "RRULE:FREQ=DAILY;INTERVAL=1;UNTIL=20260819T003000Z;RSCALE=GREGORIAN;SKIP=BACKWARD",
             },
             {
                 task: {
@@ -173,7 +210,7 @@ describe("toICal", () => {
                     "DESCRIPTION:進捗、課題、次の対応を整理してチームに共有します。",
                 expectedDtStartLine: "DTSTART;TZID=Asia/Tokyo:20260317T134500",
                 expectedRRuleLine:
-                    "RRULE:FREQ=MONTHLY;INTERVAL=1;UNTIL=20260908T134500;BYMONTHDAY=25;SKIP=BACKWARD",
+                    "RRULE:FREQ=MONTHLY;INTERVAL=1;UNTIL=20260908T044500Z;BYMONTHDAY=25;RSCALE=GREGORIAN;SKIP=BACKWARD",
             },
             {
                 task: {
@@ -201,7 +238,7 @@ describe("toICal", () => {
                     "DESCRIPTION:Check recent feedback and convert important items into follow-up tasks.",
                 expectedDtStartLine: "DTSTART;TZID=Asia/Tokyo:20260304T110000",
                 expectedRRuleLine:
-                    "RRULE:FREQ=DAILY;INTERVAL=3;UNTIL=20260806T110000;SKIP=BACKWARD",
+                    "RRULE:FREQ=DAILY;INTERVAL=3;UNTIL=20260806T020000Z;RSCALE=GREGORIAN;SKIP=BACKWARD",
             },
         ];
 
@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import { JsCal } from "../jscal.js";
+import { ICalParseError } from "../ical.js";
+import type { Event } from "../types.js";
+
+const meeting: Event = {
+    "@type": "Event",
+    uid: "review@example.com",
+    updated: "2026-02-01T00:00:00Z",
+    title: "Design review",
+    start: "2026-03-02T09:00:00",
+    timeZone: "Europe/Berlin",
+    duration: "PT1H",
+    replyTo: { imip: "mailto:owner@example.com" },
+    participants: {
+        owner: {
+            "@type": "Participant",
+            name: "Owner",
+            sendTo: { imip: "mailto:owner@example.com" },
+            roles: { owner: true },
+        },
+        bob: {
+            "@type": "Participant",
+            name: "Bob",
+            sendTo: { imip: "mailto:bob@example.com" },
+            roles: { attendee: true },
+            participationStatus: "needs-action",
+            expectReply: true,
+        },
+    },
+};
+
+const headers = {
+    from: "owner@example.com",
+    to: ["bob@example.com"],
+    date: new Date("2026-03-01T08:00:00Z"),
+    messageId: "<m1@example.com>",
+    boundary: "b1",
+};
+
+describe("toIMip", () => {
+    it("writes a multipart/alternative message", () => {
+        const invite = JsCal.createITipRequest(meeting);
+        const raw = JsCal.toIMip(invite, headers);
+        const lines = raw.split("\r\n");
+        expect(lines.slice(0, 7)).toEqual([
+            "From: owner@example.com",
+            "To: bob@example.com",
+            "Subject: Invitation: Design review",
+            "Date: Sun, 01 Mar 2026 08:00:00 GMT",
+            "Message-ID: <m1@example.com>",
+            "MIME-Version: 1.0",
+            'Content-Type: multipart/alternative; boundary="b1.alt"',
+        ]);
+        expect(lines).toContain("Content-Type: text/plain; charset=UTF-8");
+        expect(lines).toContain(
+            "Content-Type: text/calendar; method=REQUEST; charset=UTF-8",
+        );
+        expect(raw).not.toContain("application/ics");
+        expect(lines.every((line) => line.length <= 78)).toBe(true);
+        expect(JsCal.fromIMip(raw)).toEqual([invite.object]);
+    });
+
+    it("adds an .ics attachment and encodes non-ASCII subjects", () => {
+        const cancel = JsCal.createITipCancel({ ...meeting, title: "Café" });
+        const raw = JsCal.toIMip(cancel, { ...headers, attachment: true });
+        expect(raw).toContain("Subject: =?UTF-8?B?Q2FuY2VsbGVkOiBDYWbDqQ==?=");
+        expect(raw).toContain('Content-Type: multipart/mixed; boundary="b1"');
+        expect(raw).toContain(
+            'Content-Disposition: attachment; filename="invite.ics"',
+        );
+        expect(JsCal.fromIMip(raw)).toEqual([cancel.object]);
+    });
+});
+
+describe("fromIMip", () => {
+    it("reads quoted-printable calendar parts from other mailers", () => {
+        const raw = [
+            "From: ann@example.com",
+            "Subject: Holiday",
+            "Content-Type: multipart/mixed;",
+            '\tboundary="outer"',
+            "",
+            "preamble",
+            "--outer",
+            "Content-Type: text/plain",
+            "",
+            "See attached.",
+            "--outer",
+            "Content-Type: text/calendar; charset=utf-8; method=PUBLISH",
+            "Content-Transfer-Encoding: quoted-printable",
+            "",
+            "BEGIN:VCALENDAR",
+            "VERSION:2.0",
+            "PRODID:-//Example//EN",
+            "METHOD:PUBLISH",
+            "BEGIN:VEVENT",
+            "UID:holiday@example.com",
+            "DTSTAMP:20260101T000000Z",
+            "DTSTART;VALUE=3DDATE:20261225",
+            "SUMMARY:F=C3=A9rias =3D closed",
+            "END:VEVENT",
+            "END:VCALENDAR",
+            "--outer--",
+            "",
+        ].join("\n");
+        const [imported] = JsCal.fromIMip(raw);
+        expect(imported).toMatchObject({
+            "@type": "Event",
+            uid: "holiday@example.com",
+            method: "publish",
+            title: "Férias = closed",
+        });
+    });
+
+    it("rejects messages without a calendar", () => {
+        const raw = "Subject: hi\r\nContent-Type: text/plain\r\n\r\nHello\r\n";
+        expect(() => JsCal.fromIMip(raw)).toThrow(ICalParseError);
+    });
+});
@@ -0,0 +1,458 @@
+import { describe, expect, it } from "vitest";
+import { JsCal } from "../jscal.js";
+import { ValidationError } from "../validate.js";
+import type { Event } from "../types.js";
+
+const now = () => "2026-03-01T08:00:00Z";
+
+const meeting: Event = {
+    "@type": "Event",
+    uid: "standup@example.com",
+    updated: "2026-02-01T00:00:00Z",
+    sequence: 2,
+    title: "Standup",
+    start: "2026-03-02T09:00:00",
+    timeZone: "Europe/Berlin",
+    duration: "PT15M",
+    replyTo: { imip: "mailto:owner@example.com" },
+    recurrenceRules: [{ "@type": "RecurrenceRule", frequency: "daily" }],
+    recurrenceOverrides: {
+        "2026-03-04T09:00:00": { title: "Standup (demo)" },
+    },
+    alerts: {
+        a1: {
+            "@type": "Alert",
+            trigger: { "@type": "OffsetTrigger", offset: "-PT5M" },
+        },
+    },
+    participants: {
+        owner: {
+            "@type": "Participant",
+            name: "Owner",
+            sendTo: { imip: "mailto:owner@example.com" },
+            roles: { owner: true, attendee: true },
+            participationStatus: "accepted",
+        },
+        bob: {
+            "@type": "Participant",
+            name: "Bob",
+            sendTo: { imip: "mailto:bob@example.com" },
+            roles: { attendee: true },
+            participationStatus: "tentative",
+            expectReply: true,
+        },
+        carol: {
+            "@type": "Participant",
+            sendTo: { imip: "mailto:carol@example.com" },
+            roles: { attendee: true },
+            participationStatus: "needs-action",
+        },
+    },
+};
+
+/**
+ * Unfold iCalendar text into content lines.
+ * @param ical iCalendar text.
+ * @return Content lines.
+ */
+function contentLines(ical: string): string[] {
+    return ical.replace(/\r\n /g, "").split("\r\n");
+}
+
+describe("createITipRequest", () => {
+    it("bumps the sequence and invites every attendee", () => {
+        const message = JsCal.createITipRequest(meeting, { now });
+        expect(message.method).toBe("request");
+        expect(message.object).toMatchObject({
+            method: "request",
+            sequence: 3,
+            updated: "2026-03-01T08:00:00Z",
+        });
+        expect(meeting.sequence).toBe(2);
+
+        const lines = contentLines(message.ical);
+        expect(lines).toContain("METHOD:REQUEST");
+        expect(lines).toContain("SEQUENCE:3");
+        expect(lines).toContain("DTSTAMP:20260301T080000Z");
+        expect(lines).toContain("ORGANIZER;CN=Owner:mailto:owner@example.com");
+        expect(lines.filter((line) => line === "BEGIN:VEVENT")).toHaveLength(2);
+        expect(
+            lines.filter((line) => line.startsWith("ATTENDEE")),
+        ).toHaveLength(6);
+        expect(lines).toContain(
+            "RECURRENCE-ID;TZID=Europe/Berlin:20260304T090000",
+        );
+        expect(message.ical).toContain("BEGIN:VALARM");
+    });
+
+    it("can keep the sequence", () => {
+        const message = JsCal.createITipRequest(meeting, {
+            now,
+            sequence: false,
+        });
+        expect(message.object.sequence).toBe(2);
+    });
+
+    it("requires an organizer", () => {
+        const {
+            replyTo: _replyTo,
+            participants: _participants,
+            ...rest
+        } = meeting;
+        expect(() => JsCal.createITipRequest(rest)).toThrow(ValidationError);
+    });
+});
+
+describe("createITipReply", () => {
+    it("keeps only the organizer and the replying attendee", () => {
+        const message = JsCal.createITipReply(meeting, "bob", { now });
+        expect(message.object.sequence).toBe(2);
+        expect(Object.keys(message.object.participants ?? {})).toEqual([
+            "owner",
+            "bob",
+        ]);
+
+        const lines = contentLines(message.ical);
+        expect(lines).toContain("METHOD:REPLY");
+        expect(lines).toContain("SEQUENCE:2");
+        expect(lines.filter((line) => line.startsWith("ATTENDEE"))).toEqual([
+            "ATTENDEE;CN=Bob;ROLE=REQ-PARTICIPANT;PARTSTAT=TENTATIVE;RSVP=TRUE:mailto:bob@example.com",
+        ]);
+        expect(message.ical).not.toContain("BEGIN:VALARM");
+        expect(message.ical).not.toContain("RECURRENCE-ID");
+    });
+
+    it("replies for a single occurrence", () => {
+        const message = JsCal.createITipReply(meeting, "bob", {
+            now,
+            recurrenceId: "2026-03-04T09:00:00",
+        });
+        expect(message.object).toMatchObject({
+            recurrenceId: "2026-03-04T09:00:00",
+            start: "2026-03-04T09:00:00",
+            title: "Standup (demo)",
+        });
+        const lines = contentLines(message.ical);
+        expect(lines).toContain(
+            "RECURRENCE-ID;TZID=Europe/Berlin:20260304T090000",
+        );
+        expect(lines).not.toContain("RRULE:FREQ=DAILY");
+    });
+
+    it("rejects unknown participants", () => {
+        expect(() => JsCal.createITipReply(meeting, "dave")).toThrow(
+            "object.participants.dave: is not a participant",
+        );
+    });
+});
+
+describe("createITipCancel", () => {
+    it("cancels the whole series", () => {
+        const message = JsCal.createITipCancel(meeting, { now });
+        expect(message.object).toMatchObject({
+            method: "cancel",
+            sequence: 3,
+            status: "cancelled",
+        });
+        const lines = contentLines(message.ical);
+        expect(lines).toContain("METHOD:CANCEL");
+        expect(lines).toContain("STATUS:CANCELLED");
+        expect(lines.filter((line) => line === "BEGIN:VEVENT")).toHaveLength(1);
+        expect(
+            lines.filter((line) => line.startsWith("ATTENDEE")),
+        ).toHaveLength(3);
+    });
+
+    it("cancels one occurrence", () => {
+        const message = JsCal.createITipCancel(meeting, {
+            now,
+            recurrenceId: "2026-03-03T09:00:00",
+        });
+        const lines = contentLines(message.ical);
+        expect(lines).toContain(
+            "RECURRENCE-ID;TZID=Europe/Berlin:20260303T090000",
+        );
+        expect(lines).toContain("SEQUENCE:3");
+        expect(lines).not.toContain("RRULE:FREQ=DAILY");
+    });
+
+    it("rejects recurrence ids the series does not produce", () => {
+        const error = "options.recurrenceId: does not address an occurrence";
+        for (const recurrenceId of [
+            "2026-03-03T10:00:00",
+            "2026-03-01T09:00:00",
+        ]) {
+            expect(() =>
+                JsCal.createITipCancel(meeting, { recurrenceId }),
+            ).toThrow(error);
+            expect(() =>
+                JsCal.createITipReply(meeting, "bob", { recurrenceId }),
+            ).toThrow(error);
+            expect(() =>
+                JsCal.createITipRefresh(meeting, "bob", { recurrenceId }),
+            ).toThrow(error);
+        }
+    });
+});
+
+describe("createITipRefresh", () => {
+    it("keeps only the properties REFRESH allows", () => {
+        const message = JsCal.createITipRefresh(meeting, "carol", { now });
+        const lines = contentLines(message.ical);
+        const start = lines.indexOf("BEGIN:VEVENT");
+        const end = lines.indexOf("END:VEVENT");
+        expect(lines.slice(start + 1, end)).toEqual([
+            "UID:standup@example.com",
+            "DTSTAMP:20260301T080000Z",
+            "ORGANIZER;CN=Owner:mailto:owner@example.com",
+            "ATTENDEE;ROLE=REQ-PARTICIPANT;PARTSTAT=NEEDS-ACTION:mailto:carol@example.com",
+        ]);
+        expect(lines).toContain("METHOD:REFRESH");
+        expect(message.ical).not.toContain("VTIMEZONE");
+    });
+});
+
+describe("processITipReply", () => {
+    const bobCopy: Event = {
+        ...meeting,
+        participants: {
+            ...meeting.participants,
+            bob: {
+                "@type": "Participant",
+                name: "Bob",
+                sendTo: { imip: "mailto:bob@example.com" },
+                roles: { attendee: true },
+                participationStatus: "accepted",
+            },
+        },
+    };
+
+    it("records the attendee status from iCalendar text", () => {
+        const reply = JsCal.createITipReply(bobCopy, "bob", { now });
+        const result = JsCal.processITipReply(meeting, reply.ical, {
+            preferXJSCalendar: false,
+        });
+        expect(result.method).toBe("reply");
+        expect(result.changes).toEqual([
+            {
+                participantId: "bob",
+                recurrenceId: undefined,
+                participationStatus: "accepted",
+                applied: true,
+            },
+        ]);
+        expect(result.object.participants?.bob).toMatchObject({
+            participationStatus: "accepted",
+            scheduleSequence: 2,
+            scheduleUpdated: "2026-03-01T08:00:00Z",
+        });
+        expect(meeting.participants?.bob?.participationStatus).toBe(
+            "tentative",
+        );
+    });
+
+    it("ignores outdated and out-of-order replies", () => {
+        const outdated = JsCal.createITipReply(
+            { ...bobCopy, sequence: 1 },
+            "bob",
+            { now },
+        );
+        const stale = JsCal.processITipReply(meeting, outdated.object);
+        expect(stale.changes[0]).toMatchObject({
+            applied: false,
+            reason: "outdated-sequence",
+        });
+        expect(stale.object).toEqual(meeting);
+
+        const latest = JsCal.processITipReply(
+            meeting,
+            JsCal.createITipReply(bobCopy, "bob", { now }).object,
+        );
+        const earlier = JsCal.createITipReply(
+            {
+                ...bobCopy,
+                participants: {
+                    ...bobCopy.participants,
+                    bob: {
+                        "@type": "Participant",
+                        sendTo: { imip: "mailto:bob@example.com" },
+                        roles: { attendee: true },
+                        participationStatus: "declined",
+                    },
+                },
+            },
+            "bob",
+            { now: () => "2026-02-28T08:00:00Z" },
+        );
+        const result = JsCal.processITipReply(latest.object, earlier.object);
+        expect(result.changes[0]).toMatchObject({
+            applied: false,
+            reason: "out-of-order",
+        });
+        expect(result.object.participants?.bob?.participationStatus).toBe(
+            "accepted",
+        );
+    });
+
+    it("records a reply for one occurrence as an override", () => {
+        const declined: Event = {
+            ...bobCopy,
+            recurrenceOverrides: {
+                ...bobCopy.recurrenceOverrides,
+                "2026-03-04T09:00:00": {
+                    title: "Standup (demo)",
+                    "participants/bob/participationStatus": "declined",
+                },
+            },
+        };
+        const reply = JsCal.createITipReply(declined, "bob", {
+            now,
+            recurrenceId: "2026-03-04T09:00:00",
+        });
+        const result = JsCal.processITipReply(meeting, reply.ical);
+        expect(result.changes[0]).toMatchObject({
+            participantId: "bob",
+            recurrenceId: "2026-03-04T09:00:00",
+            applied: true,
+        });
+        expect(
+            result.object.recurrenceOverrides?.["2026-03-04T09:00:00"],
+        ).toMatchObject({
+            title: "Standup (demo)",
+            "participants/bob/participationStatus": "declined",
+        });
+        expect(result.object.participants?.bob?.participationStatus).toBe(
+            "tentative",
+        );
+    });
+
+    it("reports unknown participants", () => {
+        const stranger: Event = {
+            ...meeting,
+            method: "reply",
+            participants: {
+                dave: {
+                    "@type": "Participant",
+                    email: "dave@example.com",
+                    roles: { attendee: true },
+                    participationStatus: "accepted",
+                },
+            },
+        };
+        const result = JsCal.processITipReply(meeting, stranger);
+        expect(result.changes[0]).toMatchObject({
+            applied: false,
+            reason: "unknown-participant",
+        });
+    });
+
+    it("reports replies for ids the series does not produce", () => {
+        const reply: Event = {
+            ...meeting,
+            method: "reply",
+            recurrenceId: "2026-03-03T10:00:00",
+            recurrenceRules: undefined,
+            recurrenceOverrides: undefined,
+            participants: {
+                bob: {
+                    "@type": "Participant",
+                    email: "bob@example.com",
+                    roles: { attendee: true },
+                    participationStatus: "accepted",
+                },
+            },
+        };
+        const result = JsCal.processITipReply(meeting, reply);
+        expect(result.changes[0]).toMatchObject({
+            participantId: "bob",
+            recurrenceId: "2026-03-03T10:00:00",
+            applied: false,
+            reason: "unknown-occurrence",
+        });
+        expect(result.object).toEqual(meeting);
+    });
+
+    it("rejects messages that are not replies", () => {
+        const request = JsCal.createITipRequest(meeting, { now });
+        expect(() => JsCal.processITipReply(meeting, request.ical)).toThrow(
+            "message.method: must be reply or counter",
+        );
+    });
+});
+
+describe("COUNTER handling", () => {
+    const proposal: Event = {
+        ...meeting,
+        method: "counter",
+        start: "2026-03-02T10:00:00",
+        participants: {
+            bob: {
+                "@type": "Participant",
+                email: "bob@example.com",
+                roles: { attendee: true },
+                participationStatus: "tentative",
+            },
+        },
+    };
+
+    it("surfaces the proposal as a patch", () => {
+        const result = JsCal.processITipReply(meeting, proposal);
+        expect(result.method).toBe("counter");
+        expect(result.object).toEqual(meeting);
+        expect(result.counters).toEqual([
+            {
+                participantId: "bob",
+                sequence: 2,
+                patch: { start: "2026-03-02T10:00:00" },
+            },
+        ]);
+    });
+
+    it("accepts a proposal with a new REQUEST", () => {
+        const [counter] = JsCal.processITipReply(meeting, proposal).counters;
+        if (!counter) throw new Error("missing counter");
+        const message = JsCal.acceptITipCounter(meeting, counter, { now });
+        expect(message.method).toBe("request");
+        expect(message.object).toMatchObject({
+            start: "2026-03-02T10:00:00",
+            sequence: 3,
+        });
+        expect(contentLines(message.ical)).toContain(
+            "DTSTART;TZID=Europe/Berlin:20260302T100000",
+        );
+    });
+
+    it("declines a proposal with DECLINECOUNTER", () => {
+        const [counter] = JsCal.processITipReply(meeting, proposal).counters;
+        if (!counter) throw new Error("missing counter");
+        const message = JsCal.createITipDeclineCounter(meeting, counter, {
+            now,
+        });
+        const lines = contentLines(message.ical);
+        const start = lines.indexOf("BEGIN:VEVENT");
+        const end = lines.indexOf("END:VEVENT");
+        expect(lines).toContain("METHOD:DECLINECOUNTER");
+        expect(lines.slice(start + 1, end)).toEqual([
+            "UID:standup@example.com",
+            "DTSTAMP:20260301T080000Z",
+            "SEQUENCE:2",
+            "ORGANIZER;CN=Owner:mailto:owner@example.com",
+            "ATTENDEE;CN=Bob;ROLE=REQ-PARTICIPANT;PARTSTAT=TENTATIVE;RSVP=TRUE:mailto:bob@example.com",
+        ]);
+    });
+
+    it("rejects counters for ids the series does not produce", () => {
+        const counter = {
+            participantId: "bob",
+            recurrenceId: "2026-03-03T10:00:00",
+            sequence: 2,
+            patch: { title: "Later" },
+        };
+        expect(() => JsCal.acceptITipCounter(meeting, counter)).toThrow(
+            "counter.recurrenceId: does not address an occurrence",
+        );
+        expect(() => JsCal.createITipDeclineCounter(meeting, counter)).toThrow(
+            "options.recurrenceId: does not address an occurrence",
+        );
+    });
+});
@@ -0,0 +1,218 @@
+import { describe, expect, it } from "vitest";
+import { JsCal } from "../jscal.js";
+import { ICalParseError } from "../ical.js";
+import type { JCalComponent, JCalProperty } from "../ical.js";
+import type { Event, Task } from "../types.js";
+
+const event: Event = {
+    "@type": "Event",
+    uid: "e1",
+    updated: "2026-02-01T00:00:00Z",
+    title: "Planning; Q1",
+    start: "2026-02-02T09:00:00",
+    timeZone: "Europe/Berlin",
+    duration: "PT1H",
+    keywords: { planning: true, budget: true },
+    priority: 2,
+    locations: {
+        office: {
+            "@type": "Location",
+            name: "Office",
+            coordinates: "geo:52.52,13.405",
+        },
+    },
+    recurrenceRules: [
+        {
+            "@type": "RecurrenceRule",
+            frequency: "weekly",
+            until: "2026-03-30T09:00:00",
+            byDay: [
+                { "@type": "NDay", day: "mo" },
+                { "@type": "NDay", day: "we" },
+            ],
+        },
+    ],
+    recurrenceOverrides: {
+        "2026-02-04T09:00:00": { excluded: true },
+        "2026-02-09T09:00:00": { title: "Moved planning" },
+    },
+    alerts: {
+        a1: {
+            "@type": "Alert",
+            trigger: { "@type": "OffsetTrigger", offset: "-PT15M" },
+        },
+    },
+};
+
+const task: Task = {
+    "@type": "Task",
+    uid: "t1",
+    updated: "2026-02-01T00:00:00Z",
+    title: "File report",
+    due: "2026-02-06T00:00:00",
+    showWithoutTime: true,
+    percentComplete: 20,
+};
+
+/**
+ * Find a property of a jCal component by name.
+ * @param component jCal component.
+ * @param name Lower-case property name.
+ * @return Matching property, or undefined.
+ */
+function findJCalProperty(
+    component: JCalComponent | undefined,
+    name: string,
+): JCalProperty | undefined {
+    return component?.[1].find((property) => property[0] === name);
+}
+
+describe("toJCal", () => {
+    it("writes typed jCal properties", () => {
+        const jcal = JsCal.toJCal([event, task], { includeXJSCalendar: false });
+        expect(jcal[0]).toBe("vcalendar");
+        expect(findJCalProperty(jcal, "version")).toEqual([
+            "version",
+            {},
+            "text",
+            "2.0",
+        ]);
+
+        const [timeZone, master, instance, todo] = jcal[2];
+        expect(timeZone?.[0]).toBe("vtimezone");
+        expect(
+            findJCalProperty(timeZone?.[2][0], "tzoffsetto")?.slice(2),
+        ).toEqual(["utc-offset", "+01:00"]);
+
+        expect(master?.[0]).toBe("vevent");
+        expect(findJCalProperty(master, "summary")).toEqual([
+            "summary",
+            {},
+            "text",
+            "Planning; Q1",
+        ]);
+        expect(findJCalProperty(master, "dtstart")).toEqual([
+            "dtstart",
+            { tzid: "Europe/Berlin" },
+            "date-time",
+            "2026-02-02T09:00:00",
+        ]);
+        expect(findJCalProperty(master, "rrule")).toEqual([
+            "rrule",
+            {},
+            "recur",
+            {
+                freq: "WEEKLY",
+                until: "2026-03-30T07:00:00Z",
+                byday: ["MO", "WE"],
+            },
+        ]);
+        expect(findJCalProperty(master, "exdate")?.slice(2)).toEqual([
+            "date-time",
+            "2026-02-04T09:00:00",
+        ]);
+        expect(findJCalProperty(master, "categories")?.slice(2)).toEqual([
+            "text",
+            "planning",
+            "budget",
+        ]);
+        expect(findJCalProperty(master, "geo")?.slice(2)).toEqual([
+            "float",
+            [52.52, 13.405],
+        ]);
+        expect(findJCalProperty(master, "priority")?.slice(2)).toEqual([
+            "integer",
+            2,
+        ]);
+        expect(findJCalProperty(master?.[2][0], "trigger")?.slice(2)).toEqual([
+            "duration",
+            "-PT15M",
+        ]);
+        expect(findJCalProperty(instance, "recurrence-id")?.[3]).toBe(
+            "2026-02-09T09:00:00",
+        );
+
+        expect(findJCalProperty(todo, "due")).toEqual([
+            "due",
+            {},
+            "date",
+            "2026-02-06",
+        ]);
+    });
+
+    it("stays equivalent to the text serialization", () => {
+        const options = { preferXJSCalendar: false };
+        const fromText = JsCal.fromICal(JsCal.toICal([event, task]), options);
+        const fromJson = JsCal.fromJCal(JsCal.toJCal([event, task]), options);
+        expect(fromJson).toEqual(fromText);
+    });
+
+    it("round-trips through X-JSCALENDAR and JSON text", () => {
+        const json = JSON.stringify(JsCal.toJCal([event, task]));
+        expect(JsCal.fromJCal(json)).toEqual([event, task]);
+    });
+});
+
+describe("fromJCal", () => {
+    it("imports jCal from other producers", () => {
+        const jcal: JCalComponent = [
+            "vcalendar",
+            [["prodid", {}, "text", "-//Example//EN"]],
+            [
+                [
+                    "vevent",
+                    [
+                        ["uid", {}, "text", "holiday@example.com"],
+                        ["dtstamp", {}, "date-time", "2026-01-01T00:00:00Z"],
+                        ["dtstart", {}, "date", "2026-12-25"],
+                        ["summary", {}, "text", "Holiday, office closed"],
+                        ["rrule", {}, "recur", { freq: "YEARLY", count: 3 }],
+                        [
+                            "attendee",
+                            { cn: "Ann", partstat: "ACCEPTED" },
+                            "cal-address",
+                            "mailto:ann@example.com",
+                        ],
+                        ["x-custom", {}, "unknown", "kept"],
+                    ],
+                    [],
+                ],
+            ],
+        ];
+        const [imported] = JsCal.fromJCal([jcal]);
+        expect(imported).toMatchObject({
+            "@type": "Event",
+            uid: "holiday@example.com",
+            prodId: "-//Example//EN",
+            start: "2026-12-25T00:00:00",
+            showWithoutTime: true,
+            title: "Holiday, office closed",
+            recurrenceRules: [
+                { "@type": "RecurrenceRule", frequency: "yearly", count: 3 },
+            ],
+            participants: {
+                "ann-example-com": {
+                    name: "Ann",
+                    participationStatus: "accepted",
+                },
+            },
+        });
+    });
+
+    it("rejects malformed jCal", () => {
+        expect(() => JsCal.fromJCal("{")).toThrow(ICalParseError);
+        expect(() => JsCal.fromJCal({ vcalendar: [] })).toThrow(
+            "jCal input must be an array",
+        );
+        expect(() => JsCal.fromJCal(["vcalendar", [["uid"]], []])).toThrow(
+            "invalid jCal property",
+        );
+        expect(() =>
+            JsCal.fromJCal([
+                "vcalendar",
+                [],
+                [["vevent", [["dtstart", {}, "date-time", "tomorrow"]], []]],
+            ]),
+        ).toThrow("invalid jCal date-time");
+    });
+});
@@ -1,6 +1,11 @@
 import { describe, expect, it } from "vitest";
 import { JsCal } from "../jscal.js";
-import type { JSCalendarObject } from "../types.js";
+import type {
+    DstPolicy,
+    JSCalendarObject,
+    RecurrenceRule,
+    TimeZoneId,
+} from "../types.js";
 
 function collect(gen: Generator<JSCalendarObject>): JSCalendarObject[] {
     const result: JSCalendarObject[] = [];
@@ -124,12 +129,9 @@ describe("recurrence expansion", () => {
             ),
         );
 
+        // The source counts as the first of the three occurrences.
         const starts = occ.map((o) => o.recurrenceId);
-        expect(starts).toEqual([
-            "2026-04-01T09:00:00",
-            "2026-04-08T09:00:00",
-            "2026-04-15T09:00:00",
-        ]);
+        expect(starts).toEqual(["2026-04-01T09:00:00", "2026-04-08T09:00:00"]);
     });
 
     it("omits the source occurrence for BY* rules when includeAnchor is false", () => {
@@ -152,11 +154,7 @@ describe("recurrence expansion", () => {
                     from: new Date("2026-03-01"),
                     to: new Date("2026-04-30"),
                 },
-                expected: [
-                    "2026-04-01T09:00:00",
-                    "2026-04-08T09:00:00",
-                    "2026-04-15T09:00:00",
-                ],
+                expected: ["2026-04-01T09:00:00", "2026-04-08T09:00:00"],
             },
             {
                 name: "monthly byDay nthOfPeriod",
@@ -240,7 +238,7 @@ describe("recurrence expansion", () => {
                     from: new Date("2026-01-01"),
                     to: new Date("2027-02-10"),
                 },
-                expected: ["2026-02-01T09:00:00", "2027-02-01T09:00:00"],
+                expected: ["2026-02-01T09:00:00"],
             },
             {
                 name: "yearly byWeekNo",
@@ -785,6 +783,35 @@ describe("recurrence expansion", () => {
         expect(starts).toEqual(["2026-03-01T09:00:00", "2027-03-01T09:00:00"]);
     });
 
+    it("counts nth weekdays within byMonth for yearly rules", () => {
+        const event = new JsCal.Event({
+            title: "Second Sunday of March",
+            start: "2026-03-08T02:00:00",
+            recurrenceRules: [
+                {
+                    "@type": "RecurrenceRule",
+                    frequency: "yearly",
+                    byMonth: ["3"],
+                    byDay: [{ "@type": "NDay", day: "su", nthOfPeriod: 2 }],
+                    count: 3,
+                },
+            ],
+        });
+
+        const occ = collect(
+            JsCal.expandRecurrence([event], {
+                from: new Date("2026-01-01"),
+                to: new Date("2029-01-01"),
+            }),
+        );
+
+        expect(occ.map((o) => o.recurrenceId)).toEqual([
+            "2026-03-08T02:00:00",
+            "2027-03-14T02:00:00",
+            "2028-03-12T02:00:00",
+        ]);
+    });
+
     it("converts range dates into event time zone", () => {
         const event = new JsCal.Event({
             title: "TZ Range",
@@ -1003,7 +1030,7 @@ describe("recurrence expansion", () => {
                     {
                         "@type": "RecurrenceRule",
                         frequency: "daily",
-                        rscale: "hebrew",
+                        rscale: "persian",
                     },
                 ],
             },
@@ -1040,7 +1067,7 @@ describe("recurrence expansion", () => {
             "2026-02-02T09:00:00",
             "2026-02-09T09:00:00",
         ]);
-        expect(page1.nextCursor).toBe("2026-02-09T09:00:00");
+        expect(page1.hasMore).toBe(true);
 
         const page2 = JsCal.expandRecurrencePaged([event], range, {
             limit: 2,
@@ -1051,7 +1078,7 @@ describe("recurrence expansion", () => {
             "2026-02-16T09:00:00",
             "2026-02-23T09:00:00",
         ]);
-        expect(page2.nextCursor).toBe("2026-02-23T09:00:00");
+        expect(page2.hasMore).toBe(false);
     });
 
     it("pages recurrence expansion without the source occurrence", () => {
@@ -1075,7 +1102,7 @@ describe("recurrence expansion", () => {
 
         const starts = page.items.map((o) => o.recurrenceId);
         expect(starts).toEqual(["2026-02-09T09:00:00", "2026-02-16T09:00:00"]);
-        expect(page.nextCursor).toBe("2026-02-16T09:00:00");
+        expect(page.hasMore).toBe(false);
     });
 
     it("returns empty page when cursor is beyond range", () => {
@@ -1091,13 +1118,750 @@ describe("recurrence expansion", () => {
             from: new Date("2026-02-01"),
             to: new Date("2026-02-10"),
         };
+        const later = JsCal.expandRecurrencePaged(
+            [event],
+            { from: new Date("2026-02-15"), to: new Date("2026-02-25") },
+            { limit: 1 },
+        );
 
         const page = JsCal.expandRecurrencePaged([event], range, {
             limit: 2,
-            cursor: "2026-02-20T09:00:00",
+            cursor: later.nextCursor,
         });
 
         expect(page.items).toEqual([]);
         expect(page.nextCursor).toBeUndefined();
+        expect(page.hasMore).toBe(false);
+    });
+});
+
+describe("lazy recurrence expansion", () => {
+    it("takes the first occurrences of many unbounded series quickly", () => {
+        const events = Array.from({ length: 2000 }, (_, index) =>
+            new JsCal.Event({
+                title: `Series ${index}`,
+                start: `2000-01-01T${String(index % 24).padStart(2, "0")}:00:00`,
+                recurrenceRules: [
+                    { "@type": "RecurrenceRule", frequency: "daily" },
+                ],
+            }).eject(),
+        );
+
+        const taken: string[] = [];
+        for (const occ of JsCal.expandRecurrence(events, {
+            from: new Date("2000-01-01T00:00:00"),
+            to: new Date("2050-12-31T23:59:59"),
+        })) {
+            taken.push(occ.recurrenceId ?? "");
+            if (taken.length === 10) break;
+        }
+
+        expect(taken).toEqual(Array(10).fill("2000-01-01T00:00:00"));
+    });
+
+    it("merges series in key order and keeps ties in input order", () => {
+        const weekly = new JsCal.Event({
+            title: "Weekly",
+            start: "2026-02-02T09:00:00",
+            recurrenceRules: [
+                { "@type": "RecurrenceRule", frequency: "weekly" },
+            ],
+        }).eject();
+        const daily = new JsCal.Event({
+            title: "Daily",
+            start: "2026-02-02T09:00:00",
+            recurrenceRules: [
+                { "@type": "RecurrenceRule", frequency: "daily", count: 3 },
+            ],
+        }).eject();
+        const group = new JsCal.Group({ title: "Group", entries: [] }).eject();
+
+        const occ = Array.from(
+            JsCal.expandRecurrence([group, weekly, daily], {
+                from: new Date("2026-02-01T00:00:00"),
+                to: new Date("2026-02-10T00:00:00"),
+            }),
+        );
+
+        expect(occ.map((o) => [o.title, o.recurrenceId])).toEqual([
+            ["Weekly", "2026-02-02T09:00:00"],
+            ["Daily", "2026-02-02T09:00:00"],
+            ["Daily", "2026-02-03T09:00:00"],
+            ["Daily", "2026-02-04T09:00:00"],
+            ["Weekly", "2026-02-09T09:00:00"],
+            ["Group", undefined],
+        ]);
+    });
+});
+
+describe("non-Gregorian recurrence rules (RFC 7529)", () => {
+    function expand(
+        start: string,
+        rule: Omit<RecurrenceRule, "@type">,
+        to: string,
+    ): string[] {
+        const event = new JsCal.Event({
+            title: "Calendar Rule",
+            start,
+            recurrenceRules: [{ "@type": "RecurrenceRule", ...rule }],
+        });
+        return collect(
+            JsCal.expandRecurrence([event], {
+                from: new Date(`${start}Z`),
+                to: new Date(to),
+            }),
+        ).map((o) => o.recurrenceId ?? "");
+    }
+
+    it("repeats Chinese New Year", () => {
+        expect(
+            expand(
+                "2013-02-10T00:00:00",
+                { frequency: "yearly", rscale: "chinese" },
+                "2017-12-31",
+            ),
+        ).toEqual([
+            "2013-02-10T00:00:00",
+            "2014-01-31T00:00:00",
+            "2015-02-19T00:00:00",
+            "2016-02-08T00:00:00",
+            "2017-01-28T00:00:00",
+        ]);
+    });
+
+    it("selects the Ethiopic 13th month", () => {
+        expect(
+            expand(
+                "2013-09-06T00:00:00",
+                { frequency: "monthly", rscale: "ethiopic", byMonth: ["13"] },
+                "2017-12-31",
+            ),
+        ).toEqual([
+            "2013-09-06T00:00:00",
+            "2014-09-06T00:00:00",
+            "2015-09-06T00:00:00",
+            "2016-09-06T00:00:00",
+            "2017-09-06T00:00:00",
+        ]);
+    });
+
+    it("moves a Hebrew leap month anniversary with skip", () => {
+        const rule = {
+            frequency: "yearly",
+            rscale: "hebrew",
+            byMonth: ["5L"],
+            byMonthDay: [8],
+        } satisfies Omit<RecurrenceRule, "@type">;
+
+        expect(
+            expand(
+                "2014-02-08T00:00:00",
+                { ...rule, skip: "forward" },
+                "2018-12-31",
+            ),
+        ).toEqual([
+            "2014-02-08T00:00:00",
+            "2015-02-27T00:00:00",
+            "2016-02-17T00:00:00",
+            "2017-03-06T00:00:00",
+            "2018-02-23T00:00:00",
+        ]);
+        expect(
+            expand(
+                "2014-02-08T00:00:00",
+                { ...rule, skip: "backward" },
+                "2016-12-31",
+            ),
+        ).toEqual([
+            "2014-02-08T00:00:00",
+            "2015-01-28T00:00:00",
+            "2016-02-17T00:00:00",
+        ]);
+        expect(expand("2014-02-08T00:00:00", rule, "2018-12-31")).toEqual([
+            "2014-02-08T00:00:00",
+            "2016-02-17T00:00:00",
+        ]);
+    });
+
+    it("applies skip to missing Islamic month days", () => {
+        expect(
+            expand(
+                "2014-02-08T18:00:00",
+                {
+                    frequency: "monthly",
+                    rscale: "islamic-civil",
+                    byMonthDay: [30],
+                    skip: "backward",
+                },
+                "2014-04-30T23:59:59",
+            ),
+        ).toEqual([
+            "2014-02-08T18:00:00",
+            "2014-03-02T18:00:00",
+            "2014-04-01T18:00:00",
+            "2014-04-30T18:00:00",
+        ]);
+    });
+
+    it("rejects month filters on finer frequencies", () => {
+        expect(() =>
+            expand(
+                "2014-02-08T00:00:00",
+                { frequency: "daily", rscale: "hebrew", byMonth: ["5L"] },
+                "2014-12-31",
+            ),
+        ).toThrow("Unsupported rscale rule");
+    });
+});
+
+describe("occurrence lookup", () => {
+    const standup = new JsCal.Event({
+        title: "Standup",
+        start: "1990-01-01T09:00:00",
+        timeZone: "Europe/Berlin",
+        recurrenceRules: [{ "@type": "RecurrenceRule", frequency: "daily" }],
+        recurrenceOverrides: {
+            "2026-03-11T09:00:00": { excluded: true },
+            "2026-03-12T09:00:00": { title: "Planning" },
+        },
+    });
+
+    it("finds the next occurrence in the item's time zone", () => {
+        const next = JsCal.nextOccurrence(
+            standup,
+            new Date("2026-03-09T08:00:00Z"),
+        );
+        expect(next?.recurrenceId).toBe("2026-03-10T09:00:00");
+    });
+
+    it("skips excluded occurrences and applies overrides", () => {
+        const next = JsCal.nextOccurrence(
+            standup,
+            new Date("2026-03-10T08:00:00Z"),
+        );
+        expect([next?.recurrenceId, next?.title]).toEqual([
+            "2026-03-12T09:00:00",
+            "Planning",
+        ]);
+    });
+
+    it("finds the previous occurrence without a range", () => {
+        const previous = JsCal.previousOccurrence(
+            standup,
+            new Date("2026-03-12T08:00:00Z"),
+        );
+        expect(previous?.recurrenceId).toBe("2026-03-10T09:00:00");
+    });
+
+    it("finds the last occurrence of a finished series", () => {
+        const event = new JsCal.Event({
+            title: "Course",
+            start: "2020-01-06T10:00:00",
+            recurrenceRules: [
+                { "@type": "RecurrenceRule", frequency: "weekly", count: 3 },
+            ],
+            recurrenceOverrides: {
+                "2020-01-03T10:00:00": { title: "Kickoff" },
+            },
+        });
+
+        expect(
+            JsCal.previousOccurrence(event, new Date("2030-01-01T00:00:00"))
+                ?.recurrenceId,
+        ).toBe("2020-01-20T10:00:00");
+        expect(
+            JsCal.previousOccurrence(event, new Date("2020-01-06T00:00:00"))
+                ?.title,
+        ).toBe("Kickoff");
+        expect(
+            JsCal.previousOccurrence(event, new Date("2020-01-03T10:00:00")),
+        ).toBeUndefined();
+        expect(
+            JsCal.nextOccurrence(event, new Date("2020-01-20T10:00:00")),
+        ).toBeUndefined();
+    });
+
+    it("iterates occurrences after a date without an end", () => {
+        const ids: string[] = [];
+        for (const occurrence of JsCal.occurrencesAfter(
+            standup,
+            new Date("2026-03-09T08:00:00Z"),
+        )) {
+            if (occurrence.recurrenceId) ids.push(occurrence.recurrenceId);
+            if (ids.length === 4) break;
+        }
+        expect(ids).toEqual([
+            "2026-03-10T09:00:00",
+            "2026-03-12T09:00:00",
+            "2026-03-13T09:00:00",
+            "2026-03-14T09:00:00",
+        ]);
+    });
+
+    it("stops on rules that never match again", () => {
+        const event = new JsCal.Event({
+            title: "Never",
+            start: "2026-02-28T09:00:00",
+            recurrenceRules: [
+                {
+                    "@type": "RecurrenceRule",
+                    frequency: "yearly",
+                    byMonth: ["2"],
+                    byMonthDay: [30],
+                },
+            ],
+        });
+
+        expect(
+            JsCal.nextOccurrence(event, new Date("2026-03-01T00:00:00")),
+        ).toBeUndefined();
+    });
+});
+
+describe("overlap expansion", () => {
+    const range = {
+        from: new Date("2026-03-10T00:00:00"),
+        to: new Date("2026-03-12T00:00:00"),
+    };
+
+    it("includes long occurrences that start before the range", () => {
+        const event = new JsCal.Event({
+            title: "Conference",
+            start: "2026-03-01T09:00:00",
+            duration: "P3D",
+            recurrenceRules: [
+                { "@type": "RecurrenceRule", frequency: "weekly" },
+            ],
+        });
+
+        expect(collect(JsCal.expandRecurrence([event], range))).toEqual([]);
+        expect(
+            collect(
+                JsCal.expandRecurrence([event], range, { overlap: true }),
+            ).map((occurrence) => occurrence.recurrenceId),
+        ).toEqual(["2026-03-08T09:00:00"]);
+    });
+
+    it("uses the patched start of moved overrides", () => {
+        const event = new JsCal.Event({
+            title: "Review",
+            start: "2026-03-02T09:00:00",
+            duration: "PT1H",
+            recurrenceRules: [
+                { "@type": "RecurrenceRule", frequency: "weekly" },
+            ],
+            recurrenceOverrides: {
+                "2026-03-09T09:00:00": { start: "2026-03-06T09:00:00" },
+                "2026-03-16T09:00:00": { start: "2026-03-11T10:00:00" },
+            },
+        });
+
+        const occurrences = collect(
+            JsCal.expandRecurrence([event], range, { overlap: true }),
+        );
+        expect(
+            occurrences.map((occurrence) => [
+                occurrence.recurrenceId,
+                occurrence["@type"] === "Event" ? occurrence.start : null,
+            ]),
+        ).toEqual([["2026-03-16T09:00:00", "2026-03-11T10:00:00"]]);
+    });
+
+    it("matches tasks by their start to due span", () => {
+        const task = new JsCal.Task({
+            title: "Report",
+            start: "2026-03-05T09:00:00",
+            due: "2026-03-10T12:00:00",
+            recurrenceRules: [
+                { "@type": "RecurrenceRule", frequency: "monthly", count: 2 },
+            ],
+        });
+
+        const ids = Array.from(
+            JsCal.expandRecurrence([task], range, { overlap: true }),
+        ).map((occurrence) => occurrence.recurrenceId);
+        expect(ids).toEqual(["2026-03-05T09:00:00"]);
+    });
+});
+
+describe("group expansion", () => {
+    const standup = new JsCal.Event({
+        title: "Standup",
+        start: "2026-03-02T09:00:00",
+        recurrenceRules: [
+            { "@type": "RecurrenceRule", frequency: "daily", count: 2 },
+        ],
+    });
+    const review = new JsCal.Event({
+        title: "Review",
+        start: "2026-03-02T10:00:00",
+        timeZone: "America/New_York",
+        locale: "en",
+    });
+    const group = new JsCal.Group({
+        uid: "calendar-1",
+        timeZone: "Europe/Berlin",
+        locale: "de",
+        entries: [review, standup],
+    });
+    const range = {
+        from: new Date("2026-03-01T00:00:00Z"),
+        to: new Date("2026-03-05T00:00:00Z"),
+    };
+
+    it("yields groups as is by default", () => {
+        expect(
+            Array.from(JsCal.expandRecurrence([group], range)).map(
+                (item) => item["@type"],
+            ),
+        ).toEqual(["Group"]);
+    });
+
+    it("expands entries and links them to the group", () => {
+        const occurrences = Array.from(
+            JsCal.expandRecurrence([group], range, { expandGroups: true }),
+        );
+
+        expect(
+            occurrences.map((occurrence) => [
+                occurrence.title,
+                occurrence["@type"] === "Event" ? occurrence.start : null,
+                occurrence.timeZone,
+                occurrence.locale,
+                occurrence.relatedTo?.["calendar-1"]?.relation,
+            ]),
+        ).toEqual([
+            [
+                "Standup",
+                "2026-03-02T09:00:00",
+                "Europe/Berlin",
+                "de",
+                { parent: true },
+            ],
+            [
+                "Review",
+                "2026-03-02T10:00:00",
+                "America/New_York",
+                "en",
+                { parent: true },
+            ],
+            [
+                "Standup",
+                "2026-03-03T09:00:00",
+                "Europe/Berlin",
+                "de",
+                { parent: true },
+            ],
+        ]);
+        expect(occurrences[0]?.recurrenceIdTimeZone).toBe("Europe/Berlin");
+    });
+});
+
+describe("occurrence records", () => {
+    const review = new JsCal.Event({
+        uid: "team/review",
+        title: "Review",
+        start: "2026-03-02T09:00:00",
+        timeZone: "Europe/Berlin",
+        duration: "PT1H",
+        recurrenceRules: [
+            { "@type": "RecurrenceRule", frequency: "weekly", count: 3 },
+        ],
+        recurrenceOverrides: {
+            "2026-03-09T09:00:00": { start: "2026-03-10T14:00:00" },
+        },
+    });
+    const range = {
+        from: new Date("2026-03-01T00:00:00Z"),
+        to: new Date("2026-03-31T00:00:00Z"),
+    };
+
+    it("yields records with instants and occurrence ids", () => {
+        const records = Array.from(
+            JsCal.expandRecurrence([review], range, { records: true }),
+        );
+
+        expect(
+            records.map((record) => [
+                record.occurrenceId,
+                record.utcStart?.toISOString(),
+                record.utcEnd?.toISOString(),
+                record.isAnchor,
+                record.isOverride,
+                record.sourceUid,
+            ]),
+        ).toEqual([
+            [
+                "team%2Freview/2026-03-02T09:00:00",
+                "2026-03-02T08:00:00.000Z",
+                "2026-03-02T09:00:00.000Z",
+                true,
+                false,
+                "team/review",
+            ],
+            [
+                "team%2Freview/2026-03-09T09:00:00",
+                "2026-03-10T13:00:00.000Z",
+                "2026-03-10T14:00:00.000Z",
+                false,
+                true,
+                "team/review",
+            ],
+            [
+                "team%2Freview/2026-03-16T09:00:00",
+                "2026-03-16T08:00:00.000Z",
+                "2026-03-16T09:00:00.000Z",
+                false,
+                false,
+                "team/review",
+            ],
+        ]);
+    });
+
+    it("parses occurrence ids back", () => {
+        expect(
+            JsCal.parseOccurrenceId("team%2Freview/2026-03-09T09:00:00"),
+        ).toEqual({ uid: "team/review", recurrenceId: "2026-03-09T09:00:00" });
+        expect(JsCal.parseOccurrenceId("single")).toEqual({ uid: "single" });
+    });
+
+    it("looks up an occurrence by its id", () => {
+        const records = Array.from(
+            JsCal.expandRecurrence([review], range, { records: true }),
+        );
+        for (const record of records) {
+            expect(JsCal.getOccurrence(review, record.occurrenceId)).toEqual(
+                record,
+            );
+        }
+        expect(
+            JsCal.getOccurrence(review, "team%2Freview/2026-03-03T09:00:00"),
+        ).toBeUndefined();
+        expect(
+            JsCal.getOccurrence(review, "other/2026-03-02T09:00:00"),
+        ).toBeUndefined();
+    });
+
+    it("finds occurrences of group entries", () => {
+        const single = new JsCal.Event({
+            uid: "single",
+            title: "Single",
+            start: "2026-03-04T12:00:00",
+        });
+        const group = new JsCal.Group({
+            timeZone: "Europe/Berlin",
+            entries: [review, single],
+        });
+
+        const record = JsCal.getOccurrence(group, "single");
+        expect([
+            record?.object.title,
+            record?.utcStart?.toISOString(),
+            record?.isAnchor,
+            record?.object.relatedTo?.[group.data.uid]?.relation,
+        ]).toEqual([
+            "Single",
+            "2026-03-04T11:00:00.000Z",
+            true,
+            { parent: true },
+        ]);
+    });
+});
+
+describe("paging cursors", () => {
+    const weekly = (uid: string, start: string, timeZone?: TimeZoneId) =>
+        new JsCal.Event({
+            uid,
+            title: uid,
+            start,
+            timeZone,
+            recurrenceRules: [
+                { "@type": "RecurrenceRule", frequency: "weekly", count: 3 },
+            ],
+        });
+    const range = {
+        from: new Date("2026-03-01T00:00:00Z"),
+        to: new Date("2026-03-31T00:00:00Z"),
+    };
+
+    /**
+     * Read every page of a paged expansion.
+     * @param items Items to expand.
+     * @param direction Paging direction.
+     * @return Occurrence labels page by page.
+     */
+    function readPages(
+        items: InstanceType<typeof JsCal.Event>[],
+        direction: "forward" | "backward",
+    ): string[][] {
+        const pages: string[][] = [];
+        let cursor: string | undefined;
+        for (;;) {
+            const page = JsCal.expandRecurrencePaged(items, range, {
+                limit: 2,
+                cursor,
+                direction,
+            });
+            pages.push(
+                page.items.map((item) => `${item.uid} ${item.recurrenceId}`),
+            );
+            if (!page.hasMore) return pages;
+            cursor =
+                direction === "forward" ? page.nextCursor : page.previousCursor;
+        }
+    }
+
+    it("keeps occurrences at the same instant across pages", () => {
+        const items = [
+            weekly("b", "2026-03-02T09:00:00", "Etc/UTC"),
+            weekly("a", "2026-03-02T09:00:00", "Etc/UTC"),
+        ];
+
+        expect(readPages(items, "forward")).toEqual([
+            ["a 2026-03-02T09:00:00", "b 2026-03-02T09:00:00"],
+            ["a 2026-03-09T09:00:00", "b 2026-03-09T09:00:00"],
+            ["a 2026-03-16T09:00:00", "b 2026-03-16T09:00:00"],
+        ]);
+    });
+
+    it("orders zoned series by instant", () => {
+        const items = [
+            weekly("berlin", "2026-03-02T09:00:00", "Europe/Berlin"),
+            weekly("tokyo", "2026-03-02T10:00:00", "Asia/Tokyo"),
+        ];
+
+        expect(readPages(items, "forward").flat()).toEqual([
+            "tokyo 2026-03-02T10:00:00",
+            "berlin 2026-03-02T09:00:00",
+            "tokyo 2026-03-09T10:00:00",
+            "berlin 2026-03-09T09:00:00",
+            "tokyo 2026-03-16T10:00:00",
+            "berlin 2026-03-16T09:00:00",
+        ]);
+    });
+
+    it("pages backward from the end of the range", () => {
+        const items = [
+            weekly("a", "2026-03-02T09:00:00", "Etc/UTC"),
+            weekly("b", "2026-03-03T09:00:00", "Etc/UTC"),
+        ];
+
+        expect(readPages(items, "backward")).toEqual([
+            ["a 2026-03-16T09:00:00", "b 2026-03-17T09:00:00"],
+            ["a 2026-03-09T09:00:00", "b 2026-03-10T09:00:00"],
+            ["a 2026-03-02T09:00:00", "b 2026-03-03T09:00:00"],
+        ]);
+    });
+
+    it("rejects malformed cursors", () => {
+        expect(() =>
+            JsCal.expandRecurrencePaged(
+                [weekly("a", "2026-03-02T09:00:00")],
+                range,
+                {
+                    limit: 2,
+                    cursor: "2026-03-02T09:00:00",
+                },
+            ),
+        ).toThrow("Invalid recurrence cursor");
+    });
+});
+
+describe("daylight saving policies", () => {
+    const range = {
+        from: new Date("2026-02-01T00:00:00Z"),
+        to: new Date("2026-12-01T00:00:00Z"),
+    };
+
+    /**
+     * Build a weekly New York event with three occurrences.
+     * @param start Local start of the series.
+     * @return Event object.
+     */
+    function weekly(start: string): JSCalendarObject {
+        return new JsCal.Event({
+            uid: "dst",
+            start,
+            timeZone: "America/New_York",
+            recurrenceRules: [
+                { "@type": "RecurrenceRule", frequency: "weekly", count: 3 },
+            ],
+        }).data;
+    }
+
+    /**
+     * Expand an event to the UTC starts of its occurrences.
+     * @param event Event to expand.
+     * @param dstPolicy Optional DST policy.
+     * @return ISO strings of the occurrence starts.
+     */
+    function utcStarts(
+        event: JSCalendarObject,
+        dstPolicy?: DstPolicy,
+    ): string[] {
+        return Array.from(
+            JsCal.expandRecurrence([event], range, {
+                records: true,
+                dstPolicy,
+            }),
+            (record) => record.utcStart?.toISOString() ?? "",
+        );
+    }
+
+    it("shifts times in a gap forward by default", () => {
+        const event = weekly("2026-03-01T02:30:00");
+        expect(utcStarts(event)).toEqual([
+            "2026-03-01T07:30:00.000Z",
+            "2026-03-08T07:30:00.000Z",
+            "2026-03-15T06:30:00.000Z",
+        ]);
+        expect(utcStarts(event, "later")).toEqual(utcStarts(event));
+        expect(utcStarts(event, "earlier")[1]).toBe("2026-03-08T06:30:00.000Z");
+    });
+
+    it("looks up occurrences in a gap by their recurrenceId", () => {
+        const event = weekly("2026-03-01T02:30:00");
+        const occurrenceId = "dst/2026-03-08T02:30:00";
+        expect(
+            JsCal.getOccurrence(event, occurrenceId)?.utcStart?.toISOString(),
+        ).toBe("2026-03-08T07:30:00.000Z");
+        expect(
+            JsCal.getOccurrence(event, occurrenceId, {
+                dstPolicy: "earlier",
+            })?.utcStart?.toISOString(),
+        ).toBe("2026-03-08T06:30:00.000Z");
+        expect(
+            JsCal.getOccurrence(event, occurrenceId, { dstPolicy: "skip" }),
+        ).toBeUndefined();
+    });
+
+    it("skips generated occurrences in a gap", () => {
+        const event = weekly("2026-03-01T02:30:00");
+        expect(utcStarts(event, "skip")).toEqual([
+            "2026-03-01T07:30:00.000Z",
+            "2026-03-15T06:30:00.000Z",
+        ]);
+    });
+
+    it("picks the earlier or later instant of repeated times", () => {
+        const event = weekly("2026-10-25T01:30:00");
+        expect(utcStarts(event)[1]).toBe("2026-11-01T05:30:00.000Z");
+        expect(utcStarts(event, "skip")[1]).toBe("2026-11-01T05:30:00.000Z");
+        expect(utcStarts(event, "later")[1]).toBe("2026-11-01T06:30:00.000Z");
+
+        const afterFallBack = {
+            from: new Date("2026-11-01T06:00:00Z"),
+            to: new Date("2026-11-02T00:00:00Z"),
+        };
+        expect(collect(JsCal.expandRecurrence([event], afterFallBack))).toEqual(
+            [],
+        );
+        expect(
+            collect(
+                JsCal.expandRecurrence([event], afterFallBack, {
+                    dstPolicy: "later",
+                }),
+            ).map((occurrence) => occurrence.recurrenceId),
+        ).toEqual(["2026-11-01T01:30:00"]);
     });
 });
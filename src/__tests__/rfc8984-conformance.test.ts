@@ -0,0 +1,332 @@
+import { describe, expect, it } from "vitest";
+import { JsCal } from "../jscal.js";
+import type { Event, JSCalendarObject } from "../types.js";
+
+type ConformanceCase = {
+    name: string;
+    event: Event;
+    range: {
+        from: Date;
+        to: Date;
+    };
+    expected: string[];
+};
+
+/**
+ * Expand one event and keep the Event occurrences.
+ * @param event Recurring event.
+ * @param range Expansion range.
+ * @return Occurrences in order.
+ */
+function expand(event: Event, range: ConformanceCase["range"]): Event[] {
+    const result: Event[] = [];
+    for (const item of JsCal.expandRecurrence([event], range)) {
+        if (item["@type"] === "Event") result.push(item);
+    }
+    return result;
+}
+
+/**
+ * Create a validated event with generated uid and updated values.
+ * @param input Event fields.
+ * @return Plain event object.
+ */
+function event(input: Omit<Event, "@type" | "uid" | "updated">): Event {
+    return new JsCal.Event(input).eject();
+}
+
+const calculus = event({
+    title: "Calculus I",
+    start: "2020-01-08T09:00:00",
+    timeZone: "Europe/London",
+    duration: "PT1H30M",
+    recurrenceRules: [
+        {
+            "@type": "RecurrenceRule",
+            frequency: "weekly",
+            until: "2020-06-24T09:00:00",
+        },
+    ],
+    recurrenceOverrides: {
+        "2020-01-07T14:00:00": {
+            title: "Introduction to Calculus I (optional)",
+        },
+        "2020-04-01T09:00:00": {
+            excluded: true,
+        },
+        "2020-06-25T09:00:00": {
+            title: "Calculus I Exam",
+            start: "2020-06-25T10:00:00",
+            duration: "PT2H",
+        },
+    },
+});
+
+/**
+ * List weekly recurrence ids between two local date-times.
+ * @param first First recurrence id.
+ * @param last Last recurrence id, inclusive.
+ * @param skip Recurrence ids to leave out.
+ * @return Recurrence ids in order.
+ */
+function weeklyFrom(
+    first: string,
+    last: string,
+    skip: string[] = [],
+): string[] {
+    const result: string[] = [];
+    const cursor = new Date(`${first}Z`);
+    while (cursor.toISOString().slice(0, 19) <= last) {
+        const value = cursor.toISOString().slice(0, 19);
+        if (!skip.includes(value)) result.push(value);
+        cursor.setUTCDate(cursor.getUTCDate() + 7);
+    }
+    return result;
+}
+
+const cases: ConformanceCase[] = [
+    {
+        name: "6.4 all-day event recurring yearly since 1900",
+        event: event({
+            title: "April Fool's Day",
+            showWithoutTime: true,
+            start: "1900-04-01T00:00:00",
+            duration: "P1D",
+            recurrenceRules: [
+                { "@type": "RecurrenceRule", frequency: "yearly" },
+            ],
+        }),
+        range: {
+            from: new Date("2026-01-01T00:00:00"),
+            to: new Date("2028-12-31T00:00:00"),
+        },
+        expected: [
+            "2026-04-01T00:00:00",
+            "2027-04-01T00:00:00",
+            "2028-04-01T00:00:00",
+        ],
+    },
+    {
+        name: "6.7 floating-time event recurring daily",
+        event: event({
+            title: "Yoga",
+            start: "2020-01-01T07:00:00",
+            duration: "PT30M",
+            recurrenceRules: [
+                { "@type": "RecurrenceRule", frequency: "daily" },
+            ],
+        }),
+        range: {
+            from: new Date("2020-01-01T00:00:00"),
+            to: new Date("2020-01-03T23:59:59"),
+        },
+        expected: [
+            "2020-01-01T07:00:00",
+            "2020-01-02T07:00:00",
+            "2020-01-03T07:00:00",
+        ],
+    },
+    {
+        name: "6.9 recurring event with added and excluded overrides",
+        event: calculus,
+        range: {
+            from: new Date("2020-01-01T00:00:00Z"),
+            to: new Date("2020-07-01T00:00:00Z"),
+        },
+        expected: [
+            "2020-01-07T14:00:00",
+            ...weeklyFrom("2020-01-08T09:00:00", "2020-06-24T09:00:00", [
+                "2020-04-01T09:00:00",
+            ]),
+            "2020-06-25T09:00:00",
+        ],
+    },
+    {
+        name: "4.3.3.1 the start counts as the first occurrence",
+        event: event({
+            start: "2026-03-27T09:00:00",
+            recurrenceRules: [
+                {
+                    "@type": "RecurrenceRule",
+                    frequency: "weekly",
+                    byDay: [{ "@type": "NDay", day: "we" }],
+                    count: 3,
+                },
+            ],
+        }),
+        range: {
+            from: new Date("2026-03-01T00:00:00"),
+            to: new Date("2026-05-01T00:00:00"),
+        },
+        expected: [
+            "2026-03-27T09:00:00",
+            "2026-04-01T09:00:00",
+            "2026-04-08T09:00:00",
+        ],
+    },
+    {
+        name: "4.3.3 count applies per rule before the union",
+        event: event({
+            start: "2026-02-02T09:00:00",
+            recurrenceRules: [
+                { "@type": "RecurrenceRule", frequency: "daily", count: 3 },
+                { "@type": "RecurrenceRule", frequency: "weekly", count: 2 },
+            ],
+        }),
+        range: {
+            from: new Date("2026-02-01T00:00:00"),
+            to: new Date("2026-03-01T00:00:00"),
+        },
+        expected: [
+            "2026-02-02T09:00:00",
+            "2026-02-03T09:00:00",
+            "2026-02-04T09:00:00",
+            "2026-02-09T09:00:00",
+        ],
+    },
+    {
+        name: "4.3.3.1 skip duplicates are counted once",
+        event: event({
+            start: "2026-01-31T09:00:00",
+            recurrenceRules: [
+                {
+                    "@type": "RecurrenceRule",
+                    frequency: "monthly",
+                    byMonthDay: [1, 31],
+                    skip: "forward",
+                    count: 4,
+                },
+            ],
+        }),
+        range: {
+            from: new Date("2026-01-01T00:00:00"),
+            to: new Date("2026-12-31T00:00:00"),
+        },
+        expected: [
+            "2026-01-31T09:00:00",
+            "2026-02-01T09:00:00",
+            "2026-03-01T09:00:00",
+            "2026-03-31T09:00:00",
+        ],
+    },
+    {
+        name: "4.3.4 excluded rules only remove the start when it matches",
+        event: event({
+            start: "2026-02-02T09:00:00",
+            recurrenceRules: [
+                { "@type": "RecurrenceRule", frequency: "daily", count: 5 },
+            ],
+            excludedRecurrenceRules: [
+                {
+                    "@type": "RecurrenceRule",
+                    frequency: "weekly",
+                    byDay: [{ "@type": "NDay", day: "we" }],
+                },
+            ],
+        }),
+        range: {
+            from: new Date("2026-02-01T00:00:00"),
+            to: new Date("2026-03-01T00:00:00"),
+        },
+        expected: [
+            "2026-02-02T09:00:00",
+            "2026-02-03T09:00:00",
+            "2026-02-05T09:00:00",
+            "2026-02-06T09:00:00",
+        ],
+    },
+    {
+        name: "4.3 overrides are applied after the excluded rules",
+        event: event({
+            start: "2026-02-02T09:00:00",
+            recurrenceRules: [
+                { "@type": "RecurrenceRule", frequency: "daily", count: 4 },
+            ],
+            excludedRecurrenceRules: [
+                { "@type": "RecurrenceRule", frequency: "daily" },
+            ],
+            recurrenceOverrides: {
+                "2026-02-03T09:00:00": {},
+                "2026-02-10T12:00:00": { title: "Extra" },
+            },
+        }),
+        range: {
+            from: new Date("2026-02-01T00:00:00"),
+            to: new Date("2026-03-01T00:00:00"),
+        },
+        expected: ["2026-02-03T09:00:00", "2026-02-10T12:00:00"],
+    },
+];
+
+describe("RFC 8984 recurrence conformance", () => {
+    for (const testCase of cases) {
+        it(testCase.name, () => {
+            const ids = expand(testCase.event, testCase.range).map(
+                (occurrence: JSCalendarObject) => occurrence.recurrenceId,
+            );
+            expect(ids).toEqual(testCase.expected);
+        });
+    }
+
+    it("6.9 applies override patches to the occurrences", () => {
+        const occurrences = expand(calculus, {
+            from: new Date("2020-06-20T00:00:00Z"),
+            to: new Date("2020-07-01T00:00:00Z"),
+        });
+
+        expect(
+            occurrences.map((occurrence) => [
+                occurrence.title,
+                occurrence.start,
+                occurrence.duration,
+            ]),
+        ).toEqual([
+            ["Calculus I", "2020-06-24T09:00:00", "PT1H30M"],
+            ["Calculus I Exam", "2020-06-25T10:00:00", "PT2H"],
+        ]);
+    });
+
+    it("6.10 keeps per-occurrence participation changes", () => {
+        const attendee = "dG9tQGZvb2Jhci5xlLmNvbQ";
+        const meeting = event({
+            title: "FooBar team meeting",
+            start: "2020-01-08T09:00:00",
+            timeZone: "Africa/Johannesburg",
+            duration: "PT1H",
+            recurrenceRules: [
+                { "@type": "RecurrenceRule", frequency: "weekly" },
+            ],
+            participants: {
+                [attendee]: {
+                    "@type": "Participant",
+                    name: "Tom Tool",
+                    email: "tom@foobar.example.com",
+                    participationStatus: "accepted",
+                    roles: { attendee: true },
+                },
+            },
+            recurrenceOverrides: {
+                "2020-03-04T09:00:00": {
+                    [`participants/${attendee}/participationStatus`]:
+                        "declined",
+                },
+            },
+        });
+
+        const occurrences = expand(meeting, {
+            from: new Date("2020-02-26T00:00:00Z"),
+            to: new Date("2020-03-12T00:00:00Z"),
+        });
+
+        expect(
+            occurrences.map((occurrence) => [
+                occurrence.recurrenceId,
+                occurrence.participants?.[attendee]?.participationStatus,
+            ]),
+        ).toEqual([
+            ["2020-02-26T09:00:00", "accepted"],
+            ["2020-03-04T09:00:00", "declined"],
+            ["2020-03-11T09:00:00", "accepted"],
+        ]);
+    });
+});
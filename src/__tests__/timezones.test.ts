@@ -1,5 +1,6 @@
 import { describe, expect, it } from "vitest";
 import { JsCal } from "../jscal.js";
+import type { Event, TimeZone } from "../types.js";
 import {
     EtcTimeZones,
     GmtTimeZones,
@@ -7,6 +8,75 @@ import {
     resolveTimeZone,
     TimeZones,
 } from "../timezones.js";
+import type { ResolveTimeZoneOptions } from "../timezones.js";
+import {
+    customUtcOffsetSeconds,
+    customZoneToLocal,
+    customZoneToUtc,
+} from "../timezones/resolver.js";
+import {
+    findOffsetTransitions,
+    formatUtcOffset,
+    getUtcOffsetSeconds,
+    synthesizeTimeZone,
+} from "../timezones/transitions.js";
+
+const CUSTOM_EASTERN: TimeZone = {
+    "@type": "TimeZone",
+    tzId: "/Example/Eastern",
+    standard: [
+        {
+            "@type": "TimeZoneRule",
+            start: "2007-11-04T02:00:00",
+            offsetFrom: "-0400",
+            offsetTo: "-0500",
+            recurrenceRules: [
+                {
+                    "@type": "RecurrenceRule",
+                    frequency: "yearly",
+                    byMonth: ["11"],
+                    byDay: [{ "@type": "NDay", day: "su", nthOfPeriod: 1 }],
+                },
+            ],
+        },
+    ],
+    daylight: [
+        {
+            "@type": "TimeZoneRule",
+            start: "2007-03-11T02:00:00",
+            offsetFrom: "-0500",
+            offsetTo: "-0400",
+            recurrenceRules: [
+                {
+                    "@type": "RecurrenceRule",
+                    frequency: "yearly",
+                    byMonth: ["3"],
+                    byDay: [{ "@type": "NDay", day: "su", nthOfPeriod: 2 }],
+                },
+            ],
+        },
+    ],
+};
+
+/**
+ * Build a daily 09:00 event in the custom Eastern zone.
+ * @param fields Fields to add or replace.
+ * @return Event using the custom zone.
+ */
+function customEvent(fields: Partial<Event> = {}): Event {
+    return new JsCal.Event({
+        uid: "custom-zone",
+        updated: "2026-01-01T00:00:00Z",
+        start: "2026-03-06T09:00:00",
+        duration: "PT1H",
+        timeZone: "/Example/Eastern",
+        timeZones: { "/Example/Eastern": CUSTOM_EASTERN },
+        recurrenceRules: [
+            { "@type": "RecurrenceRule", frequency: "daily", count: 5 },
+        ],
+        ...fields,
+    }).eject();
+}
 
 describe("time zones", () => {
     it("resolves Etc/UTC", () => {
@@ -32,4 +102,302 @@ describe("time zones", () => {
         // @ts-expect-error invalid time zone input
         expect(() => JsCal.timeZone("UTC")).toThrow();
     });
+
+    it("resolves links and Windows names in lenient mode", () => {
+        const lenient: ResolveTimeZoneOptions = { mode: "lenient" };
+        expect(JsCal.timeZone("US/Eastern", lenient)).toBe("America/New_York");
+        expect(JsCal.timeZone("utc", lenient)).toBe("Etc/UTC");
+        expect(JsCal.timeZone("W. Europe Standard Time", lenient)).toBe(
+            "Europe/Berlin",
+        );
+        expect(() => JsCal.timeZone("US/Eastern", { mode: "strict" })).toThrow(
+            "Unknown time zone: US/Eastern",
+        );
+    });
+
+    it("accepts aliases in constructors and iCalendar by default", () => {
+        const event = new JsCal.Event({
+            start: "2026-03-01T09:00:00",
+            timeZone: "Asia/Calcutta",
+        });
+        expect(event.data.timeZone).toBe("Asia/Kolkata");
+        const task = new JsCal.Task({ timeZone: "US/Eastern" });
+        expect(task.data.timeZone).toBe("America/New_York");
+        expect(
+            () =>
+                new JsCal.Event(
+                    {
+                        start: "2026-03-01T09:00:00",
+                        timeZone: "Asia/Calcutta",
+                    },
+                    { timeZoneMode: "strict" },
+                ),
+        ).toThrow("Unknown time zone: Asia/Calcutta");
+
+        const ical = [
+            "BEGIN:VCALENDAR",
+            "VERSION:2.0",
+            "PRODID:-//Test//EN",
+            "BEGIN:VEVENT",
+            "UID:windows-zone",
+            "DTSTAMP:20260101T000000Z",
+            "DTSTART;TZID=W. Europe Standard Time:20260301T090000",
+            "END:VEVENT",
+            "END:VCALENDAR",
+        ].join("\r\n");
+        const [imported] = JsCal.fromICal(ical);
+        expect(imported).toMatchObject({
+            timeZone: "Europe/Berlin",
+            start: "2026-03-01T09:00:00",
+        });
+        expect(() => JsCal.fromICal(ical, { timeZoneMode: "strict" })).toThrow(
+            "unknown TZID: W. Europe Standard Time",
+        );
+    });
+});
+
+describe("time zone transitions", () => {
+    it("finds IANA offset changes to the second", () => {
+        const transitions = findOffsetTransitions(
+            "America/New_York",
+            new Date("2026-01-01T00:00:00Z"),
+            new Date("2026-12-31T00:00:00Z"),
+        );
+        expect(transitions).toEqual([
+            {
+                at: new Date("2026-03-08T07:00:00Z"),
+                offsetFrom: -18000,
+                offsetTo: -14400,
+            },
+            {
+                at: new Date("2026-11-01T06:00:00Z"),
+                offsetFrom: -14400,
+                offsetTo: -18000,
+            },
+        ]);
+    });
+
+    it("folds yearly transitions into recurrence rules", () => {
+        const zone = synthesizeTimeZone(
+            "America/New_York",
+            new Date("2006-06-01T00:00:00Z"),
+            new Date("2009-06-01T00:00:00Z"),
+        );
+        expect(zone.daylight).toEqual([
+            {
+                "@type": "TimeZoneRule",
+                start: "2006-04-02T02:00:00",
+                offsetFrom: "-0500",
+                offsetTo: "-0400",
+                names: { EDT: true },
+            },
+            {
+                "@type": "TimeZoneRule",
+                start: "2007-03-11T02:00:00",
+                offsetFrom: "-0500",
+                offsetTo: "-0400",
+                names: { EDT: true },
+                recurrenceRules: [
+                    {
+                        "@type": "RecurrenceRule",
+                        frequency: "yearly",
+                        byMonth: ["3"],
+                        byDay: [{ "@type": "NDay", day: "su", nthOfPeriod: 2 }],
+                    },
+                ],
+            },
+        ]);
+        expect(zone.standard).toHaveLength(2);
+    });
+
+    it("describes fixed-offset zones with one observance", () => {
+        const zone = synthesizeTimeZone(
+            "Asia/Kolkata",
+            new Date("2026-01-01T00:00:00Z"),
+            new Date("2026-06-01T00:00:00Z"),
+        );
+        expect(zone.daylight).toBeUndefined();
+        expect(zone.standard).toEqual([
+            {
+                "@type": "TimeZoneRule",
+                start: expect.any(String),
+                offsetFrom: "+0530",
+                offsetTo: "+0530",
+            },
+        ]);
+        expect(formatUtcOffset(-34200)).toBe("-0930");
+        expect(formatUtcOffset(3723)).toBe("+010203");
+    });
+});
+
+describe("custom time zones", () => {
+    it("matches the IANA offsets the rules describe", () => {
+        for (const at of [
+            "2026-01-15T12:00:00Z",
+            "2026-03-08T06:59:59Z",
+            "2026-03-08T07:00:00Z",
+            "2026-07-01T00:00:00Z",
+            "2026-11-01T05:59:59Z",
+            "2026-11-01T06:00:00Z",
+            "2031-03-09T07:00:00Z",
+        ]) {
+            const date = new Date(at);
+            expect(customUtcOffsetSeconds(CUSTOM_EASTERN, date)).toBe(
+                getUtcOffsetSeconds("America/New_York", date),
+            );
+        }
+    });
+
+    it("uses the first offsetFrom before all onsets", () => {
+        expect(
+            customUtcOffsetSeconds(
+                CUSTOM_EASTERN,
+                new Date("2000-01-01T00:00:00Z"),
+            ),
+        ).toBe(-18000);
+    });
+
+    it("converts between local and UTC across transitions", () => {
+        expect(
+            customZoneToLocal(new Date("2026-07-01T13:00:00Z"), CUSTOM_EASTERN),
+        ).toBe("2026-07-01T09:00:00");
+        expect(customZoneToUtc("2026-03-08T02:30:00", CUSTOM_EASTERN)).toEqual(
+            new Date("2026-03-08T07:30:00Z"),
+        );
+        expect(customZoneToUtc("2026-11-01T01:30:00", CUSTOM_EASTERN)).toEqual(
+            new Date("2026-11-01T05:30:00Z"),
+        );
+    });
+
+    it("applies patched offsets of recurrence overrides", () => {
+        const zone: TimeZone = {
+            "@type": "TimeZone",
+            tzId: "/Example/Shift",
+            standard: [
+                {
+                    "@type": "TimeZoneRule",
+                    start: "2020-01-01T00:00:00",
+                    offsetFrom: "+0100",
+                    offsetTo: "+0100",
+                    recurrenceOverrides: {
+                        "2026-06-01T00:00:00": { offsetTo: "+0200" },
+                    },
+                },
+            ],
+        };
+        expect(
+            customUtcOffsetSeconds(zone, new Date("2026-05-31T12:00:00Z")),
+        ).toBe(3600);
+        expect(
+            customUtcOffsetSeconds(zone, new Date("2026-06-01T12:00:00Z")),
+        ).toBe(7200);
+    });
+
+    it("expands recurrences in the custom zone", () => {
+        const occurrences = Array.from(
+            JsCal.expandRecurrence([customEvent()], {
+                from: new Date("2026-03-09T13:00:00Z"),
+                to: new Date("2026-03-09T13:00:00Z"),
+            }),
+        );
+        expect(occurrences.map((item) => item.recurrenceId)).toEqual([
+            "2026-03-09T09:00:00",
+        ]);
+    });
+
+    it("filters by date range in the custom zone", () => {
+        const event = customEvent({ start: "2026-07-01T09:00:00" });
+        const range = {
+            start: new Date("2026-07-01T13:30:00Z"),
+            end: new Date("2026-07-01T13:45:00Z"),
+        };
+        expect(JsCal.filterByDateRange([event], range)).toHaveLength(1);
+        expect(
+            JsCal.filterByDateRange([event], {
+                start: new Date("2026-07-01T14:00:01Z"),
+            }),
+        ).toHaveLength(0);
+    });
+
+    it("exports UNTIL in UTC with the custom VTIMEZONE", () => {
+        const event = customEvent({
+            recurrenceRules: [
+                {
+                    "@type": "RecurrenceRule",
+                    frequency: "daily",
+                    until: "2026-07-10T09:00:00",
+                },
+            ],
+        });
+        const ical = JsCal.toICal([event]).replace(/\r\n[ \t]/g, "");
+        expect(ical).toContain("UNTIL=20260710T130000Z");
+        expect(ical).toContain("DTSTART;TZID=/Example/Eastern:20260306T090000");
+        expect(ical).toContain("TZID:/Example/Eastern");
+    });
+
+    it("rejects custom ids without a definition", () => {
+        const event = customEvent({ timeZones: {} });
+        expect(() =>
+            Array.from(
+                JsCal.expandRecurrence([event], {
+                    from: new Date("2026-03-01T00:00:00Z"),
+                    to: new Date("2026-03-31T00:00:00Z"),
+                }),
+            ),
+        ).toThrow("Unknown time zone: /Example/Eastern");
+    });
+});
+
+describe("time zone definitions", () => {
+    const range = {
+        from: new Date("2026-01-01T00:00:00Z"),
+        to: new Date("2026-12-31T00:00:00Z"),
+    };
+
+    it("derives yearly rules for an IANA zone", () => {
+        const zone = JsCal.timeZoneDefinition("europe/berlin", range);
+        expect(zone.tzId).toBe("Europe/Berlin");
+        expect(zone.daylight).toEqual([
+            {
+                "@type": "TimeZoneRule",
+                start: "2025-03-30T02:00:00",
+                offsetFrom: "+0100",
+                offsetTo: "+0200",
+                names: { CEST: true },
+                recurrenceRules: [
+                    {
+                        "@type": "RecurrenceRule",
+                        frequency: "yearly",
+                        byMonth: ["3"],
+                        byDay: [
+                            { "@type": "NDay", day: "su", nthOfPeriod: -1 },
+                        ],
+                    },
+                ],
+            },
+        ]);
+        expect(zone.standard?.[0]?.start).toBe("2025-10-26T03:00:00");
+    });
+
+    it("resolves the same offsets when used as a custom zone", () => {
+        const zone = JsCal.timeZoneDefinition("Europe/Berlin", range);
+        for (const at of [
+            "2026-03-29T00:59:59Z",
+            "2026-03-29T01:00:00Z",
+            "2026-10-25T01:00:00Z",
+            "2029-07-01T00:00:00Z",
+        ]) {
+            const date = new Date(at);
+            expect(customUtcOffsetSeconds(zone, date)).toBe(
+                getUtcOffsetSeconds("Europe/Berlin", date),
+            );
+        }
+    });
+
+    it("throws on unknown time zones", () => {
+        // @ts-expect-error invalid time zone input
+        expect(() => JsCal.timeZoneDefinition("Invalid/Zone", range)).toThrow(
+            "Unknown time zone: Invalid/Zone",
+        );
+    });
 });
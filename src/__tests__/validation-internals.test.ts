@@ -311,12 +311,12 @@ describe("validation internals", () => {
                 {
                     "@type": "RecurrenceRule",
                     frequency: "daily",
-                    byMonth: ["13"],
+                    byMonth: ["14"],
                 },
                 "rule",
             ),
         ).toThrowError(
-            "rule.byMonth[0]: must be a month number between 1 and 12",
+            "rule.byMonth[0]: must be a month number between 1 and 13, optionally followed by L",
         );
 
         expect(() =>
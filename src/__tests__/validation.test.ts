@@ -373,7 +373,7 @@ describe("validation", () => {
         expect(event.get("method")).toBe("publish");
     });
 
-    it("rejects non-gregorian rscale values", () => {
+    it("rejects unsupported rscale values", () => {
         expect(
             () =>
                 new JsCal.Event({
@@ -382,12 +382,12 @@ describe("validation", () => {
                         {
                             "@type": "RecurrenceRule",
                             frequency: "daily",
-                            rscale: "hebrew",
+                            rscale: "persian",
                         },
                     ],
                 }),
         ).toThrowError(
-            "object.recurrenceRules[0].rscale: only gregorian is supported",
+            "object.recurrenceRules[0].rscale: must be gregorian, hebrew, chinese, islamic-civil, or ethiopic",
         );
     });
 
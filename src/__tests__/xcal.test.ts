@@ -0,0 +1,144 @@
+import { describe, expect, it } from "vitest";
+import { JsCal } from "../jscal.js";
+import { ICalParseError } from "../ical.js";
+import type { Event } from "../types.js";
+
+const event: Event = {
+    "@type": "Event",
+    uid: "e1",
+    updated: "2026-02-01T00:00:00Z",
+    title: "Review <draft> & plan",
+    start: "2026-02-02T09:00:00",
+    timeZone: "Europe/Berlin",
+    duration: "PT1H",
+    keywords: { planning: true, budget: true },
+    locations: {
+        office: {
+            "@type": "Location",
+            name: "Office",
+            coordinates: "geo:52.52,13.405",
+        },
+    },
+    recurrenceRules: [
+        {
+            "@type": "RecurrenceRule",
+            frequency: "weekly",
+            count: 4,
+            byDay: [
+                { "@type": "NDay", day: "mo" },
+                { "@type": "NDay", day: "we" },
+            ],
+        },
+    ],
+};
+
+describe("toXCal", () => {
+    it("writes the xCal element structure", () => {
+        const xml = JsCal.toXCal([event], { includeXJSCalendar: false });
+        expect(xml).toMatch(/^<\?xml version="1.0" encoding="UTF-8"\?>\n/);
+        expect(xml).toContain(
+            '<icalendar xmlns="urn:ietf:params:xml:ns:icalendar-2.0">',
+        );
+        expect(xml).toContain("<summary>");
+        expect(xml).toContain("<text>Review &lt;draft&gt; &amp; plan</text>");
+        expect(xml).toMatch(
+            /<dtstart>\s*<parameters>\s*<tzid>\s*<text>Europe\/Berlin<\/text>\s*<\/tzid>\s*<\/parameters>\s*<date-time>2026-02-02T09:00:00<\/date-time>\s*<\/dtstart>/,
+        );
+        expect(xml).toMatch(
+            /<recur>\s*<freq>WEEKLY<\/freq>\s*<count>4<\/count>\s*<byday>MO<\/byday>\s*<byday>WE<\/byday>\s*<\/recur>/,
+        );
+        expect(xml).toMatch(
+            /<geo>\s*<latitude>52.52<\/latitude>\s*<longitude>13.405<\/longitude>\s*<\/geo>/,
+        );
+        expect(xml).toMatch(
+            /<categories>\s*<text>planning<\/text>\s*<text>budget<\/text>\s*<\/categories>/,
+        );
+    });
+
+    it("stays equivalent to the text serialization", () => {
+        const options = { preferXJSCalendar: false };
+        const fromText = JsCal.fromICal(JsCal.toICal([event]), options);
+        const fromXml = JsCal.fromXCal(JsCal.toXCal([event]), options);
+        expect(fromXml).toEqual(fromText);
+    });
+
+    it("round-trips through X-JSCALENDAR", () => {
+        expect(JsCal.fromXCal(JsCal.toXCal([event]))).toEqual([event]);
+    });
+});
+
+describe("fromXCal", () => {
+    it("imports prefixed documents with comments and CDATA", () => {
+        const xml = `<?xml version="1.0" encoding="utf-8"?>
+<!-- exported by another client -->
+<xc:icalendar xmlns:xc="urn:ietf:params:xml:ns:icalendar-2.0">
+  <xc:vcalendar>
+    <xc:properties>
+      <xc:prodid><xc:text>-//Example//EN</xc:text></xc:prodid>
+    </xc:properties>
+    <xc:components>
+      <xc:vevent>
+        <xc:properties>
+          <xc:uid><xc:text>holiday@example.com</xc:text></xc:uid>
+          <xc:dtstamp>
+            <xc:date-time>2026-01-01T00:00:00Z</xc:date-time>
+          </xc:dtstamp>
+          <xc:dtstart><xc:date>2026-12-25</xc:date></xc:dtstart>
+          <xc:summary><xc:text><![CDATA[Holiday <office closed>]]></xc:text></xc:summary>
+          <xc:rrule>
+            <xc:recur><xc:freq>YEARLY</xc:freq><xc:count>3</xc:count></xc:recur>
+          </xc:rrule>
+          <xc:attendee>
+            <xc:parameters>
+              <xc:cn><xc:text>Ann</xc:text></xc:cn>
+              <xc:rsvp><xc:boolean>true</xc:boolean></xc:rsvp>
+            </xc:parameters>
+            <xc:cal-address>mailto:ann@example.com</xc:cal-address>
+          </xc:attendee>
+        </xc:properties>
+      </xc:vevent>
+    </xc:components>
+  </xc:vcalendar>
+</xc:icalendar>`;
+        const [imported] = JsCal.fromXCal(xml);
+        expect(imported).toMatchObject({
+            "@type": "Event",
+            uid: "holiday@example.com",
+            prodId: "-//Example//EN",
+            start: "2026-12-25T00:00:00",
+            showWithoutTime: true,
+            title: "Holiday <office closed>",
+            recurrenceRules: [
+                { "@type": "RecurrenceRule", frequency: "yearly", count: 3 },
+            ],
+            participants: {
+                "ann-example-com": { name: "Ann", expectReply: true },
+            },
+        });
+    });
+
+    it("rejects malformed xCal", () => {
+        expect(() => JsCal.fromXCal("<icalendar>")).toThrow(ICalParseError);
+        expect(() => JsCal.fromXCal("<vcalendar/>")).toThrow(
+            "xCal root element must be icalendar",
+        );
+        expect(() =>
+            JsCal.fromXCal("<icalendar><vcalendar></icalendar>"),
+        ).toThrow("invalid XML");
+    });
+
+    it("rejects invalid character references", () => {
+        const wrap = (text: string): string =>
+            `<icalendar><vcalendar><properties><prodid><text>${text}</text></prodid></properties></vcalendar></icalendar>`;
+        expect(JsCal.fromXCal(wrap("&#x1F600; &lt;&#38;&gt;"))).toEqual([]);
+        expect(() => JsCal.fromXCal(wrap("&#x110000;"))).toThrow(
+            ICalParseError,
+        );
+        expect(() => JsCal.fromXCal(wrap("&#55296;"))).toThrow(
+            "invalid XML: character reference &#55296; out of range",
+        );
+        expect(() => JsCal.fromXCal(wrap("&nbsp;"))).toThrow(
+            "invalid XML: unknown entity &nbsp;",
+        );
+    });
+});
@@ -29,6 +29,7 @@ export function diff(
     after: EventDiffInput,
 ): PatchObject;
 export function diff(before: TaskDiffInput, after: TaskDiffInput): PatchObject;
+export function diff<T extends Event | Task>(before: T, after: T): PatchObject;
 export function diff(
     before: GroupDiffInput,
     after: GroupDiffInput,
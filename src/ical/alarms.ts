@@ -0,0 +1,226 @@
+import type { Alert, Event, Id, Relation, Task, Trigger } from "../types.js";
+import type { ICalComponent, ICalParameters, ICalProperty } from "./types.js";
+import { applyAlertDefaults } from "../jscal/defaults.js";
+import {
+    COMPONENT_VALARM,
+    PARAM_RELATED,
+    PARAM_RELTYPE,
+    PARAM_VALUE,
+    PROP_ACKNOWLEDGED,
+    PROP_ACTION,
+    PROP_DESCRIPTION,
+    PROP_RELATED_TO,
+    PROP_SUMMARY,
+    PROP_TRIGGER,
+    PROP_UID,
+    RELATED_END,
+    RELTYPE_SNOOZE,
+    VALUE_DATE_TIME,
+} from "./constants.js";
+import {
+    createComponent,
+    createProperty,
+    findProperties,
+    findProperty,
+} from "./component.js";
+import { escapeText, getParameter, unescapeText } from "./content-line.js";
+import { formatUtcDateTime, parseUtcDateTime } from "./datetime.js";
+import { ICalParseError } from "./error.js";
+import { deriveId } from "./ids.js";
+
+const TYPE_ALERT = "Alert";
+const TYPE_RELATION = "Relation";
+const TRIGGER_OFFSET = "OffsetTrigger";
+const TRIGGER_ABSOLUTE = "AbsoluteTrigger";
+const RELATIVE_TO_END = "end";
+const ACTION_DISPLAY = "display";
+const ACTION_EMAIL = "email";
+const RELATION_PARENT = "parent";
+const DEFAULT_ALARM_TEXT = "Reminder";
+const FALLBACK_ALERT_ID = "alert";
+const POSITIVE_SIGN = "+";
+
+/**
+ * Build VALARM components for the alerts of an Event or Task.
+ * @param object Event or Task with alerts.
+ * @return VALARM components; alerts with unknown triggers are skipped.
+ */
+export function buildAlarmComponents(object: Event | Task): ICalComponent[] {
+    const result: ICalComponent[] = [];
+    for (const [id, alert] of Object.entries(object.alerts ?? {})) {
+        const trigger = buildTrigger(alert.trigger);
+        if (!trigger) continue;
+        const alarm = createComponent(COMPONENT_VALARM);
+        const properties = alarm.properties;
+        const action = alert.action ?? ACTION_DISPLAY;
+        properties.push(createProperty(PROP_UID, escapeText(id)));
+        properties.push(createProperty(PROP_ACTION, action.toUpperCase()));
+        properties.push(trigger);
+
+        const text = object.title || DEFAULT_ALARM_TEXT;
+        if (action === ACTION_EMAIL) {
+            properties.push(createProperty(PROP_SUMMARY, escapeText(text)));
+            properties.push(
+                createProperty(
+                    PROP_DESCRIPTION,
+                    escapeText(object.description || text),
+                ),
+            );
+        } else {
+            properties.push(createProperty(PROP_DESCRIPTION, escapeText(text)));
+        }
+
+        if (alert.acknowledged) {
+            properties.push(
+                createProperty(
+                    PROP_ACKNOWLEDGED,
+                    formatUtcDateTime(alert.acknowledged),
+                ),
+            );
+        }
+        for (const [relatedId, relation] of Object.entries(
+            alert.relatedTo ?? {},
+        )) {
+            properties.push(
+                createProperty(
+                    PROP_RELATED_TO,
+                    escapeText(relatedId),
+                    relationParameters(relation),
+                ),
+            );
+        }
+        result.push(alarm);
+    }
+    return result;
+}
+
+/**
+ * Read VALARM components into JSCalendar alerts.
+ * @param component VEVENT or VTODO component.
+ * @return Alerts keyed by id, or undefined when there are none.
+ */
+export function readAlerts(
+    component: ICalComponent,
+): Record<Id, Alert> | undefined {
+    const alarms = component.components.filter(
+        (child) => child.name === COMPONENT_VALARM,
+    );
+    if (alarms.length === 0) return undefined;
+
+    const sources = alarms.map((alarm, index) => {
+        const uid = findProperty(alarm, PROP_UID);
+        return uid ? unescapeText(uid.value) : `${index + 1}`;
+    });
+    const taken = new Set<Id>();
+    const ids = new Map<string, Id>();
+    for (const source of sources) {
+        ids.set(source, deriveId(source, taken, FALLBACK_ALERT_ID));
+    }
+
+    const alerts: Record<Id, Alert> = {};
+    alarms.forEach((alarm, index) => {
+        const source = sources[index] ?? "";
+        const id = ids.get(source) ?? FALLBACK_ALERT_ID;
+        const alert: Alert = {
+            "@type": TYPE_ALERT,
+            trigger: readTrigger(alarm),
+        };
+        const action = findProperty(alarm, PROP_ACTION);
+        if (action) alert.action = action.value.toLowerCase();
+        const acknowledged = findProperty(alarm, PROP_ACKNOWLEDGED);
+        if (acknowledged) {
+            alert.acknowledged = parseUtcDateTime(acknowledged.value);
+        }
+        const relatedTo: Record<string, Relation> = {};
+        for (const property of findProperties(alarm, PROP_RELATED_TO)) {
+            const related = unescapeText(property.value);
+            relatedTo[ids.get(related) ?? related] = readRelation(property);
+        }
+        if (Object.keys(relatedTo).length > 0) alert.relatedTo = relatedTo;
+        alerts[id] = applyAlertDefaults(alert);
+    });
+    return alerts;
+}
+
+/**
+ * Build the TRIGGER property for an alert trigger.
+ * @param trigger Alert trigger.
+ * @return TRIGGER property, or null for unknown trigger types.
+ */
+function buildTrigger(trigger: Trigger): ICalProperty | null {
+    if (trigger["@type"] === TRIGGER_ABSOLUTE && "when" in trigger) {
+        const when = trigger.when;
+        if (typeof when !== "string") return null;
+        return createProperty(PROP_TRIGGER, formatUtcDateTime(when), {
+            [PARAM_VALUE]: VALUE_DATE_TIME,
+        });
+    }
+    if (trigger["@type"] === TRIGGER_OFFSET && "offset" in trigger) {
+        const offset = trigger.offset;
+        if (typeof offset !== "string") return null;
+        const parameters: ICalParameters =
+            trigger.relativeTo === RELATIVE_TO_END
+                ? { [PARAM_RELATED]: RELATED_END }
+                : {};
+        return createProperty(PROP_TRIGGER, offset, parameters);
+    }
+    return null;
+}
+
+/**
+ * Read the TRIGGER property of a VALARM.
+ * @param alarm VALARM component.
+ * @return OffsetTrigger or AbsoluteTrigger.
+ */
+function readTrigger(alarm: ICalComponent): Trigger {
+    const property = findProperty(alarm, PROP_TRIGGER);
+    if (!property) {
+        throw new ICalParseError("VALARM is missing TRIGGER");
+    }
+    if (
+        getParameter(property, PARAM_VALUE)?.toUpperCase() === VALUE_DATE_TIME
+    ) {
+        return {
+            "@type": TRIGGER_ABSOLUTE,
+            when: parseUtcDateTime(property.value),
+        };
+    }
+    const offset = property.value.trim();
+    const trigger: Trigger = {
+        "@type": TRIGGER_OFFSET,
+        offset: offset.startsWith(POSITIVE_SIGN) ? offset.slice(1) : offset,
+    };
+    if (getParameter(property, PARAM_RELATED)?.toUpperCase() === RELATED_END) {
+        trigger.relativeTo = RELATIVE_TO_END;
+    }
+    return trigger;
+}
+
+/**
+ * Build RELATED-TO parameters for an alert relation.
+ * @param relation Relation to the referenced alert.
+ * @return RELTYPE parameters; parent relations mark snoozed alarms.
+ */
+function relationParameters(relation: Relation): ICalParameters {
+    const types = Object.keys(relation.relation ?? {});
+    if (types.length === 0) return {};
+    return {
+        [PARAM_RELTYPE]: types.map((type) =>
+            type === RELATION_PARENT ? RELTYPE_SNOOZE : type.toUpperCase(),
+        ),
+    };
+}
+
+/**
+ * Read a RELATED-TO property of a VALARM as a relation.
+ * @param property RELATED-TO property.
+ * @return Relation; SNOOZE maps back to the parent relation.
+ */
+function readRelation(property: ICalProperty): Relation {
+    const relType = getParameter(property, PARAM_RELTYPE)?.toUpperCase();
+    const type =
+        !relType || relType === RELTYPE_SNOOZE
+            ? RELATION_PARENT
+            : relType.toLowerCase();
+    return { "@type": TYPE_RELATION, relation: { [type]: true } };
+}
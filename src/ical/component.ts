@@ -0,0 +1,126 @@
+import type { ICalComponent, ICalParameters, ICalProperty } from "./types.js";
+import { PROP_BEGIN, PROP_END } from "./constants.js";
+import {
+    formatContentLine,
+    parseContentLine,
+    unfoldLines,
+} from "./content-line.js";
+import { ICalParseError } from "./error.js";
+
+/**
+ * Create an empty iCalendar component.
+ * @param name Component name.
+ * @return Component without properties or children.
+ */
+export function createComponent(name: string): ICalComponent {
+    return { name, properties: [], components: [] };
+}
+
+/**
+ * Create an iCalendar property.
+ * @param name Property name.
+ * @param value Encoded property value.
+ * @param parameters Property parameters.
+ * @return iCalendar property.
+ */
+export function createProperty(
+    name: string,
+    value: string,
+    parameters: ICalParameters = {},
+): ICalProperty {
+    return { name, parameters, value };
+}
+
+/**
+ * Find the first property with a given name.
+ * @param component Component to search.
+ * @param name Property name.
+ * @return Matching property or undefined.
+ */
+export function findProperty(
+    component: ICalComponent,
+    name: string,
+): ICalProperty | undefined {
+    return component.properties.find((property) => property.name === name);
+}
+
+/**
+ * Find all properties with a given name.
+ * @param component Component to search.
+ * @param name Property name.
+ * @return Matching properties in document order.
+ */
+export function findProperties(
+    component: ICalComponent,
+    name: string,
+): ICalProperty[] {
+    return component.properties.filter((property) => property.name === name);
+}
+
+/**
+ * Serialize a component tree into unfolded content lines.
+ * @param component Component to serialize.
+ * @return Content lines including BEGIN/END.
+ */
+export function serializeComponent(component: ICalComponent): string[] {
+    const lines: string[] = [`${PROP_BEGIN}:${component.name}`];
+    for (const property of component.properties) {
+        lines.push(formatContentLine(property));
+    }
+    for (const child of component.components) {
+        lines.push(...serializeComponent(child));
+    }
+    lines.push(`${PROP_END}:${component.name}`);
+    return lines;
+}
+
+/**
+ * Parse iCalendar text into top-level components.
+ * @param text iCalendar text.
+ * @return Top-level components (usually VCALENDAR).
+ */
+export function parseComponents(text: string): ICalComponent[] {
+    const roots: ICalComponent[] = [];
+    const stack: ICalComponent[] = [];
+    const lines = unfoldLines(text);
+
+    lines.forEach((line, index) => {
+        const lineNumber = index + 1;
+        const property = parseContentLine(line, lineNumber);
+        if (property.name === PROP_BEGIN) {
+            const component = createComponent(property.value.toUpperCase());
+            const parent = stack[stack.length - 1];
+            if (parent) {
+                parent.components.push(component);
+            } else {
+                roots.push(component);
+            }
+            stack.push(component);
+            return;
+        }
+        if (property.name === PROP_END) {
+            const current = stack.pop();
+            if (!current || current.name !== property.value.toUpperCase()) {
+                throw new ICalParseError(
+                    `unexpected END:${property.value}`,
+                    lineNumber,
+                );
+            }
+            return;
+        }
+        const current = stack[stack.length - 1];
+        if (!current) {
+            throw new ICalParseError(
+                `property ${property.name} outside of a component`,
+                lineNumber,
+            );
+        }
+        current.properties.push(property);
+    });
+
+    const open = stack[stack.length - 1];
+    if (open) {
+        throw new ICalParseError(`missing END:${open.name}`);
+    }
+    return roots;
+}
@@ -0,0 +1,138 @@
+export const TYPE_EVENT = "Event";
+export const TYPE_GROUP = "Group";
+export const TYPE_TASK = "Task";
+export const DEFAULT_PRODID = "-//craftguild//EN";
+export const ICAL_VERSION = "2.0";
+export const CONTENT_LINE_OCTETS = 75;
+export const CONTINUATION_PREFIX = " ";
+export const LINE_SEPARATOR = "\r\n";
+
+export const METHOD_REQUEST = "REQUEST";
+export const METHOD_REPLY = "REPLY";
+export const METHOD_CANCEL = "CANCEL";
+export const METHOD_REFRESH = "REFRESH";
+export const METHOD_COUNTER = "COUNTER";
+export const METHOD_DECLINECOUNTER = "DECLINECOUNTER";
+
+export const COMPONENT_VCALENDAR = "VCALENDAR";
+export const COMPONENT_VEVENT = "VEVENT";
+export const COMPONENT_VTODO = "VTODO";
+export const COMPONENT_VALARM = "VALARM";
+export const COMPONENT_VTIMEZONE = "VTIMEZONE";
+export const COMPONENT_STANDARD = "STANDARD";
+export const COMPONENT_DAYLIGHT = "DAYLIGHT";
+
+export const PROP_BEGIN = "BEGIN";
+export const PROP_END = "END";
+export const PROP_VERSION = "VERSION";
+export const PROP_PRODID = "PRODID";
+export const PROP_METHOD = "METHOD";
+export const PROP_UID = "UID";
+export const PROP_DTSTAMP = "DTSTAMP";
+export const PROP_CREATED = "CREATED";
+export const PROP_LAST_MODIFIED = "LAST-MODIFIED";
+export const PROP_SEQUENCE = "SEQUENCE";
+export const PROP_SUMMARY = "SUMMARY";
+export const PROP_DESCRIPTION = "DESCRIPTION";
+export const PROP_DTSTART = "DTSTART";
+export const PROP_DTEND = "DTEND";
+export const PROP_DUE = "DUE";
+export const PROP_DURATION = "DURATION";
+export const PROP_STATUS = "STATUS";
+export const PROP_PERCENT_COMPLETE = "PERCENT-COMPLETE";
+export const PROP_RRULE = "RRULE";
+export const PROP_EXRULE = "EXRULE";
+export const PROP_RDATE = "RDATE";
+export const PROP_EXDATE = "EXDATE";
+export const PROP_RECURRENCE_ID = "RECURRENCE-ID";
+export const PROP_ORGANIZER = "ORGANIZER";
+export const PROP_ATTENDEE = "ATTENDEE";
+export const PROP_TRIGGER = "TRIGGER";
+export const PROP_ACTION = "ACTION";
+export const PROP_ACKNOWLEDGED = "ACKNOWLEDGED";
+export const PROP_RELATED_TO = "RELATED-TO";
+export const PROP_TZID = "TZID";
+export const PROP_TZURL = "TZURL";
+export const PROP_TZUNTIL = "TZUNTIL";
+export const PROP_TZNAME = "TZNAME";
+export const PROP_TZOFFSETFROM = "TZOFFSETFROM";
+export const PROP_TZOFFSETTO = "TZOFFSETTO";
+export const PROP_COMMENT = "COMMENT";
+export const PROP_LOCATION = "LOCATION";
+export const PROP_GEO = "GEO";
+export const PROP_CONFERENCE = "CONFERENCE";
+export const PROP_ATTACH = "ATTACH";
+export const PROP_URL = "URL";
+export const PROP_IMAGE = "IMAGE";
+export const PROP_CATEGORIES = "CATEGORIES";
+export const PROP_CLASS = "CLASS";
+export const PROP_PRIORITY = "PRIORITY";
+export const PROP_TRANSP = "TRANSP";
+export const PROP_COLOR = "COLOR";
+export const PROP_CALSCALE = "CALSCALE";
+export const PROP_COMPLETED = "COMPLETED";
+export const PROP_RESOURCES = "RESOURCES";
+export const PROP_CONTACT = "CONTACT";
+export const PROP_REQUEST_STATUS = "REQUEST-STATUS";
+export const PROP_FREEBUSY = "FREEBUSY";
+export const PROP_X_JSCALENDAR = "X-JSCALENDAR";
+export const PROP_X_JSCALENDAR_GROUP = "X-JSCALENDAR-GROUP";
+export const PROP_X_JSCALENDAR_GROUP_UID = "X-JSCALENDAR-GROUP-UID";
+
+export const PARAM_TZID = "TZID";
+export const PARAM_VALUE = "VALUE";
+export const PARAM_CN = "CN";
+export const PARAM_CUTYPE = "CUTYPE";
+export const PARAM_ROLE = "ROLE";
+export const PARAM_PARTSTAT = "PARTSTAT";
+export const PARAM_RSVP = "RSVP";
+export const PARAM_DELEGATED_TO = "DELEGATED-TO";
+export const PARAM_DELEGATED_FROM = "DELEGATED-FROM";
+export const PARAM_MEMBER = "MEMBER";
+export const PARAM_SENT_BY = "SENT-BY";
+export const PARAM_EMAIL = "EMAIL";
+export const PARAM_LANGUAGE = "LANGUAGE";
+export const PARAM_SCHEDULE_AGENT = "SCHEDULE-AGENT";
+export const PARAM_SCHEDULE_FORCE_SEND = "SCHEDULE-FORCE-SEND";
+export const PARAM_SCHEDULE_STATUS = "SCHEDULE-STATUS";
+export const PARAM_RELATED = "RELATED";
+export const PARAM_RELTYPE = "RELTYPE";
+export const PARAM_FMTTYPE = "FMTTYPE";
+export const PARAM_SIZE = "SIZE";
+export const PARAM_LABEL = "LABEL";
+export const PARAM_FEATURE = "FEATURE";
+export const PARAM_DISPLAY = "DISPLAY";
+
+export const VALUE_DATE = "DATE";
+export const VALUE_PERIOD = "PERIOD";
+export const VALUE_TRUE = "TRUE";
+export const VALUE_DATE_TIME = "DATE-TIME";
+export const VALUE_URI = "URI";
+export const VALUE_BINARY = "BINARY";
+export const VALUE_TEXT = "TEXT";
+export const VALUE_INTEGER = "INTEGER";
+export const VALUE_FLOAT = "FLOAT";
+export const VALUE_BOOLEAN = "BOOLEAN";
+export const VALUE_DURATION = "DURATION";
+export const VALUE_RECUR = "RECUR";
+export const VALUE_CAL_ADDRESS = "CAL-ADDRESS";
+export const VALUE_UTC_OFFSET = "UTC-OFFSET";
+export const VALUE_UNKNOWN = "UNKNOWN";
+export const RELATED_END = "END";
+export const RELTYPE_SNOOZE = "SNOOZE";
+export const RELTYPE_PARENT = "PARENT";
+export const CLASS_PUBLIC = "PUBLIC";
+export const CLASS_PRIVATE = "PRIVATE";
+export const CLASS_CONFIDENTIAL = "CONFIDENTIAL";
+export const TRANSP_TRANSPARENT = "TRANSPARENT";
+
+export const ROLE_CHAIR = "CHAIR";
+export const ROLE_REQUIRED = "REQ-PARTICIPANT";
+export const ROLE_OPTIONAL = "OPT-PARTICIPANT";
+export const ROLE_NON_PARTICIPANT = "NON-PARTICIPANT";
+export const FORCE_SEND_REQUEST = "REQUEST";
+export const FORCE_SEND_REPLY = "REPLY";
+export const MAILTO_PREFIX = "mailto:";
+
+export const TIME_ZONE_UTC = "Etc/UTC";
+export const START_OF_DAY = "T00:00:00";
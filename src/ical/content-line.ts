@@ -0,0 +1,246 @@
+import type { ICalParameters, ICalProperty } from "./types.js";
+import { CONTENT_LINE_OCTETS, CONTINUATION_PREFIX } from "./constants.js";
+import { ICalParseError } from "./error.js";
+
+const textEncoder = new TextEncoder();
+const QUOTE = '"';
+const PARAM_SEPARATOR = ";";
+const VALUE_SEPARATOR = ":";
+const LIST_SEPARATOR = ",";
+const PARAM_ASSIGN = "=";
+
+/**
+ * Escape text for iCalendar content lines.
+ * @param value Raw text.
+ * @return Escaped text.
+ */
+export function escapeText(value: string): string {
+    return value
+        .replace(/\\/g, "\\\\")
+        .replace(/\n/g, "\\n")
+        .replace(/;/g, "\\;")
+        .replace(/,/g, "\\,");
+}
+
+/**
+ * Unescape an iCalendar TEXT value.
+ * @param value Escaped text.
+ * @return Raw text.
+ */
+export function unescapeText(value: string): string {
+    return value.replace(/\\([\\;,nN])/g, (_match, character: string) =>
+        character === "n" || character === "N" ? "\n" : character,
+    );
+}
+
+/**
+ * Split a multi-valued property value on unescaped commas.
+ * @param value Raw property value.
+ * @return Value list with escapes preserved.
+ */
+export function splitValueList(value: string): string[] {
+    const result: string[] = [];
+    let current = "";
+    for (let i = 0; i < value.length; i += 1) {
+        const character = value[i] ?? "";
+        if (character === "\\" && i + 1 < value.length) {
+            current += `${character}${value[i + 1] ?? ""}`;
+            i += 1;
+            continue;
+        }
+        if (character === LIST_SEPARATOR) {
+            result.push(current);
+            current = "";
+            continue;
+        }
+        current += character;
+    }
+    result.push(current);
+    return result;
+}
+
+/**
+ * Fold iCalendar lines to 75 octets per RFC.
+ * @param lines Lines to fold.
+ * @return Folded lines.
+ */
+export function foldLines(lines: string[]): string[] {
+    const result: string[] = [];
+    for (const line of lines) {
+        result.push(...foldLine(line));
+    }
+    return result;
+}
+
+/**
+ * Fold one iCalendar line to 75 octets without splitting code points.
+ * @param line Line to fold.
+ * @return Folded physical lines.
+ */
+function foldLine(line: string): string[] {
+    const result: string[] = [];
+    let current = "";
+    let limit = CONTENT_LINE_OCTETS;
+
+    for (const character of line) {
+        const next = `${current}${character}`;
+        if (current && getOctetLength(next) > limit) {
+            result.push(current);
+            current = `${CONTINUATION_PREFIX}${character}`;
+            limit = CONTENT_LINE_OCTETS;
+        } else {
+            current = next;
+        }
+    }
+
+    result.push(current);
+    return result;
+}
+
+/**
+ * Count UTF-8 octets in a string.
+ * @param value String to measure.
+ * @return UTF-8 octet length.
+ */
+function getOctetLength(value: string): number {
+    return textEncoder.encode(value).length;
+}
+
+/**
+ * Unfold physical lines into logical content lines.
+ * @param text iCalendar text.
+ * @return Logical content lines without empty lines.
+ */
+export function unfoldLines(text: string): string[] {
+    const result: string[] = [];
+    for (const line of text.split(/\r\n|\n|\r/)) {
+        if (/^[ \t]/.test(line) && result.length > 0) {
+            result[result.length - 1] += line.slice(1);
+            continue;
+        }
+        if (line.length > 0) result.push(line);
+    }
+    return result;
+}
+
+/**
+ * Format a property as one unfolded content line.
+ * @param property iCalendar property.
+ * @return Content line text.
+ */
+export function formatContentLine(property: ICalProperty): string {
+    let line = property.name;
+    for (const [name, value] of Object.entries(property.parameters)) {
+        const values = Array.isArray(value) ? value : [value];
+        line += `${PARAM_SEPARATOR}${name}${PARAM_ASSIGN}${values
+            .map(formatParameterValue)
+            .join(LIST_SEPARATOR)}`;
+    }
+    return `${line}${VALUE_SEPARATOR}${property.value}`;
+}
+
+/**
+ * Quote a parameter value when it contains delimiter characters.
+ * @param value Raw parameter value.
+ * @return Parameter value safe for a content line.
+ */
+function formatParameterValue(value: string): string {
+    const sanitized = value.replace(/"/g, "'");
+    if (/[;:,]/.test(sanitized)) return `${QUOTE}${sanitized}${QUOTE}`;
+    return sanitized;
+}
+
+/**
+ * Parse one unfolded content line into a property.
+ * @param line Content line text.
+ * @param lineNumber 1-based line number for error messages.
+ * @return Parsed property with upper-cased names.
+ */
+export function parseContentLine(
+    line: string,
+    lineNumber?: number,
+): ICalProperty {
+    const nameMatch = /^[A-Za-z0-9-]+/.exec(line);
+    if (!nameMatch) {
+        throw new ICalParseError("invalid property name", lineNumber);
+    }
+    const name = nameMatch[0].toUpperCase();
+    const parameters: ICalParameters = {};
+    let index = name.length;
+
+    while (line[index] === PARAM_SEPARATOR) {
+        index += 1;
+        const assign = line.indexOf(PARAM_ASSIGN, index);
+        if (assign < 0) {
+            throw new ICalParseError("invalid parameter", lineNumber);
+        }
+        const paramName = line.slice(index, assign).toUpperCase();
+        index = assign + 1;
+        const values: string[] = [];
+        for (;;) {
+            if (line[index] === QUOTE) {
+                const close = line.indexOf(QUOTE, index + 1);
+                if (close < 0) {
+                    throw new ICalParseError(
+                        "unterminated quoted parameter",
+                        lineNumber,
+                    );
+                }
+                values.push(line.slice(index + 1, close));
+                index = close + 1;
+            } else {
+                let end = index;
+                while (
+                    end < line.length &&
+                    line[end] !== LIST_SEPARATOR &&
+                    line[end] !== PARAM_SEPARATOR &&
+                    line[end] !== VALUE_SEPARATOR
+                ) {
+                    end += 1;
+                }
+                values.push(line.slice(index, end));
+                index = end;
+            }
+            if (line[index] !== LIST_SEPARATOR) break;
+            index += 1;
+        }
+        const [first] = values;
+        parameters[paramName] =
+            values.length === 1 && first !== undefined ? first : values;
+    }
+
+    if (line[index] !== VALUE_SEPARATOR) {
+        throw new ICalParseError(`missing value for ${name}`, lineNumber);
+    }
+    return { name, parameters, value: line.slice(index + 1) };
+}
+
+/**
+ * Read a single-valued parameter from a property.
+ * @param property iCalendar property.
+ * @param name Parameter name.
+ * @return First parameter value or undefined.
+ */
+export function getParameter(
+    property: ICalProperty,
+    name: string,
+): string | undefined {
+    const value = property.parameters[name];
+    if (Array.isArray(value)) return value[0];
+    return value;
+}
+
+/**
+ * Read a multi-valued parameter from a property.
+ * @param property iCalendar property.
+ * @param name Parameter name.
+ * @return Parameter values, empty when absent.
+ */
+export function getParameterValues(
+    property: ICalProperty,
+    name: string,
+): string[] {
+    const value = property.parameters[name];
+    if (value === undefined) return [];
+    return Array.isArray(value) ? value : [value];
+}
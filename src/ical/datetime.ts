@@ -0,0 +1,122 @@
+import type { LocalDateTime, UTCDateTime } from "../types.js";
+import type { ICalParameters, ICalProperty } from "./types.js";
+import { normalizeUtcDateTime } from "../utils.js";
+import { PARAM_TZID, PARAM_VALUE, VALUE_DATE } from "./constants.js";
+import { createProperty } from "./component.js";
+import { ICalParseError } from "./error.js";
+
+const DATE_LENGTH = 8;
+const VALUE_LIST_SEPARATOR = ",";
+
+export type ICalDateTimeValue = {
+    value: LocalDateTime;
+    utc: boolean;
+    dateOnly: boolean;
+};
+
+/**
+ * Format a UTCDateTime for iCalendar.
+ * @param value UTCDateTime string.
+ * @return iCalendar-formatted UTCDateTime.
+ */
+export function formatUtcDateTime(value: string): string {
+    const normalized = normalizeUtcDateTime(value);
+    return normalized
+        .replace(/[-:]/g, "")
+        .replace(/\.\d+Z$/, "Z")
+        .replace(/Z$/, "Z");
+}
+
+/**
+ * Format a LocalDateTime for iCalendar.
+ * @param value LocalDateTime string.
+ * @return iCalendar-formatted LocalDateTime.
+ */
+export function formatLocalDateTime(value: string): string {
+    return value
+        .replace(/[-:]/g, "")
+        .replace(/\.\d+$/, "")
+        .replace(/Z$/, "");
+}
+
+/**
+ * Format the date part of a LocalDateTime as an iCalendar DATE.
+ * @param value LocalDateTime string.
+ * @return iCalendar-formatted DATE.
+ */
+export function formatLocalDate(value: string): string {
+    return formatLocalDateTime(value).slice(0, DATE_LENGTH);
+}
+
+/**
+ * Parse an iCalendar DATE or DATE-TIME value.
+ * @param value iCalendar value text.
+ * @return LocalDateTime plus UTC and date-only flags.
+ */
+export function parseDateTimeValue(value: string): ICalDateTimeValue {
+    const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(
+        value.trim(),
+    );
+    if (!match) {
+        throw new ICalParseError(`invalid DATE-TIME value: ${value}`);
+    }
+    const date = `${match[1]}-${match[2]}-${match[3]}`;
+    if (match[4] === undefined) {
+        return { value: `${date}T00:00:00`, utc: false, dateOnly: true };
+    }
+    return {
+        value: `${date}T${match[4]}:${match[5]}:${match[6]}`,
+        utc: match[7] !== undefined,
+        dateOnly: false,
+    };
+}
+
+/**
+ * Parse an iCalendar DATE-TIME value as a UTCDateTime.
+ * @param value iCalendar value text.
+ * @return UTCDateTime string.
+ */
+export function parseUtcDateTime(value: string): UTCDateTime {
+    const parsed = parseDateTimeValue(value);
+    return `${parsed.value}Z`;
+}
+
+/**
+ * Build TZID parameters for a zoned date-time property.
+ * @param timeZone Time zone of the owning object.
+ * @return Parameters with TZID, or empty for floating values.
+ */
+export function zoneParameters(
+    timeZone: string | null | undefined,
+): ICalParameters {
+    return timeZone ? { [PARAM_TZID]: timeZone } : {};
+}
+
+/**
+ * Build a property holding LocalDateTimes of an object.
+ * @param name Property name such as DTSTART or EXDATE.
+ * @param values LocalDateTime values.
+ * @param timeZone Time zone of the owning object.
+ * @param dateOnly Whether the object is shown without time.
+ * @return VALUE=DATE property for all-day objects, otherwise a DATE-TIME
+ * property with TZID when the object is zoned.
+ */
+export function localDateTimeProperty(
+    name: string,
+    values: string[],
+    timeZone: string | null | undefined,
+    dateOnly: boolean | undefined,
+): ICalProperty {
+    if (dateOnly) {
+        return createProperty(
+            name,
+            values.map(formatLocalDate).join(VALUE_LIST_SEPARATOR),
+            { [PARAM_VALUE]: VALUE_DATE },
+        );
+    }
+    return createProperty(
+        name,
+        values.map(formatLocalDateTime).join(VALUE_LIST_SEPARATOR),
+        zoneParameters(timeZone),
+    );
+}
@@ -0,0 +1,19 @@
+const ICAL_ERROR_NAME = "ICalParseError";
+
+/**
+ * Error thrown when iCalendar input cannot be parsed.
+ */
+export class ICalParseError extends Error {
+    line?: number;
+
+    /**
+     * Create a new ICalParseError.
+     * @param message Error message.
+     * @param line Optional 1-based unfolded line number.
+     */
+    constructor(message: string, line?: number) {
+        super(line === undefined ? message : `line ${line}: ${message}`);
+        this.name = ICAL_ERROR_NAME;
+        this.line = line;
+    }
+}
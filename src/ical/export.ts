@@ -0,0 +1,357 @@
+import type { Event, Group, JSCalendarObject, Task } from "../types.js";
+import type { ICalComponent, ICalOptions } from "./types.js";
+import {
+    COMPONENT_VCALENDAR,
+    COMPONENT_VEVENT,
+    COMPONENT_VTODO,
+    DEFAULT_PRODID,
+    ICAL_VERSION,
+    LINE_SEPARATOR,
+    PROP_CREATED,
+    PROP_DESCRIPTION,
+    PROP_DTSTAMP,
+    PROP_DTSTART,
+    PROP_DUE,
+    PROP_DURATION,
+    PROP_LAST_MODIFIED,
+    PROP_METHOD,
+    PROP_PERCENT_COMPLETE,
+    PROP_PRODID,
+    PROP_RECURRENCE_ID,
+    PROP_SEQUENCE,
+    PROP_STATUS,
+    PROP_SUMMARY,
+    PROP_UID,
+    PROP_VERSION,
+    PROP_X_JSCALENDAR,
+    PROP_X_JSCALENDAR_GROUP,
+    PROP_X_JSCALENDAR_GROUP_UID,
+    TYPE_EVENT,
+    TYPE_GROUP,
+    TYPE_TASK,
+} from "./constants.js";
+import {
+    createComponent,
+    createProperty,
+    serializeComponent,
+} from "./component.js";
+import { escapeText, foldLines } from "./content-line.js";
+import { formatUtcDateTime, localDateTimeProperty } from "./datetime.js";
+import { buildAlarmComponents } from "./alarms.js";
+import { buildParticipantProperties } from "./participants.js";
+import { buildDescriptiveProperties } from "./properties.js";
+import {
+    buildOverrideInstances,
+    buildRecurrenceProperties,
+} from "./recurrence.js";
+import { buildTimeZoneComponents } from "./timezone.js";
+
+/**
+ * Convert JSCalendar objects into an iCalendar string.
+ * @param objects JSCalendar objects to export.
+ * @param options Export options.
+ * @return iCalendar text.
+ */
+export function toICal(
+    objects: JSCalendarObject[],
+    options: ICalOptions = {},
+): string {
+    return serializeCalendar(buildCalendar(objects, options));
+}
+
+/**
+ * Serialize a VCALENDAR component tree as folded iCalendar text.
+ * @param calendar VCALENDAR component.
+ * @return iCalendar text.
+ */
+export function serializeCalendar(calendar: ICalComponent): string {
+    return foldLines(serializeComponent(calendar)).join(LINE_SEPARATOR);
+}
+
+/**
+ * Build a VCALENDAR component tree from JSCalendar objects.
+ * @param objects JSCalendar objects to export.
+ * @param options Export options.
+ * @return VCALENDAR component.
+ */
+export function buildCalendar(
+    objects: JSCalendarObject[],
+    options: ICalOptions = {},
+): ICalComponent {
+    const calendar = createComponent(COMPONENT_VCALENDAR);
+    const includeX = options.includeXJSCalendar !== false;
+
+    calendar.properties.push(createProperty(PROP_VERSION, ICAL_VERSION));
+    calendar.properties.push(
+        createProperty(PROP_PRODID, options.prodId ?? DEFAULT_PRODID),
+    );
+
+    const method = options.method ?? findMethod(objects);
+    if (method) {
+        calendar.properties.push(
+            createProperty(PROP_METHOD, method.toUpperCase()),
+        );
+    }
+
+    for (const object of objects) {
+        if (object["@type"] === TYPE_GROUP) {
+            const group = object;
+            if (includeX) {
+                calendar.properties.push(
+                    createProperty(
+                        PROP_X_JSCALENDAR_GROUP,
+                        escapeText(JSON.stringify(stripEntries(group))),
+                    ),
+                );
+            }
+            for (const entry of group.entries) {
+                for (const component of buildComponents(entry, includeX)) {
+                    if (includeX) {
+                        component.properties.push(
+                            createProperty(
+                                PROP_X_JSCALENDAR_GROUP_UID,
+                                escapeText(group.uid),
+                            ),
+                        );
+                    }
+                    calendar.components.push(component);
+                }
+            }
+        } else {
+            calendar.components.push(...buildComponents(object, includeX));
+        }
+    }
+
+    calendar.components.unshift(...buildTimeZoneComponents(calendar, objects));
+    return calendar;
+}
+
+/**
+ * Find the first METHOD value from objects.
+ * @param objects JSCalendar objects.
+ * @return METHOD value or undefined.
+ */
+function findMethod(objects: JSCalendarObject[]): string | undefined {
+    for (const object of objects) {
+        if (object.method) return object.method;
+    }
+    return undefined;
+}
+
+/**
+ * Build iCalendar components for a JSCalendar object and its overrides.
+ * @param object JSCalendar object.
+ * @param includeX Whether to include X-JSCALENDAR on the master.
+ * @return Master component followed by RECURRENCE-ID components, or
+ * nothing for unsupported types.
+ */
+function buildComponents(
+    object: JSCalendarObject,
+    includeX: boolean,
+): ICalComponent[] {
+    if (object["@type"] !== TYPE_EVENT && object["@type"] !== TYPE_TASK) {
+        return [];
+    }
+    const components = [buildComponent(object, includeX)];
+    for (const instance of buildOverrideInstances(object)) {
+        components.push(buildComponent(instance, false));
+    }
+    return components;
+}
+
+/**
+ * Build a VEVENT or VTODO component from an Event or Task.
+ * @param object Event or Task.
+ * @param includeX Whether to include X-JSCALENDAR.
+ * @return iCalendar component.
+ */
+function buildComponent(
+    object: Event | Task,
+    includeX: boolean,
+): ICalComponent {
+    if (object["@type"] === TYPE_EVENT) return buildEvent(object, includeX);
+    return buildTask(object, includeX);
+}
+
+/**
+ * Build a VEVENT component.
+ * @param event Event object.
+ * @param includeX Whether to include X-JSCALENDAR.
+ * @return VEVENT component.
+ */
+function buildEvent(event: Event, includeX: boolean): ICalComponent {
+    const component = createComponent(COMPONENT_VEVENT);
+    const properties = component.properties;
+    properties.push(createProperty(PROP_UID, escapeText(event.uid)));
+    properties.push(
+        createProperty(PROP_DTSTAMP, formatUtcDateTime(event.updated)),
+    );
+    if (event.created) {
+        properties.push(
+            createProperty(PROP_CREATED, formatUtcDateTime(event.created)),
+        );
+    }
+    properties.push(
+        createProperty(PROP_LAST_MODIFIED, formatUtcDateTime(event.updated)),
+    );
+    if (event.sequence !== undefined) {
+        properties.push(createProperty(PROP_SEQUENCE, `${event.sequence}`));
+    }
+    if (event.title) {
+        properties.push(createProperty(PROP_SUMMARY, escapeText(event.title)));
+    }
+    if (event.description) {
+        properties.push(
+            createProperty(PROP_DESCRIPTION, escapeText(event.description)),
+        );
+    }
+
+    properties.push(
+        localDateTimeProperty(
+            PROP_DTSTART,
+            [event.start],
+            event.timeZone,
+            event.showWithoutTime,
+        ),
+    );
+    appendRecurrenceId(component, event);
+
+    if (event.duration) {
+        properties.push(createProperty(PROP_DURATION, event.duration));
+    }
+    if (event.status) {
+        properties.push(
+            createProperty(PROP_STATUS, event.status.toUpperCase()),
+        );
+    }
+    properties.push(...buildDescriptiveProperties(event));
+    properties.push(...buildParticipantProperties(event));
+
+    properties.push(...buildRecurrenceProperties(event));
+    component.components.push(...buildAlarmComponents(event));
+
+    if (includeX) {
+        properties.push(
+            createProperty(
+                PROP_X_JSCALENDAR,
+                escapeText(JSON.stringify(event)),
+            ),
+        );
+    }
+
+    return component;
+}
+
+/**
+ * Build a VTODO component.
+ * @param task Task object.
+ * @param includeX Whether to include X-JSCALENDAR.
+ * @return VTODO component.
+ */
+function buildTask(task: Task, includeX: boolean): ICalComponent {
+    const component = createComponent(COMPONENT_VTODO);
+    const properties = component.properties;
+    properties.push(createProperty(PROP_UID, escapeText(task.uid)));
+    properties.push(
+        createProperty(PROP_DTSTAMP, formatUtcDateTime(task.updated)),
+    );
+    if (task.created) {
+        properties.push(
+            createProperty(PROP_CREATED, formatUtcDateTime(task.created)),
+        );
+    }
+    properties.push(
+        createProperty(PROP_LAST_MODIFIED, formatUtcDateTime(task.updated)),
+    );
+    if (task.sequence !== undefined) {
+        properties.push(createProperty(PROP_SEQUENCE, `${task.sequence}`));
+    }
+    if (task.title) {
+        properties.push(createProperty(PROP_SUMMARY, escapeText(task.title)));
+    }
+    if (task.description) {
+        properties.push(
+            createProperty(PROP_DESCRIPTION, escapeText(task.description)),
+        );
+    }
+
+    if (task.start) {
+        properties.push(
+            localDateTimeProperty(
+                PROP_DTSTART,
+                [task.start],
+                task.timeZone,
+                task.showWithoutTime,
+            ),
+        );
+    }
+
+    appendRecurrenceId(component, task);
+
+    if (task.due) {
+        properties.push(
+            localDateTimeProperty(
+                PROP_DUE,
+                [task.due],
+                task.timeZone,
+                task.showWithoutTime,
+            ),
+        );
+    }
+
+    if (task.percentComplete !== undefined) {
+        properties.push(
+            createProperty(PROP_PERCENT_COMPLETE, `${task.percentComplete}`),
+        );
+    }
+
+    if (task.progress) {
+        properties.push(
+            createProperty(PROP_STATUS, task.progress.toUpperCase()),
+        );
+    }
+    properties.push(...buildDescriptiveProperties(task));
+    properties.push(...buildParticipantProperties(task));
+
+    properties.push(...buildRecurrenceProperties(task));
+    component.components.push(...buildAlarmComponents(task));
+
+    if (includeX) {
+        properties.push(
+            createProperty(PROP_X_JSCALENDAR, escapeText(JSON.stringify(task))),
+        );
+    }
+
+    return component;
+}
+
+/**
+ * Append RECURRENCE-ID for objects that are recurrence instances.
+ * @param component Component to append to.
+ * @param object Event or Task.
+ * @return Nothing.
+ */
+function appendRecurrenceId(
+    component: ICalComponent,
+    object: Event | Task,
+): void {
+    if (!object.recurrenceId) return;
+    component.properties.push(
+        localDateTimeProperty(
+            PROP_RECURRENCE_ID,
+            [object.recurrenceId],
+            object.recurrenceIdTimeZone,
+            object.showWithoutTime,
+        ),
+    );
+}
+
+/**
+ * Strip group entries for X-JSCALENDAR-GROUP payload.
+ * @param group Group object.
+ * @return Group without entries.
+ */
+function stripEntries(group: Group): Omit<Group, "entries"> {
+    const { entries: _entries, ...rest } = group;
+    return rest;
+}
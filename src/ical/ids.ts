@@ -0,0 +1,23 @@
+import type { Id } from "../types.js";
+
+const ID_UNSAFE_CHARACTERS = /[^A-Za-z0-9_-]+/g;
+const ID_EDGE_DASHES = /^-+|-+$/g;
+
+/**
+ * Derive a JSCalendar Id from arbitrary iCalendar text.
+ * @param value Source text such as a UID or calendar address.
+ * @param taken Ids already in use; the result is added to it.
+ * @param fallback Id base used when no safe characters remain.
+ * @return Unique Id made of characters allowed by RFC 8984.
+ */
+export function deriveId(value: string, taken: Set<Id>, fallback: Id): Id {
+    const base =
+        value.replace(ID_UNSAFE_CHARACTERS, "-").replace(ID_EDGE_DASHES, "") ||
+        fallback;
+    let id = base;
+    for (let suffix = 2; taken.has(id); suffix += 1) {
+        id = `${base}-${suffix}`;
+    }
+    taken.add(id);
+    return id;
+}
@@ -0,0 +1,242 @@
+import type { Event, JSCalendarObject, Participant, Task } from "../types.js";
+import type { ICalParseOptions, IMipOptions, ITipMessage } from "./types.js";
+import { createId, createUid } from "../jscal/ids.js";
+import { TYPE_EVENT } from "./constants.js";
+import { ICalParseError } from "./error.js";
+import { fromICal } from "./import.js";
+import {
+    decodeMimeBody,
+    encodeBase64,
+    encodeHeaderValue,
+    parseMimeEntity,
+    parseMimeHeader,
+    splitMultipart,
+} from "./mime.js";
+
+const CRLF = "\r\n";
+const MIME_VERSION = "1.0";
+const MULTIPART_PREFIX = "multipart/";
+const TYPE_MIXED = "multipart/mixed";
+const TYPE_ALTERNATIVE = "multipart/alternative";
+const TYPE_TEXT_PLAIN = "text/plain";
+const TYPE_TEXT_CALENDAR = "text/calendar";
+const TYPE_APPLICATION_ICS = "application/ics";
+const CHARSET_UTF8 = "UTF-8";
+const ENCODING_BASE64 = "base64";
+const DEFAULT_ATTACHMENT_NAME = "invite.ics";
+const MESSAGE_ID_DOMAIN = "jscalendar";
+const BOUNDARY_PREFIX = "jscal-";
+const ALTERNATIVE_SUFFIX = ".alt";
+const ROLE_OWNER = "owner";
+const METHOD_TITLES: Record<string, string> = {
+    request: "Invitation",
+    reply: "Reply",
+    cancel: "Cancelled",
+    refresh: "Refresh request",
+    counter: "Counter proposal",
+    declinecounter: "Counter proposal declined",
+};
+
+/**
+ * Wrap an iTIP message into an iMIP (RFC 6047) email: a
+ * multipart/alternative with a text/plain summary and the text/calendar
+ * part, inside multipart/mixed with an .ics attachment when requested.
+ * @param message iTIP message.
+ * @param options Addresses, headers, and layout options.
+ * @return RFC 5322 message text with CRLF line breaks.
+ */
+export function toIMip(message: ITipMessage, options: IMipOptions): string {
+    const method = message.method.toUpperCase();
+    const boundary = options.boundary ?? `${BOUNDARY_PREFIX}${createId()}`;
+    const alternativeBoundary = `${boundary}${ALTERNATIVE_SUFFIX}`;
+    const text = options.text ?? summarize(message);
+
+    const alternative = multipart(TYPE_ALTERNATIVE, alternativeBoundary, [
+        bodyPart(
+            [`Content-Type: ${TYPE_TEXT_PLAIN}; charset=${CHARSET_UTF8}`],
+            text,
+        ),
+        bodyPart(
+            [
+                `Content-Type: ${TYPE_TEXT_CALENDAR}; method=${method}; charset=${CHARSET_UTF8}`,
+            ],
+            message.ical,
+        ),
+    ]);
+    let content = alternative;
+    if (options.attachment) {
+        const name = options.attachmentName ?? DEFAULT_ATTACHMENT_NAME;
+        content = multipart(TYPE_MIXED, boundary, [
+            alternative,
+            bodyPart(
+                [
+                    `Content-Type: ${TYPE_APPLICATION_ICS}; name="${name}"`,
+                    `Content-Disposition: attachment; filename="${name}"`,
+                ],
+                message.ical,
+            ),
+        ]);
+    }
+
+    const headers = [
+        `From: ${options.from}`,
+        `To: ${options.to.join(", ")}`,
+        `Subject: ${encodeHeaderValue(options.subject ?? subjectFor(message))}`,
+        `Date: ${(options.date ?? new Date()).toUTCString()}`,
+        `Message-ID: ${options.messageId ?? `<${createUid()}@${MESSAGE_ID_DOMAIN}>`}`,
+        `MIME-Version: ${MIME_VERSION}`,
+    ];
+    return `${headers.join(CRLF)}${CRLF}${content}`;
+}
+
+/**
+ * Extract the calendar from an iMIP email and import it. The text/calendar
+ * part is preferred; an application/ics attachment is used otherwise.
+ * @param raw RFC 5322 message text.
+ * @param options iCalendar import options.
+ * @return Imported Event, Task, and Group objects.
+ */
+export function fromIMip(
+    raw: string,
+    options: ICalParseOptions = {},
+): JSCalendarObject[] {
+    const parts: Array<{ type: string; text: string }> = [];
+    collectCalendarParts(raw, parts);
+    const part =
+        parts.find((entry) => entry.type === TYPE_TEXT_CALENDAR) ?? parts[0];
+    if (!part) {
+        throw new ICalParseError("iMIP message has no text/calendar part");
+    }
+    return fromICal(part.text, options);
+}
+
+/**
+ * Collect decoded calendar parts of a MIME entity, depth first.
+ * @param raw Entity text.
+ * @param parts Collected parts with their content type.
+ * @return Nothing.
+ */
+function collectCalendarParts(
+    raw: string,
+    parts: Array<{ type: string; text: string }>,
+): void {
+    const entity = parseMimeEntity(raw);
+    const contentType = parseMimeHeader(
+        entity.headers["content-type"] ?? TYPE_TEXT_PLAIN,
+    );
+    if (contentType.value.startsWith(MULTIPART_PREFIX)) {
+        const boundary = contentType.parameters.boundary;
+        if (!boundary) {
+            throw new ICalParseError("multipart message has no boundary");
+        }
+        for (const part of splitMultipart(entity.body, boundary)) {
+            collectCalendarParts(part, parts);
+        }
+        return;
+    }
+    if (
+        contentType.value !== TYPE_TEXT_CALENDAR &&
+        contentType.value !== TYPE_APPLICATION_ICS
+    ) {
+        return;
+    }
+    parts.push({
+        type: contentType.value,
+        text: decodeMimeBody(
+            entity.body,
+            entity.headers["content-transfer-encoding"],
+            contentType.parameters.charset,
+        ),
+    });
+}
+
+/**
+ * Format a base64 body part.
+ * @param headers Content headers of the part.
+ * @param content Part content.
+ * @return Body part text.
+ */
+function bodyPart(headers: string[], content: string): string {
+    return [
+        ...headers,
+        `Content-Transfer-Encoding: ${ENCODING_BASE64}`,
+        "",
+        encodeBase64(content),
+    ].join(CRLF);
+}
+
+/**
+ * Format a multipart entity.
+ * @param type Multipart content type.
+ * @param boundary Boundary string.
+ * @param parts Body parts.
+ * @return Multipart entity text, starting with its Content-Type header.
+ */
+function multipart(type: string, boundary: string, parts: string[]): string {
+    const lines = [`Content-Type: ${type}; boundary="${boundary}"`, ""];
+    for (const part of parts) lines.push(`--${boundary}`, part);
+    lines.push(`--${boundary}--`, "");
+    return lines.join(CRLF);
+}
+
+/**
+ * Build the default Subject header for a message.
+ * @param message iTIP message.
+ * @return Subject text.
+ */
+function subjectFor(message: ITipMessage): string {
+    const title = METHOD_TITLES[message.method] ?? message.method;
+    return `${title}: ${message.object.title ?? message.object.uid}`;
+}
+
+/**
+ * Build the text/plain summary of a message.
+ * @param message iTIP message.
+ * @return Summary text with CRLF line breaks.
+ */
+function summarize(message: ITipMessage): string {
+    const object = message.object;
+    const lines = [subjectFor(message), ""];
+    const when = describeTime(object);
+    if (when) lines.push(`When: ${when}`);
+    if (object.recurrenceId) lines.push(`Occurrence: ${object.recurrenceId}`);
+    for (const participant of Object.values(object.participants ?? {})) {
+        const name = participantName(participant);
+        if (!name) continue;
+        if (participant.roles[ROLE_OWNER]) {
+            lines.push(`Organizer: ${name}`);
+        } else {
+            const status = participant.participationStatus;
+            lines.push(`Attendee: ${name}${status ? ` (${status})` : ""}`);
+        }
+    }
+    if (object.description) lines.push("", object.description);
+    return `${lines.join(CRLF)}${CRLF}`;
+}
+
+/**
+ * Describe when an Event starts or a Task is due.
+ * @param object Event or Task.
+ * @return Local date-time with its time zone, if any.
+ */
+function describeTime(object: Event | Task): string | undefined {
+    const value =
+        object["@type"] === TYPE_EVENT
+            ? object.start
+            : (object.due ?? object.start);
+    if (!value) return undefined;
+    return object.timeZone ? `${value} (${object.timeZone})` : value;
+}
+
+/**
+ * Pick a display name for a participant.
+ * @param participant Participant to describe.
+ * @return Name, email, or first sendTo address.
+ */
+function participantName(participant: Participant): string | undefined {
+    return (
+        participant.name ??
+        participant.email ??
+        Object.values(participant.sendTo ?? {})[0]
+    );
+}
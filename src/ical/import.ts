@@ -0,0 +1,788 @@
+import type {
+    CalendarTimeZoneId,
+    CustomTimeZoneId,
+    Event,
+    Group,
+    JSCalendarObject,
+    PatchObject,
+    Task,
+    TimeZoneMode,
+} from "../types.js";
+import type { ICalComponent, ICalParseOptions, ICalProperty } from "./types.js";
+import type { TimeZoneDefinitions } from "../timezones/resolver.js";
+import { diff } from "../diff.js";
+import { findTimeZone } from "../timezones.js";
+import { isCustomTimeZoneId } from "../timezones/resolver.js";
+import {
+    dateTimeInTimeZone,
+    localDateTimeToUtcDate,
+    nowUtc,
+} from "../utils.js";
+import { durationFromSeconds } from "../jscal/duration.js";
+import {
+    applyCommonDefaults,
+    applyEventDefaults,
+    applyTaskDefaults,
+} from "../jscal/defaults.js";
+import { assertJsCalendarObject } from "../validate/asserts.js";
+import { validateWithSchema } from "../validate/common.js";
+import { jsCalendarObjectSchema } from "../validate/schemas.js";
+import {
+    COMPONENT_VCALENDAR,
+    COMPONENT_VEVENT,
+    COMPONENT_VTIMEZONE,
+    COMPONENT_VTODO,
+    PARAM_TZID,
+    PARAM_VALUE,
+    PROP_CREATED,
+    PROP_DESCRIPTION,
+    PROP_DTEND,
+    PROP_DTSTAMP,
+    PROP_DTSTART,
+    PROP_DUE,
+    PROP_DURATION,
+    PROP_EXDATE,
+    PROP_EXRULE,
+    PROP_LAST_MODIFIED,
+    PROP_METHOD,
+    PROP_PERCENT_COMPLETE,
+    PROP_PRODID,
+    PROP_RDATE,
+    PROP_RECURRENCE_ID,
+    PROP_RRULE,
+    PROP_SEQUENCE,
+    PROP_STATUS,
+    PROP_SUMMARY,
+    PROP_TZID,
+    PROP_UID,
+    PROP_X_JSCALENDAR,
+    PROP_X_JSCALENDAR_GROUP,
+    PROP_X_JSCALENDAR_GROUP_UID,
+    TIME_ZONE_UTC,
+    TYPE_EVENT,
+    TYPE_GROUP,
+    TYPE_TASK,
+    VALUE_PERIOD,
+} from "./constants.js";
+import {
+    createComponent,
+    findProperties,
+    findProperty,
+    parseComponents,
+} from "./component.js";
+import { getParameter, splitValueList, unescapeText } from "./content-line.js";
+import { parseDateTimeValue, parseUtcDateTime } from "./datetime.js";
+import { ICalParseError } from "./error.js";
+import { readAlerts } from "./alarms.js";
+import { readParticipants } from "./participants.js";
+import { readDescriptiveProperties } from "./properties.js";
+import { rruleToRecurrenceRule } from "./rrule.js";
+import { componentToTimeZone } from "./timezone.js";
+
+const PERIOD_SEPARATOR = "/";
+const CUSTOM_TIME_ZONE_PREFIX = "/";
+const POINTER_SEPARATOR = "/";
+const OVERRIDE_IGNORED_KEYS = new Set([
+    "uid",
+    "updated",
+    "created",
+    "prodId",
+    "method",
+    "recurrenceId",
+    "recurrenceIdTimeZone",
+    "recurrenceRules",
+    "excludedRecurrenceRules",
+    "recurrenceOverrides",
+]);
+
+type CalendarContext = {
+    prodId?: string;
+    method?: string;
+    preferX: boolean;
+    timeZoneMode: TimeZoneMode;
+    vTimeZones: Map<string, ICalComponent>;
+    timeZones: TimeZoneDefinitions;
+};
+
+type DateListEntry = {
+    value: string;
+    duration?: string;
+};
+
+type ImportedEntry = {
+    object: Event | Task;
+    fromPayload: boolean;
+    groupUid?: string;
+};
+
+/**
+ * Parse iCalendar text into JSCalendar objects.
+ * @param text iCalendar text.
+ * @param options Import options.
+ * @return Imported Event, Task, and Group objects.
+ */
+export function fromICal(
+    text: string,
+    options: ICalParseOptions = {},
+): JSCalendarObject[] {
+    return importComponents(parseComponents(text), options);
+}
+
+/**
+ * Convert parsed top-level components into JSCalendar objects. Components
+ * outside a VCALENDAR are imported as if they shared one.
+ * @param components Top-level components.
+ * @param options Import options.
+ * @return Imported Event, Task, and Group objects.
+ */
+export function importComponents(
+    components: ICalComponent[],
+    options: ICalParseOptions = {},
+): JSCalendarObject[] {
+    const result: JSCalendarObject[] = [];
+    const loose = createComponent(COMPONENT_VCALENDAR);
+    for (const component of components) {
+        if (component.name === COMPONENT_VCALENDAR) {
+            result.push(...importCalendar(component, options));
+        } else {
+            loose.components.push(component);
+        }
+    }
+    if (loose.components.length > 0) {
+        result.push(...importCalendar(loose, options));
+    }
+    return result;
+}
+
+/**
+ * Convert a parsed VCALENDAR component into JSCalendar objects.
+ * @param calendar VCALENDAR component.
+ * @param options Import options.
+ * @return Imported Event, Task, and Group objects.
+ */
+export function importCalendar(
+    calendar: ICalComponent,
+    options: ICalParseOptions = {},
+): JSCalendarObject[] {
+    const method = findProperty(calendar, PROP_METHOD)?.value;
+    const context: CalendarContext = {
+        prodId: findProperty(calendar, PROP_PRODID)?.value,
+        method: method ? method.toLowerCase() : undefined,
+        preferX: options.preferXJSCalendar !== false,
+        timeZoneMode: options.timeZoneMode ?? "lenient",
+        vTimeZones: new Map(),
+        timeZones: {},
+    };
+    for (const component of calendar.components) {
+        const tzId = findProperty(component, PROP_TZID);
+        if (component.name === COMPONENT_VTIMEZONE && tzId) {
+            context.vTimeZones.set(tzId.value, component);
+        }
+    }
+
+    const masters = new Map<string, ImportedEntry>();
+    const entries: ImportedEntry[] = [];
+    const instances: ICalComponent[] = [];
+    for (const component of calendar.components) {
+        if (
+            component.name !== COMPONENT_VEVENT &&
+            component.name !== COMPONENT_VTODO
+        ) {
+            continue;
+        }
+        if (findProperty(component, PROP_RECURRENCE_ID)) {
+            instances.push(component);
+            continue;
+        }
+        const entry = importEntry(component, context);
+        entries.push(entry);
+        masters.set(entry.object.uid, entry);
+    }
+
+    for (const component of instances) {
+        const uid = readUid(component);
+        const master = masters.get(uid);
+        if (!master) {
+            entries.push(importStandaloneInstance(component, context));
+            continue;
+        }
+        if (master.fromPayload) continue;
+        addOverride(master.object, component, context);
+    }
+
+    for (const entry of entries) {
+        if (entry.fromPayload) continue;
+        attachTimeZones(entry.object, context);
+        applyCommonDefaults(entry.object);
+        if (entry.object["@type"] === TYPE_EVENT) {
+            applyEventDefaults(entry.object);
+        } else {
+            applyTaskDefaults(entry.object);
+        }
+    }
+
+    const result = assembleGroups(calendar, entries, context);
+    if (options.validate !== false) {
+        for (const object of result) {
+            validateWithSchema(jsCalendarObjectSchema, object);
+        }
+    }
+    return result;
+}
+
+/**
+ * Build Group objects from X-JSCALENDAR-GROUP payloads.
+ * @param calendar VCALENDAR component.
+ * @param entries Imported entries.
+ * @param context Calendar context.
+ * @return Groups followed by entries that belong to no group.
+ */
+function assembleGroups(
+    calendar: ICalComponent,
+    entries: ImportedEntry[],
+    context: CalendarContext,
+): JSCalendarObject[] {
+    const groups: Group[] = [];
+    if (context.preferX) {
+        for (const property of findProperties(
+            calendar,
+            PROP_X_JSCALENDAR_GROUP,
+        )) {
+            const payload = parsePayload(property);
+            if (payload["@type"] !== TYPE_GROUP) {
+                throw new ICalParseError("X-JSCALENDAR-GROUP must be a Group");
+            }
+            groups.push({ ...payload, entries: [] });
+        }
+    }
+    if (groups.length === 0) return entries.map((entry) => entry.object);
+
+    const [onlyGroup] = groups;
+    const untagged =
+        groups.length === 1 && entries.every((entry) => !entry.groupUid);
+    const rest: JSCalendarObject[] = [];
+    for (const entry of entries) {
+        const group =
+            untagged && onlyGroup
+                ? onlyGroup
+                : groups.find((candidate) => candidate.uid === entry.groupUid);
+        if (group) {
+            group.entries.push(entry.object);
+        } else {
+            rest.push(entry.object);
+        }
+    }
+    return [...groups, ...rest];
+}
+
+/**
+ * Import a master VEVENT/VTODO component.
+ * @param component Component to import.
+ * @param context Calendar context.
+ * @return Imported entry.
+ */
+function importEntry(
+    component: ICalComponent,
+    context: CalendarContext,
+): ImportedEntry {
+    const groupUid = findProperty(component, PROP_X_JSCALENDAR_GROUP_UID);
+    const entry: ImportedEntry = readPayloadEntry(component, context) ?? {
+        object: convertComponent(component, context),
+        fromPayload: false,
+    };
+    if (groupUid) entry.groupUid = unescapeText(groupUid.value);
+    return entry;
+}
+
+/**
+ * Read the X-JSCALENDAR payload of a component when preferred.
+ * @param component VEVENT or VTODO component.
+ * @param context Calendar context.
+ * @return Entry built from the payload, or null when absent.
+ */
+function readPayloadEntry(
+    component: ICalComponent,
+    context: CalendarContext,
+): ImportedEntry | null {
+    if (!context.preferX) return null;
+    const property = findProperty(component, PROP_X_JSCALENDAR);
+    if (!property) return null;
+    const payload = parsePayload(property);
+    const expected =
+        component.name === COMPONENT_VEVENT ? TYPE_EVENT : TYPE_TASK;
+    if (payload["@type"] === TYPE_GROUP || payload["@type"] !== expected) {
+        throw new ICalParseError(
+            `X-JSCALENDAR in ${component.name} must be an ${expected}`,
+        );
+    }
+    return { object: payload, fromPayload: true };
+}
+
+/**
+ * Parse an X-JSCALENDAR style JSON payload.
+ * @param property Property holding the escaped JSON.
+ * @return JSCalendar object.
+ */
+function parsePayload(property: ICalProperty): JSCalendarObject {
+    let payload: unknown;
+    try {
+        payload = JSON.parse(unescapeText(property.value));
+    } catch {
+        throw new ICalParseError(`${property.name} is not valid JSON`);
+    }
+    assertJsCalendarObject(payload, property.name);
+    return payload;
+}
+
+/**
+ * Import a RECURRENCE-ID component whose master is not present.
+ * @param component VEVENT or VTODO component.
+ * @param context Calendar context.
+ * @return Imported entry carrying recurrenceId.
+ */
+function importStandaloneInstance(
+    component: ICalComponent,
+    context: CalendarContext,
+): ImportedEntry {
+    const entry = importEntry(component, context);
+    if (entry.fromPayload) return entry;
+    const object = entry.object;
+    const property = findProperty(component, PROP_RECURRENCE_ID);
+    if (property) {
+        object.recurrenceId = toObjectLocal(property, object.timeZone, context);
+        object.recurrenceIdTimeZone = object.timeZone ?? null;
+    }
+    return entry;
+}
+
+/**
+ * Convert a VEVENT or VTODO component without using X-JSCALENDAR.
+ * @param component Component to convert.
+ * @param context Calendar context.
+ * @return Event or Task object without defaults applied.
+ */
+function convertComponent(
+    component: ICalComponent,
+    context: CalendarContext,
+): Event | Task {
+    if (component.name === COMPONENT_VEVENT) {
+        return convertEvent(component, context);
+    }
+    return convertTask(component, context);
+}
+
+/**
+ * Convert a VEVENT component into an Event.
+ * @param component VEVENT component.
+ * @param context Calendar context.
+ * @return Event object.
+ */
+function convertEvent(
+    component: ICalComponent,
+    context: CalendarContext,
+): Event {
+    const dtStart = findProperty(component, PROP_DTSTART);
+    if (!dtStart) {
+        throw new ICalParseError("VEVENT is missing DTSTART");
+    }
+    const start = parseDateTimeValue(dtStart.value);
+    const timeZone = readTimeZone(dtStart, context);
+    const event: Event = {
+        "@type": TYPE_EVENT,
+        uid: readUid(component),
+        updated: readUpdated(component),
+        start: start.value,
+    };
+    if (timeZone) event.timeZone = timeZone;
+    if (start.dateOnly) event.showWithoutTime = true;
+
+    const duration = findProperty(component, PROP_DURATION);
+    const dtEnd = findProperty(component, PROP_DTEND);
+    if (duration) {
+        event.duration = duration.value;
+    } else if (dtEnd) {
+        event.duration = durationBetween(
+            start.value,
+            toObjectLocal(dtEnd, timeZone, context),
+            timeZone,
+            context.timeZones,
+        );
+    } else if (start.dateOnly) {
+        event.duration = "P1D";
+    }
+
+    const status = findProperty(component, PROP_STATUS);
+    if (status) event.status = status.value.toLowerCase();
+
+    applyCommonProperties(event, component, context);
+    return event;
+}
+
+/**
+ * Convert a VTODO component into a Task.
+ * @param component VTODO component.
+ * @param context Calendar context.
+ * @return Task object.
+ */
+function convertTask(component: ICalComponent, context: CalendarContext): Task {
+    const task: Task = {
+        "@type": TYPE_TASK,
+        uid: readUid(component),
+        updated: readUpdated(component),
+    };
+    const dtStart = findProperty(component, PROP_DTSTART);
+    const due = findProperty(component, PROP_DUE);
+    const zoneSource = dtStart ?? due;
+    const timeZone = zoneSource ? readTimeZone(zoneSource, context) : undefined;
+    if (timeZone) task.timeZone = timeZone;
+    if (dtStart) {
+        const start = parseDateTimeValue(dtStart.value);
+        task.start = start.value;
+        if (start.dateOnly) task.showWithoutTime = true;
+    }
+    if (due) {
+        task.due = toObjectLocal(due, timeZone, context);
+        if (!dtStart && parseDateTimeValue(due.value).dateOnly) {
+            task.showWithoutTime = true;
+        }
+    }
+
+    const duration = findProperty(component, PROP_DURATION);
+    if (duration) task.estimatedDuration = duration.value;
+
+    const percent = findProperty(component, PROP_PERCENT_COMPLETE);
+    if (percent) task.percentComplete = parseInteger(percent);
+
+    const status = findProperty(component, PROP_STATUS);
+    if (status) task.progress = status.value.toLowerCase();
+
+    applyCommonProperties(task, component, context);
+    return task;
+}
+
+/**
+ * Copy properties shared by VEVENT and VTODO onto an object.
+ * @param object Event or Task being built.
+ * @param component Source component.
+ * @param context Calendar context.
+ * @return Nothing.
+ */
+function applyCommonProperties(
+    object: Event | Task,
+    component: ICalComponent,
+    context: CalendarContext,
+): void {
+    if (context.prodId) object.prodId = context.prodId;
+    if (context.method) object.method = context.method;
+
+    const created = findProperty(component, PROP_CREATED);
+    if (created) object.created = parseUtcDateTime(created.value);
+    const sequence = findProperty(component, PROP_SEQUENCE);
+    if (sequence) object.sequence = parseInteger(sequence);
+    const summary = findProperty(component, PROP_SUMMARY);
+    if (summary) object.title = unescapeText(summary.value);
+    const description = findProperty(component, PROP_DESCRIPTION);
+    if (description) object.description = unescapeText(description.value);
+    Object.assign(object, readDescriptiveProperties(component));
+
+    const { participants, replyTo } = readParticipants(component);
+    if (participants) object.participants = participants;
+    if (replyTo) object.replyTo = replyTo;
+    const alerts = readAlerts(component);
+    if (alerts) object.alerts = alerts;
+
+    const timeZone = object.timeZone;
+    const rules = findProperties(component, PROP_RRULE).map((property) =>
+        rruleToRecurrenceRule(property.value, timeZone, context.timeZones),
+    );
+    if (rules.length > 0) object.recurrenceRules = rules;
+    const excludedRules = findProperties(component, PROP_EXRULE).map(
+        (property) =>
+            rruleToRecurrenceRule(property.value, timeZone, context.timeZones),
+    );
+    if (excludedRules.length > 0) {
+        object.excludedRecurrenceRules = excludedRules;
+    }
+
+    const durationKey =
+        object["@type"] === TYPE_EVENT ? "duration" : "estimatedDuration";
+    const overrides: Record<string, PatchObject> = {};
+    for (const property of findProperties(component, PROP_RDATE)) {
+        for (const entry of readDateList(property, timeZone, context)) {
+            overrides[entry.value] = entry.duration
+                ? { [durationKey]: entry.duration }
+                : {};
+        }
+    }
+    for (const property of findProperties(component, PROP_EXDATE)) {
+        for (const { value } of readDateList(property, timeZone, context)) {
+            overrides[value] = { excluded: true };
+        }
+    }
+    if (Object.keys(overrides).length > 0) {
+        object.recurrenceOverrides = overrides;
+    }
+}
+
+/**
+ * Merge a RECURRENCE-ID component into its master as an override patch.
+ * @param master Master Event or Task.
+ * @param component RECURRENCE-ID component.
+ * @param context Calendar context.
+ * @return Nothing.
+ */
+function addOverride(
+    master: Event | Task,
+    component: ICalComponent,
+    context: CalendarContext,
+): void {
+    const property = findProperty(component, PROP_RECURRENCE_ID);
+    if (!property) return;
+    const key = toObjectLocal(property, master.timeZone, context);
+    const instance =
+        readPayloadEntry(component, context)?.object ??
+        convertComponent(component, context);
+    const patch = overridePatch(master, instance, key);
+    master.recurrenceOverrides = {
+        ...master.recurrenceOverrides,
+        [key]: patch,
+    };
+}
+
+/**
+ * Compute the override patch between a master and one instance.
+ * @param master Master Event or Task.
+ * @param instance Instance converted from its own component.
+ * @param key Recurrence id of the instance.
+ * @return PatchObject for recurrenceOverrides.
+ */
+export function overridePatch(
+    master: Event | Task,
+    instance: Event | Task,
+    key: string,
+): PatchObject {
+    const changes =
+        master["@type"] === instance["@type"] ? diff(master, instance) : {};
+    const anchorKey =
+        master["@type"] === TYPE_TASK && !master.start ? "due" : "start";
+    const patch: PatchObject = {};
+    for (const [pointer, value] of Object.entries(changes)) {
+        const [root] = pointer.split(POINTER_SEPARATOR);
+        if (root === undefined || OVERRIDE_IGNORED_KEYS.has(root)) continue;
+        if (pointer === anchorKey && value === key) continue;
+        patch[pointer] = value;
+    }
+    return patch;
+}
+
+/**
+ * Read the UID property of a component.
+ * @param component Component to read.
+ * @return Unescaped UID.
+ */
+function readUid(component: ICalComponent): string {
+    const uid = findProperty(component, PROP_UID);
+    if (!uid) {
+        throw new ICalParseError(`${component.name} is missing UID`);
+    }
+    return unescapeText(uid.value);
+}
+
+/**
+ * Read the updated timestamp from LAST-MODIFIED or DTSTAMP.
+ * @param component Component to read.
+ * @return UTCDateTime string.
+ */
+function readUpdated(component: ICalComponent): string {
+    const property =
+        findProperty(component, PROP_LAST_MODIFIED) ??
+        findProperty(component, PROP_DTSTAMP);
+    return property ? parseUtcDateTime(property.value) : nowUtc();
+}
+
+/**
+ * Determine the JSCalendar time zone of a date-time property.
+ * @param property DTSTART, DUE, or similar property.
+ * @param context Calendar context with the time zone mode.
+ * @return Time zone ID, or undefined for floating and date values.
+ */
+function readTimeZone(
+    property: ICalProperty,
+    context: CalendarContext,
+): CalendarTimeZoneId | undefined {
+    if (parseDateTimeValue(property.value).utc) return TIME_ZONE_UTC;
+    const tzid = getParameter(property, PARAM_TZID);
+    if (!tzid) return undefined;
+    return resolveTzid(tzid, context);
+}
+
+/**
+ * Resolve a TZID to a bundled time zone or, failing that, to a custom time
+ * zone built from the calendar's VTIMEZONE of the same TZID.
+ * @param tzid TZID parameter value.
+ * @param context Calendar context with the VTIMEZONE components.
+ * @return IANA time zone ID, or a "/"-prefixed custom time zone ID.
+ */
+function resolveTzid(
+    tzid: string,
+    context: CalendarContext,
+): CalendarTimeZoneId {
+    const timeZone = findTimeZone(tzid, context.timeZoneMode);
+    if (timeZone) return timeZone;
+    const component = context.vTimeZones.get(tzid);
+    if (!component) {
+        throw new ICalParseError(`unknown TZID: ${tzid}`);
+    }
+    const customId: CustomTimeZoneId = isCustomTimeZoneId(tzid)
+        ? tzid
+        : `${CUSTOM_TIME_ZONE_PREFIX}${tzid}`;
+    if (!context.timeZones[customId]) {
+        context.timeZones[customId] = componentToTimeZone(component, customId);
+    }
+    return customId;
+}
+
+/**
+ * Copy the custom time zones an imported object refers to into its
+ * timeZones map.
+ * @param object Event or Task being built.
+ * @param context Calendar context with the converted VTIMEZONEs.
+ * @return Nothing.
+ */
+function attachTimeZones(object: Event | Task, context: CalendarContext): void {
+    const ids = [
+        object.timeZone,
+        object.recurrenceIdTimeZone,
+        ...Object.values(object.recurrenceOverrides ?? {}).map(
+            (patch) => patch.timeZone,
+        ),
+    ];
+    for (const id of ids) {
+        if (typeof id !== "string") continue;
+        const zone = context.timeZones[id];
+        if (zone) object.timeZones = { ...object.timeZones, [id]: zone };
+    }
+}
+
+/**
+ * Convert a date-time property into a LocalDateTime in a target zone.
+ * @param property Date-time property.
+ * @param timeZone Target time zone, or floating when missing.
+ * @param context Calendar context with the time zone mode.
+ * @return LocalDateTime string.
+ */
+function toObjectLocal(
+    property: ICalProperty,
+    timeZone: string | null | undefined,
+    context: CalendarContext,
+): string {
+    return convertValue(
+        property.value,
+        readTimeZone(property, context),
+        timeZone,
+        context.timeZones,
+    );
+}
+
+/**
+ * Convert one DATE or DATE-TIME value between time zones.
+ * @param value iCalendar date-time value.
+ * @param sourceZone Zone the value is expressed in.
+ * @param targetZone Zone to express the value in.
+ * @param timeZones Custom time zones converted from VTIMEZONEs.
+ * @return LocalDateTime string.
+ */
+function convertValue(
+    value: string,
+    sourceZone: string | undefined,
+    targetZone: string | null | undefined,
+    timeZones: TimeZoneDefinitions,
+): string {
+    const parsed = parseDateTimeValue(value);
+    if (!sourceZone || !targetZone || sourceZone === targetZone) {
+        return parsed.value;
+    }
+    return dateTimeInTimeZone(
+        localDateTimeToUtcDate(parsed.value, sourceZone, timeZones),
+        targetZone,
+        timeZones,
+    );
+}
+
+/**
+ * Read RDATE/EXDATE values as LocalDateTimes in the object's zone. PERIOD
+ * values also yield their duration, computed from the end when the period
+ * has an explicit end.
+ * @param property RDATE or EXDATE property.
+ * @param timeZone Time zone of the owning object.
+ * @param context Calendar context with the time zone mode.
+ * @return LocalDateTimes with optional durations.
+ */
+function readDateList(
+    property: ICalProperty,
+    timeZone: string | null | undefined,
+    context: CalendarContext,
+): DateListEntry[] {
+    const sourceZone = getParameter(property, PARAM_TZID);
+    const isPeriod = getParameter(property, PARAM_VALUE) === VALUE_PERIOD;
+    const toLocal = (value: string): string => {
+        const zone = parseDateTimeValue(value).utc
+            ? TIME_ZONE_UTC
+            : sourceZone
+              ? resolveTzid(sourceZone, context)
+              : undefined;
+        return convertValue(value, zone, timeZone, context.timeZones);
+    };
+    return splitValueList(property.value).map((entry) => {
+        if (!isPeriod) return { value: toLocal(entry) };
+        const [startText = entry, endText] = entry.split(PERIOD_SEPARATOR);
+        const value = toLocal(startText);
+        if (!endText) return { value };
+        if (/^\+?P/.test(endText)) {
+            return { value, duration: endText.replace(/^\+/, "") };
+        }
+        const duration = durationBetween(
+            value,
+            toLocal(endText),
+            timeZone ?? undefined,
+            context.timeZones,
+        );
+        return { value, duration };
+    });
+}
+
+/**
+ * Compute a duration between two LocalDateTimes.
+ * @param start Start LocalDateTime.
+ * @param end End LocalDateTime.
+ * @param timeZone Time zone for both values, or floating when missing.
+ * @param timeZones Custom time zones converted from VTIMEZONEs.
+ * @return Duration string.
+ */
+function durationBetween(
+    start: string,
+    end: string,
+    timeZone: string | undefined,
+    timeZones: TimeZoneDefinitions,
+): string {
+    const startMs = timeZone
+        ? localDateTimeToUtcDate(start, timeZone, timeZones).getTime()
+        : Date.parse(`${start}Z`);
+    const endMs = timeZone
+        ? localDateTimeToUtcDate(end, timeZone, timeZones).getTime()
+        : Date.parse(`${end}Z`);
+    return durationFromSeconds(Math.max(0, (endMs - startMs) / 1000));
+}
+
+/**
+ * Parse an INTEGER property value.
+ * @param property Property to read.
+ * @return Parsed integer.
+ */
+function parseInteger(property: ICalProperty): number {
+    const value = property.value.trim();
+    if (!/^[+-]?\d+$/.test(value)) {
+        throw new ICalParseError(`${property.name} must be an integer`);
+    }
+    return Number(value);
+}
@@ -0,0 +1,393 @@
+import type {
+    Event,
+    Id,
+    LocalDateTime,
+    Participant,
+    PatchObject,
+    Task,
+} from "../types.js";
+import type {
+    ICalParseOptions,
+    ITipCounter,
+    ITipMessage,
+    ITipOptions,
+    ITipReplyResult,
+} from "./types.js";
+import { diff } from "../diff.js";
+import { applyPatch } from "../patch.js";
+import { compareDateTime, deepClone } from "../utils.js";
+import { fail } from "../validate/error.js";
+import {
+    METHOD_COUNTER,
+    METHOD_REPLY,
+    MAILTO_PREFIX,
+    TYPE_EVENT,
+    TYPE_TASK,
+} from "./constants.js";
+import { fromICal, overridePatch } from "./import.js";
+import { buildOccurrence, createITipRequest } from "./itip.js";
+
+const ROLE_OWNER = "owner";
+const REASON_UNKNOWN_PARTICIPANT = "unknown-participant";
+const REASON_OUTDATED = "outdated-sequence";
+const REASON_OUT_OF_ORDER = "out-of-order";
+const REASON_EXCLUDED = "excluded-occurrence";
+const REASON_UNKNOWN_OCCURRENCE = "unknown-occurrence";
+
+/**
+ * Apply an incoming iTIP REPLY to the organizer's copy, or collect the
+ * proposals of a COUNTER. Replies older than what was already recorded for
+ * the participant are reported but not applied.
+ * @param object Organizer's Event or Task.
+ * @param message iCalendar text, or the imported message objects.
+ * @param options Import options for iCalendar text.
+ * @return Updated copy, per-participant changes, and counter proposals.
+ */
+export function processITipReply(
+    object: Event | Task,
+    message: string | Event | Task | Array<Event | Task>,
+    options: ICalParseOptions = {},
+): ITipReplyResult {
+    const entries = readMessage(message, options).filter(
+        (entry) => entry.uid === object.uid,
+    );
+    const [first] = entries;
+    if (!first) fail("message", `has no entry for ${object.uid}`);
+    const method = (first.method ?? "").toUpperCase();
+    if (method !== METHOD_REPLY && method !== METHOD_COUNTER) {
+        fail("message.method", "must be reply or counter");
+    }
+
+    const result: ITipReplyResult = {
+        method: method.toLowerCase(),
+        object: deepClone(object),
+        changes: [],
+        counters: [],
+    };
+    for (const entry of entries) {
+        for (const response of splitOccurrences(entry)) {
+            if (method === METHOD_COUNTER) {
+                collectCounter(result, response);
+            } else {
+                applyReply(result, response);
+            }
+        }
+    }
+    return result;
+}
+
+/**
+ * Accept a counter proposal: apply it to the organizer's copy and build the
+ * REQUEST that announces the new version.
+ * @param object Organizer's Event or Task.
+ * @param counter Counter proposal returned by processITipReply.
+ * @param options Message options.
+ * @return REQUEST message whose object is the updated organizer copy.
+ */
+export function acceptITipCounter(
+    object: Event | Task,
+    counter: ITipCounter,
+    options: ITipOptions = {},
+): ITipMessage {
+    const recurrenceId = counter.recurrenceId;
+    if (!recurrenceId) {
+        return createITipRequest(applyPatch(object, counter.patch), options);
+    }
+    const occurrence = buildOccurrence(object, recurrenceId);
+    if (!occurrence) {
+        fail("counter.recurrenceId", "does not address an occurrence");
+    }
+    const updated = deepClone(object);
+    updated.recurrenceOverrides = {
+        ...updated.recurrenceOverrides,
+        [recurrenceId]: overridePatch(
+            object,
+            applyPatch(occurrence, counter.patch),
+            recurrenceId,
+        ),
+    };
+    return createITipRequest(updated, options);
+}
+
+/**
+ * Normalize the message input into Event and Task objects.
+ * @param message iCalendar text or imported objects.
+ * @param options Import options.
+ * @return Events and tasks of the message.
+ */
+function readMessage(
+    message: string | Event | Task | Array<Event | Task>,
+    options: ICalParseOptions,
+): Array<Event | Task> {
+    if (typeof message !== "string") {
+        return Array.isArray(message) ? message : [message];
+    }
+    const result: Array<Event | Task> = [];
+    for (const object of fromICal(message, options)) {
+        if (object["@type"] === TYPE_EVENT || object["@type"] === TYPE_TASK) {
+            result.push(object);
+        }
+    }
+    return result;
+}
+
+/**
+ * Split a message entry into the series response and one response per
+ * overridden occurrence.
+ * @param entry Message Event or Task.
+ * @return Responses; occurrences carry recurrenceId.
+ */
+function splitOccurrences(entry: Event | Task): Array<Event | Task> {
+    const { recurrenceOverrides, ...series } = entry;
+    const result: Array<Event | Task> = [series];
+    for (const recurrenceId of Object.keys(recurrenceOverrides ?? {})) {
+        const occurrence = buildOccurrence(entry, recurrenceId);
+        if (occurrence) result.push(occurrence);
+    }
+    return result;
+}
+
+/**
+ * Record the participation status of every attendee in a REPLY.
+ * @param result Result to update.
+ * @param reply Series or occurrence reply.
+ * @return Nothing.
+ */
+function applyReply(result: ITipReplyResult, reply: Event | Task): void {
+    const recurrenceId = reply.recurrenceId;
+    for (const replier of respondents(reply)) {
+        const participantId = findParticipantId(result.object, replier);
+        const change = {
+            participantId,
+            recurrenceId,
+            participationStatus: replier.participationStatus,
+        };
+        if (!participantId) {
+            result.changes.push({
+                ...change,
+                applied: false,
+                reason: REASON_UNKNOWN_PARTICIPANT,
+            });
+            continue;
+        }
+        const target = recurrenceId
+            ? buildOccurrence(result.object, recurrenceId)
+            : result.object;
+        const participant = target?.participants?.[participantId];
+        if (!target || !participant) {
+            result.changes.push({
+                ...change,
+                applied: false,
+                reason: target
+                    ? REASON_EXCLUDED
+                    : missingOccurrenceReason(result.object, recurrenceId),
+            });
+            continue;
+        }
+        const reason = staleReason(target, participant, reply);
+        if (reason) {
+            result.changes.push({ ...change, applied: false, reason });
+            continue;
+        }
+        updateParticipant(participant, replier, reply);
+        if (recurrenceId && target !== result.object) {
+            result.object.recurrenceOverrides = {
+                ...result.object.recurrenceOverrides,
+                [recurrenceId]: overridePatch(
+                    result.object,
+                    target,
+                    recurrenceId,
+                ),
+            };
+        }
+        result.changes.push({ ...change, applied: true });
+    }
+}
+
+/**
+ * Turn a COUNTER entry into a patch against the organizer's copy. Entries
+ * that propose no change are skipped.
+ * @param result Result to update.
+ * @param proposal Series or occurrence proposal.
+ * @return Nothing.
+ */
+function collectCounter(result: ITipReplyResult, proposal: Event | Task): void {
+    const [replier] = respondents(proposal);
+    const participantId = replier
+        ? findParticipantId(result.object, replier)
+        : undefined;
+    const recurrenceId = proposal.recurrenceId;
+    if (!participantId) {
+        result.changes.push({
+            recurrenceId,
+            applied: false,
+            reason: REASON_UNKNOWN_PARTICIPANT,
+        });
+        return;
+    }
+    const base = recurrenceId
+        ? buildOccurrence(result.object, recurrenceId)
+        : result.object;
+    if (!base) {
+        result.changes.push({
+            participantId,
+            recurrenceId,
+            applied: false,
+            reason: missingOccurrenceReason(result.object, recurrenceId),
+        });
+        return;
+    }
+    const patch = counterPatch(base, proposal);
+    if (Object.keys(patch).length === 0) return;
+    const counter: ITipCounter = {
+        participantId,
+        sequence: proposal.sequence ?? 0,
+        patch,
+    };
+    if (recurrenceId) counter.recurrenceId = recurrenceId;
+    result.counters.push(counter);
+}
+
+/**
+ * Diff the proposed schedule fields against the organizer's version.
+ * @param base Organizer's series or occurrence.
+ * @param proposal Counter proposal.
+ * @return PatchObject limited to the fields an attendee may counter.
+ */
+function counterPatch(base: Event | Task, proposal: Event | Task): PatchObject {
+    const fields: PatchObject = {
+        start: proposal.start,
+        timeZone: proposal.timeZone,
+        title: proposal.title,
+        description: proposal.description,
+        locations: proposal.locations,
+        virtualLocations: proposal.virtualLocations,
+    };
+    if (proposal["@type"] === TYPE_EVENT) {
+        fields.duration = proposal.duration;
+    } else {
+        fields.due = proposal.due;
+    }
+    const proposed: PatchObject = {};
+    for (const [key, value] of Object.entries(fields)) {
+        if (value !== undefined) proposed[key] = value;
+    }
+    return diff(base, applyPatch(base, proposed));
+}
+
+/**
+ * List the attendees that answer in a message.
+ * @param object Message Event or Task.
+ * @return Participants with an attending role.
+ */
+function respondents(object: Event | Task): Participant[] {
+    return Object.values(object.participants ?? {}).filter((participant) =>
+        Object.entries(participant.roles).some(
+            ([role, value]) => role !== ROLE_OWNER && value,
+        ),
+    );
+}
+
+/**
+ * Find the organizer-side participant id for a replying participant by
+ * comparing sendTo addresses and emails.
+ * @param object Organizer's Event or Task.
+ * @param replier Participant from the message.
+ * @return Matching participant id, if any.
+ */
+function findParticipantId(
+    object: Event | Task,
+    replier: Participant,
+): Id | undefined {
+    const wanted = participantAddresses(replier);
+    for (const [id, participant] of Object.entries(object.participants ?? {})) {
+        for (const address of participantAddresses(participant)) {
+            if (wanted.has(address)) return id;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Collect the normalized calendar addresses of a participant.
+ * @param participant Participant to address.
+ * @return Lower-case sendTo values and mailto form of the email.
+ */
+function participantAddresses(participant: Participant): Set<string> {
+    const result = new Set<string>();
+    for (const address of Object.values(participant.sendTo ?? {})) {
+        result.add(address.toLowerCase());
+    }
+    if (participant.email) {
+        result.add(`${MAILTO_PREFIX}${participant.email}`.toLowerCase());
+    }
+    return result;
+}
+
+/**
+ * Explain why a reply or counter does not address an occurrence.
+ * @param object Organizer's Event or Task.
+ * @param recurrenceId Occurrence named by the message.
+ * @return Excluded reason for excluded overrides, unknown otherwise.
+ */
+function missingOccurrenceReason(
+    object: Event | Task,
+    recurrenceId: LocalDateTime | undefined,
+): string {
+    const patch = recurrenceId
+        ? object.recurrenceOverrides?.[recurrenceId]
+        : undefined;
+    return patch?.excluded === true
+        ? REASON_EXCLUDED
+        : REASON_UNKNOWN_OCCURRENCE;
+}
+
+/**
+ * Decide whether a reply is older than what is already recorded.
+ * @param target Organizer's series or occurrence.
+ * @param participant Organizer-side participant.
+ * @param reply Series or occurrence reply.
+ * @return Reason to ignore the reply, or undefined to apply it.
+ */
+function staleReason(
+    target: Event | Task,
+    participant: Participant,
+    reply: Event | Task,
+): string | undefined {
+    const sequence = reply.sequence ?? 0;
+    if (sequence < (target.sequence ?? 0)) return REASON_OUTDATED;
+    const recorded = participant.scheduleSequence;
+    if (recorded === undefined) return undefined;
+    if (sequence < recorded) return REASON_OUT_OF_ORDER;
+    if (
+        sequence === recorded &&
+        participant.scheduleUpdated &&
+        (compareDateTime(reply.updated, participant.scheduleUpdated) ?? 0) < 0
+    ) {
+        return REASON_OUT_OF_ORDER;
+    }
+    return undefined;
+}
+
+/**
+ * Copy the reply status onto the organizer-side participant.
+ * @param participant Participant to update.
+ * @param replier Participant from the reply.
+ * @param reply Reply the participant came from.
+ * @return Nothing.
+ */
+function updateParticipant(
+    participant: Participant,
+    replier: Participant,
+    reply: Event | Task,
+): void {
+    if (replier.participationStatus) {
+        participant.participationStatus = replier.participationStatus;
+    }
+    if (replier.participationComment) {
+        participant.participationComment = replier.participationComment;
+    }
+    if (replier.progress) participant.progress = replier.progress;
+    participant.scheduleSequence = reply.sequence ?? 0;
+    participant.scheduleUpdated = reply.updated;
+}
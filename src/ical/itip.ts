@@ -0,0 +1,299 @@
+import type { Event, Id, Task } from "../types.js";
+import type {
+    ICalComponent,
+    ITipCounter,
+    ITipMessage,
+    ITipOptions,
+} from "./types.js";
+import { buildInstance } from "../recurrence/expand.js";
+import { getOccurrence } from "../recurrence/lookup.js";
+import { formatOccurrenceId } from "../recurrence/occurrences.js";
+import { deepClone, nowUtc } from "../utils.js";
+import { fail } from "../validate/error.js";
+import {
+    COMPONENT_VTIMEZONE,
+    METHOD_CANCEL,
+    METHOD_DECLINECOUNTER,
+    METHOD_REFRESH,
+    METHOD_REPLY,
+    METHOD_REQUEST,
+    PROP_ATTENDEE,
+    PROP_DTSTAMP,
+    PROP_ORGANIZER,
+    PROP_RECURRENCE_ID,
+    PROP_SEQUENCE,
+    PROP_UID,
+    TYPE_EVENT,
+    TYPE_TASK,
+} from "./constants.js";
+import { buildCalendar, serializeCalendar } from "./export.js";
+import { buildParticipantProperties } from "./participants.js";
+import { buildTimeZoneComponents } from "./timezone.js";
+
+const ROLE_OWNER = "owner";
+const STATUS_CANCELLED = "cancelled";
+const SEQUENCED_METHODS = new Set([METHOD_REQUEST, METHOD_CANCEL]);
+const REFRESH_PROPERTIES = new Set([
+    PROP_UID,
+    PROP_DTSTAMP,
+    PROP_ORGANIZER,
+    PROP_ATTENDEE,
+    PROP_RECURRENCE_ID,
+]);
+const DECLINECOUNTER_PROPERTIES = new Set([
+    ...REFRESH_PROPERTIES,
+    PROP_SEQUENCE,
+]);
+
+/**
+ * Build an iTIP REQUEST (RFC 5546) sent by the organizer to all attendees.
+ * The sequence is bumped unless options.sequence is false.
+ * @param object Organizer's Event or Task.
+ * @param options Message options.
+ * @return REQUEST message.
+ */
+export function createITipRequest(
+    object: Event | Task,
+    options: ITipOptions = {},
+): ITipMessage {
+    const message = prepareMessage(object, METHOD_REQUEST, options);
+    return finishMessage(message, options);
+}
+
+/**
+ * Build an iTIP REPLY carrying only the replying participant's status.
+ * @param object Attendee's copy of the Event or Task.
+ * @param participantId Id of the replying participant.
+ * @param options Message options.
+ * @return REPLY message.
+ */
+export function createITipReply(
+    object: Event | Task,
+    participantId: Id,
+    options: ITipOptions = {},
+): ITipMessage {
+    const message = prepareMessage(object, METHOD_REPLY, options);
+    keepParticipant(message, participantId);
+    return finishMessage(message, options);
+}
+
+/**
+ * Build an iTIP CANCEL for the whole series, or for one occurrence when
+ * options.recurrenceId is set. The sequence is bumped unless
+ * options.sequence is false.
+ * @param object Organizer's Event or Task.
+ * @param options Message options.
+ * @return CANCEL message.
+ */
+export function createITipCancel(
+    object: Event | Task,
+    options: ITipOptions = {},
+): ITipMessage {
+    const message = prepareMessage(object, METHOD_CANCEL, options);
+    if (message["@type"] === TYPE_EVENT) {
+        message.status = STATUS_CANCELLED;
+    } else {
+        message.progress = STATUS_CANCELLED;
+    }
+    return finishMessage(message, options);
+}
+
+/**
+ * Build an iTIP REFRESH asking the organizer for the current version. The
+ * message keeps only UID, DTSTAMP, ORGANIZER, ATTENDEE, and RECURRENCE-ID.
+ * @param object Attendee's copy of the Event or Task.
+ * @param participantId Id of the requesting participant.
+ * @param options Message options.
+ * @return REFRESH message.
+ */
+export function createITipRefresh(
+    object: Event | Task,
+    participantId: Id,
+    options: ITipOptions = {},
+): ITipMessage {
+    const message = prepareMessage(object, METHOD_REFRESH, options);
+    keepParticipant(message, participantId);
+    return finishMessage(message, options, REFRESH_PROPERTIES);
+}
+
+/**
+ * Build an iTIP DECLINECOUNTER rejecting an attendee's counter proposal.
+ * @param object Organizer's Event or Task.
+ * @param counter Counter proposal returned by processITipReply.
+ * @param options Message options; recurrenceId is taken from the counter.
+ * @return DECLINECOUNTER message.
+ */
+export function createITipDeclineCounter(
+    object: Event | Task,
+    counter: ITipCounter,
+    options: ITipOptions = {},
+): ITipMessage {
+    const message = prepareMessage(object, METHOD_DECLINECOUNTER, {
+        ...options,
+        recurrenceId: counter.recurrenceId,
+    });
+    keepParticipant(message, counter.participantId);
+    return finishMessage(message, options, DECLINECOUNTER_PROPERTIES);
+}
+
+/**
+ * Build one occurrence of an object, applying its override.
+ * @param object Master Event or Task.
+ * @param recurrenceId Occurrence to build.
+ * @return Independent copy of the occurrence, or null when it is excluded
+ * or the rules and overrides do not produce it.
+ */
+export function buildOccurrence(
+    object: Event | Task,
+    recurrenceId: string,
+): Event | Task | null {
+    if (!getOccurrence(object, formatOccurrenceId(object.uid, recurrenceId))) {
+        return null;
+    }
+    const instance = buildInstance(
+        object,
+        recurrenceId,
+        object.timeZone ?? null,
+        object.recurrenceOverrides?.[recurrenceId],
+    );
+    if (
+        !instance ||
+        (instance["@type"] !== TYPE_EVENT && instance["@type"] !== TYPE_TASK)
+    ) {
+        return null;
+    }
+    return deepClone(instance);
+}
+
+/**
+ * Copy the object (or one occurrence of it) and stamp the iTIP metadata.
+ * @param object Event or Task.
+ * @param method Upper-case iTIP method.
+ * @param options Message options.
+ * @return Object to send.
+ */
+function prepareMessage(
+    object: Event | Task,
+    method: string,
+    options: ITipOptions,
+): Event | Task {
+    const message = selectInstance(object, options.recurrenceId);
+    if (!hasOrganizer(message)) {
+        fail("object.replyTo", "iTIP messages need an organizer");
+    }
+    message.method = method.toLowerCase();
+    message.updated = (options.now ?? nowUtc)();
+    if (SEQUENCED_METHODS.has(method) && options.sequence !== false) {
+        message.sequence = (message.sequence ?? 0) + 1;
+    }
+    if (method !== METHOD_REQUEST) {
+        delete message.alerts;
+        delete message.useDefaultAlerts;
+        delete message.recurrenceOverrides;
+    }
+    return message;
+}
+
+/**
+ * Copy an object, or build the occurrence a recurrence id points to.
+ * @param object Event or Task.
+ * @param recurrenceId Optional occurrence to address.
+ * @return Independent copy.
+ */
+function selectInstance(
+    object: Event | Task,
+    recurrenceId: string | undefined,
+): Event | Task {
+    if (!recurrenceId) return deepClone(object);
+    const patch = object.recurrenceOverrides?.[recurrenceId];
+    const instance = buildOccurrence(
+        patch?.excluded === true
+            ? { ...object, recurrenceOverrides: undefined }
+            : object,
+        recurrenceId,
+    );
+    if (!instance) {
+        return fail("options.recurrenceId", "does not address an occurrence");
+    }
+    return instance;
+}
+
+/**
+ * Check whether an object resolves to an ORGANIZER property.
+ * @param object Event or Task.
+ * @return True when replyTo or an owner participant gives an address.
+ */
+function hasOrganizer(object: Event | Task): boolean {
+    return buildParticipantProperties(object).some(
+        (property) => property.name === PROP_ORGANIZER,
+    );
+}
+
+/**
+ * Reduce the participants to the owners and one attendee.
+ * @param object Message object to modify.
+ * @param participantId Attendee to keep.
+ * @return Nothing.
+ */
+function keepParticipant(object: Event | Task, participantId: Id): void {
+    const participants = object.participants ?? {};
+    if (!participants[participantId]) {
+        fail(`object.participants.${participantId}`, "is not a participant");
+    }
+    for (const [id, participant] of Object.entries(participants)) {
+        if (id === participantId) continue;
+        if (participant.roles[ROLE_OWNER]) {
+            participant.roles = { [ROLE_OWNER]: true };
+        } else {
+            delete participants[id];
+        }
+    }
+}
+
+/**
+ * Serialize the message object.
+ * @param object Message object.
+ * @param options Message options.
+ * @param allowed Optional whitelist of VEVENT/VTODO properties.
+ * @return iTIP message.
+ */
+function finishMessage(
+    object: Event | Task,
+    options: ITipOptions,
+    allowed?: ReadonlySet<string>,
+): ITipMessage {
+    const method = object.method ?? "";
+    const calendar = buildCalendar([object], {
+        prodId: options.prodId,
+        method,
+        includeXJSCalendar: allowed ? false : options.includeXJSCalendar,
+    });
+    if (allowed) restrictProperties(calendar, [object], allowed);
+    return { method, object, ical: serializeCalendar(calendar) };
+}
+
+/**
+ * Drop every component property outside a whitelist and regenerate the
+ * VTIMEZONE components for the TZIDs that are still referenced.
+ * @param calendar VCALENDAR component to modify.
+ * @param objects Objects the calendar was built from.
+ * @param allowed Property names to keep.
+ * @return Nothing.
+ */
+function restrictProperties(
+    calendar: ICalComponent,
+    objects: Array<Event | Task>,
+    allowed: ReadonlySet<string>,
+): void {
+    const components = calendar.components.filter(
+        (component) => component.name !== COMPONENT_VTIMEZONE,
+    );
+    for (const component of components) {
+        component.properties = component.properties.filter((property) =>
+            allowed.has(property.name),
+        );
+        component.components = [];
+    }
+    calendar.components = components;
+    calendar.components.unshift(...buildTimeZoneComponents(calendar, objects));
+}
@@ -0,0 +1,421 @@
+import type { JSCalendarObject, JsonObject, JsonValue } from "../types.js";
+import type {
+    ICalComponent,
+    ICalOptions,
+    ICalParameters,
+    ICalParseOptions,
+    ICalProperty,
+    JCalComponent,
+    JCalParameters,
+    JCalProperty,
+} from "./types.js";
+import { isBooleanValue, isNumberValue, isStringValue } from "../utils.js";
+import { isRecord } from "../validate/asserts.js";
+import {
+    PARAM_VALUE,
+    VALUE_BOOLEAN,
+    VALUE_DATE,
+    VALUE_DATE_TIME,
+    VALUE_FLOAT,
+    VALUE_INTEGER,
+    VALUE_PERIOD,
+    VALUE_RECUR,
+    VALUE_TEXT,
+    VALUE_TRUE,
+    VALUE_UNKNOWN,
+    VALUE_UTC_OFFSET,
+} from "./constants.js";
+import { createComponent, createProperty } from "./component.js";
+import { escapeText, splitValueList, unescapeText } from "./content-line.js";
+import { parseDateTimeValue } from "./datetime.js";
+import { ICalParseError } from "./error.js";
+import { buildCalendar } from "./export.js";
+import { importComponents } from "./import.js";
+import {
+    getValueType,
+    isListProperty,
+    isStructuredProperty,
+    PROPERTY_VALUE_TYPES,
+} from "./value-types.js";
+
+const VALUE_FALSE = "FALSE";
+const LIST_SEPARATOR = ",";
+const PERIOD_SEPARATOR = "/";
+const RULE_PART_SEPARATOR = ";";
+const RULE_ASSIGN = "=";
+const RECUR_FREQ = "freq";
+const RECUR_UNTIL = "until";
+const NUMERIC_RECUR_PARTS = new Set([
+    "count",
+    "interval",
+    "bysecond",
+    "byminute",
+    "byhour",
+    "bymonthday",
+    "byyearday",
+    "byweekno",
+    "bysetpos",
+    "bymonth",
+]);
+const STRUCTURE_SEPARATOR = ";";
+const STRUCTURE_SPLIT_PATTERN = /(?<!\\);/;
+const INTEGER_PATTERN = /^[+-]?\d+$/;
+const DURATION_PATTERN = /^[+-]?P/i;
+const JCAL_DATE_TIME_PATTERN =
+    /^\d{4}-\d{2}-\d{2}(?:T\d{2}:\d{2}:\d{2}(?:\.\d+)?Z?)?$/;
+const DATE_SEPARATOR_PATTERN = /[-:]/g;
+const FRACTION_PATTERN = /\.\d+/;
+const TEXT_OFFSET_PATTERN = /^([+-]\d{2})(\d{2})(\d{2})?$/;
+const JCAL_OFFSET_PATTERN = /^[+-]\d{2}:\d{2}(?::\d{2})?$/;
+const DATE_LENGTH = 10;
+const JCAL_COMPONENT_LENGTH = 3;
+const JCAL_PROPERTY_MIN_LENGTH = 4;
+
+/**
+ * Convert JSCalendar objects into a jCal (RFC 7265) vcalendar.
+ * The mapping is the one used by toICal; only the serialization differs.
+ * @param objects JSCalendar objects to export.
+ * @param options Export options.
+ * @return jCal vcalendar component.
+ */
+export function toJCal(
+    objects: JSCalendarObject[],
+    options: ICalOptions = {},
+): JCalComponent {
+    return componentToJCal(buildCalendar(objects, options));
+}
+
+/**
+ * Parse jCal (RFC 7265) into JSCalendar objects.
+ * @param input jCal vcalendar, an array of them, or their JSON text.
+ * @param options Import options.
+ * @return Imported Event, Task, and Group objects.
+ */
+export function fromJCal(
+    input: string | JsonValue,
+    options: ICalParseOptions = {},
+): JSCalendarObject[] {
+    const value = isStringValue(input) ? parseJson(input) : input;
+    if (!Array.isArray(value)) {
+        throw new ICalParseError("jCal input must be an array");
+    }
+    const components = isStringValue(value[0])
+        ? [jCalToComponent(value)]
+        : value.map(jCalToComponent);
+    return importComponents(components, options);
+}
+
+/**
+ * Convert a component tree into jCal.
+ * @param component iCalendar component.
+ * @return jCal component.
+ */
+export function componentToJCal(component: ICalComponent): JCalComponent {
+    return [
+        component.name.toLowerCase(),
+        component.properties.map(propertyToJCal),
+        component.components.map(componentToJCal),
+    ];
+}
+
+/**
+ * Convert a jCal component into a component tree.
+ * @param value jCal component.
+ * @return iCalendar component.
+ */
+export function jCalToComponent(value: JsonValue): ICalComponent {
+    if (!Array.isArray(value) || value.length !== JCAL_COMPONENT_LENGTH) {
+        throw new ICalParseError("invalid jCal component");
+    }
+    const [name, properties, components] = value;
+    if (
+        !isStringValue(name) ||
+        !Array.isArray(properties) ||
+        !Array.isArray(components)
+    ) {
+        throw new ICalParseError("invalid jCal component");
+    }
+    const component = createComponent(name.toUpperCase());
+    for (const property of properties) {
+        component.properties.push(jCalToProperty(property));
+    }
+    for (const child of components) {
+        component.components.push(jCalToComponent(child));
+    }
+    return component;
+}
+
+/**
+ * Convert a property into jCal.
+ * @param property iCalendar property.
+ * @return jCal property with its typed values.
+ */
+function propertyToJCal(property: ICalProperty): JCalProperty {
+    const type = getValueType(property);
+    const parameters: JCalParameters = {};
+    for (const [name, value] of Object.entries(property.parameters)) {
+        if (name === PARAM_VALUE) continue;
+        parameters[name.toLowerCase()] = value;
+    }
+    let values: JsonValue[];
+    if (isStructuredProperty(property.name)) {
+        values = [
+            property.value
+                .split(STRUCTURE_SPLIT_PATTERN)
+                .map((part) => valueToJCal(part, type)),
+        ];
+    } else if (isListProperty(property.name)) {
+        values = splitValueList(property.value).map((entry) =>
+            valueToJCal(entry, type),
+        );
+    } else {
+        values = [valueToJCal(property.value, type)];
+    }
+    return [
+        property.name.toLowerCase(),
+        parameters,
+        type.toLowerCase(),
+        ...values,
+    ];
+}
+
+/**
+ * Convert a jCal property into a property.
+ * @param value jCal property.
+ * @return iCalendar property; VALUE is set when the type is not the default.
+ */
+function jCalToProperty(value: JsonValue): ICalProperty {
+    if (!Array.isArray(value) || value.length < JCAL_PROPERTY_MIN_LENGTH) {
+        throw new ICalParseError("invalid jCal property");
+    }
+    const [name, jCalParameters, type, ...values] = value;
+    if (
+        !isStringValue(name) ||
+        !isRecord(jCalParameters) ||
+        !isStringValue(type)
+    ) {
+        throw new ICalParseError("invalid jCal property");
+    }
+    const propertyName = name.toUpperCase();
+    const valueType = type.toUpperCase();
+    const parameters: ICalParameters = {};
+    for (const [key, parameter] of Object.entries(jCalParameters)) {
+        if (isStringValue(parameter)) {
+            parameters[key.toUpperCase()] = parameter;
+        } else if (Array.isArray(parameter)) {
+            parameters[key.toUpperCase()] = parameter.map((entry) =>
+                scalarToText(entry, key),
+            );
+        } else {
+            throw new ICalParseError(`invalid jCal parameter: ${key}`);
+        }
+    }
+    const defaultType = PROPERTY_VALUE_TYPES[propertyName] ?? VALUE_UNKNOWN;
+    if (valueType !== defaultType && valueType !== VALUE_UNKNOWN) {
+        parameters[PARAM_VALUE] = valueType;
+    }
+
+    const [first] = values;
+    let text: string;
+    if (isStructuredProperty(propertyName) && first !== undefined) {
+        const parts = Array.isArray(first) ? first : [first];
+        text = parts
+            .map((part) => valueFromJCal(part, valueType))
+            .join(STRUCTURE_SEPARATOR);
+    } else {
+        text = values
+            .map((entry) => valueFromJCal(entry, valueType))
+            .join(LIST_SEPARATOR);
+    }
+    return createProperty(propertyName, text, parameters);
+}
+
+/**
+ * Convert one text value into its jCal form.
+ * @param value Value text as it appears in a content line.
+ * @param type Value type.
+ * @return jCal value.
+ */
+function valueToJCal(value: string, type: string): JsonValue {
+    if (type === VALUE_TEXT) return unescapeText(value);
+    if (type === VALUE_DATE || type === VALUE_DATE_TIME) {
+        return dateTimeToJCal(value);
+    }
+    if (type === VALUE_PERIOD) {
+        return value
+            .split(PERIOD_SEPARATOR)
+            .map((part) =>
+                DURATION_PATTERN.test(part) ? part : dateTimeToJCal(part),
+            )
+            .join(PERIOD_SEPARATOR);
+    }
+    if (type === VALUE_RECUR) return recurToJCal(value);
+    if (type === VALUE_INTEGER || type === VALUE_FLOAT) {
+        const number = Number(value);
+        if (
+            value.trim() === "" ||
+            !Number.isFinite(number) ||
+            (type === VALUE_INTEGER && !INTEGER_PATTERN.test(value.trim()))
+        ) {
+            throw new ICalParseError(`invalid ${type} value: ${value}`);
+        }
+        return number;
+    }
+    if (type === VALUE_BOOLEAN) return value.toUpperCase() === VALUE_TRUE;
+    if (type === VALUE_UTC_OFFSET) {
+        const match = TEXT_OFFSET_PATTERN.exec(value.trim());
+        if (!match) return value;
+        const seconds = match[3] ? `:${match[3]}` : "";
+        return `${match[1] ?? ""}:${match[2] ?? ""}${seconds}`;
+    }
+    return value;
+}
+
+/**
+ * Convert one jCal value into text for a content line.
+ * @param value jCal value.
+ * @param type Upper-case value type.
+ * @return Value text.
+ */
+function valueFromJCal(value: JsonValue, type: string): string {
+    if (type === VALUE_TEXT) return escapeText(scalarToText(value, type));
+    if (type === VALUE_DATE || type === VALUE_DATE_TIME) {
+        return dateTimeFromJCal(scalarToText(value, type));
+    }
+    if (type === VALUE_PERIOD) {
+        return scalarToText(value, type)
+            .split(PERIOD_SEPARATOR)
+            .map((part) =>
+                DURATION_PATTERN.test(part) ? part : dateTimeFromJCal(part),
+            )
+            .join(PERIOD_SEPARATOR);
+    }
+    if (type === VALUE_RECUR) {
+        if (!isRecord(value)) {
+            throw new ICalParseError("invalid jCal recur value");
+        }
+        return recurFromJCal(value);
+    }
+    if (type === VALUE_BOOLEAN && isBooleanValue(value)) {
+        return value ? VALUE_TRUE : VALUE_FALSE;
+    }
+    if (type === VALUE_UTC_OFFSET) {
+        const text = scalarToText(value, type);
+        if (!JCAL_OFFSET_PATTERN.test(text)) {
+            throw new ICalParseError(`invalid jCal utc-offset: ${text}`);
+        }
+        return text.replace(/:/g, "");
+    }
+    return scalarToText(value, type);
+}
+
+/**
+ * Convert a DATE or DATE-TIME value into jCal form.
+ * @param value Value such as "20260201" or "20260201T100000Z".
+ * @return Value such as "2026-02-01" or "2026-02-01T10:00:00Z".
+ */
+function dateTimeToJCal(value: string): string {
+    const parsed = parseDateTimeValue(value);
+    if (parsed.dateOnly) return parsed.value.slice(0, DATE_LENGTH);
+    return parsed.utc ? `${parsed.value}Z` : parsed.value;
+}
+
+/**
+ * Convert a jCal DATE or DATE-TIME value into text form.
+ * @param value Value such as "2026-02-01T10:00:00Z".
+ * @return Value such as "20260201T100000Z".
+ */
+function dateTimeFromJCal(value: string): string {
+    if (!JCAL_DATE_TIME_PATTERN.test(value)) {
+        throw new ICalParseError(`invalid jCal date-time: ${value}`);
+    }
+    return value
+        .replace(FRACTION_PATTERN, "")
+        .replace(DATE_SEPARATOR_PATTERN, "");
+}
+
+/**
+ * Convert an RRULE value into a jCal recur object.
+ * @param value RRULE value text.
+ * @return Recur object with lower-case keys, numeric parts as numbers, and
+ * multi-valued parts as arrays.
+ */
+function recurToJCal(value: string): JsonObject {
+    const result: JsonObject = {};
+    for (const part of value.split(RULE_PART_SEPARATOR)) {
+        if (!part) continue;
+        const assign = part.indexOf(RULE_ASSIGN);
+        if (assign < 0) {
+            throw new ICalParseError(`invalid RRULE part: ${part}`);
+        }
+        const key = part.slice(0, assign).toLowerCase();
+        const raw = part.slice(assign + 1);
+        if (key === RECUR_UNTIL) {
+            result[key] = dateTimeToJCal(raw);
+            continue;
+        }
+        const entries: JsonValue[] = raw
+            .split(LIST_SEPARATOR)
+            .map((entry) =>
+                NUMERIC_RECUR_PARTS.has(key) && INTEGER_PATTERN.test(entry)
+                    ? Number(entry)
+                    : entry,
+            );
+        const [single] = entries;
+        result[key] =
+            entries.length === 1 && single !== undefined ? single : entries;
+    }
+    return result;
+}
+
+/**
+ * Convert a jCal recur object into an RRULE value.
+ * @param value Recur object.
+ * @return RRULE value text with FREQ first.
+ */
+function recurFromJCal(value: Record<string, JsonValue>): string {
+    const keys = Object.keys(value).sort(
+        (a, b) => Number(b === RECUR_FREQ) - Number(a === RECUR_FREQ),
+    );
+    const parts: string[] = [];
+    for (const key of keys) {
+        const entry = value[key];
+        if (entry === undefined || entry === null) continue;
+        const entries = Array.isArray(entry) ? entry : [entry];
+        const text = entries
+            .map((item) =>
+                key === RECUR_UNTIL
+                    ? dateTimeFromJCal(scalarToText(item, key))
+                    : scalarToText(item, key),
+            )
+            .join(LIST_SEPARATOR);
+        parts.push(`${key.toUpperCase()}${RULE_ASSIGN}${text}`);
+    }
+    return parts.join(RULE_PART_SEPARATOR);
+}
+
+/**
+ * Read a string or number as text.
+ * @param value jCal value.
+ * @param context Name used in the error message.
+ * @return Text form of the value.
+ */
+function scalarToText(value: JsonValue | undefined, context: string): string {
+    if (isStringValue(value)) return value;
+    if (isNumberValue(value)) return `${value}`;
+    throw new ICalParseError(`invalid jCal value for ${context}`);
+}
+
+/**
+ * Parse jCal JSON text.
+ * @param text JSON text.
+ * @return Parsed JSON value.
+ */
+function parseJson(text: string): JsonValue {
+    try {
+        const value: JsonValue = JSON.parse(text);
+        return value;
+    } catch {
+        throw new ICalParseError("jCal input is not valid JSON");
+    }
+}
@@ -0,0 +1,231 @@
+import { ICalParseError } from "./error.js";
+
+const CRLF = "\r\n";
+const BASE64_ALPHABET =
+    "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+const BASE64_LINE_LENGTH = 76;
+const BASE64_PADDING = "=";
+const ASCII_PATTERN = /^[\x20-\x7e]*$/;
+const LINE_BREAK_PATTERN = /\r?\n/;
+const HEADER_BODY_PATTERN = /\r?\n\r?\n/;
+const FOLDED_LINE_PATTERN = /^[ \t]/;
+const QP_SOFT_BREAK_PATTERN = /=\r?\n/g;
+const QP_ESCAPE_PATTERN = /=([0-9A-Fa-f]{2})/;
+const PARAMETER_PATTERN = /;\s*([^=;\s]+)\s*=\s*("(?:[^"\\]|\\.)*"|[^;]*)/gy;
+const QUOTED_PAIR_PATTERN = /\\(.)/g;
+const ENCODING_BASE64 = "base64";
+const ENCODING_QUOTED_PRINTABLE = "quoted-printable";
+const DEFAULT_CHARSET = "utf-8";
+
+export type MimeHeader = {
+    value: string;
+    parameters: Record<string, string>;
+};
+
+export type MimeEntity = {
+    headers: Record<string, string>;
+    body: string;
+};
+
+/**
+ * Encode text as UTF-8 base64 wrapped at 76 characters.
+ * @param text Text to encode.
+ * @return Base64 lines joined with CRLF.
+ */
+export function encodeBase64(text: string): string {
+    const bytes = new TextEncoder().encode(text);
+    let output = "";
+    for (let i = 0; i < bytes.length; i += 3) {
+        const b0 = bytes[i] ?? 0;
+        const b1 = bytes[i + 1] ?? 0;
+        const b2 = bytes[i + 2] ?? 0;
+        const triplet = (b0 << 16) | (b1 << 8) | b2;
+        output += BASE64_ALPHABET[(triplet >> 18) & 0x3f] ?? "";
+        output += BASE64_ALPHABET[(triplet >> 12) & 0x3f] ?? "";
+        output +=
+            i + 1 < bytes.length
+                ? (BASE64_ALPHABET[(triplet >> 6) & 0x3f] ?? "")
+                : BASE64_PADDING;
+        output +=
+            i + 2 < bytes.length
+                ? (BASE64_ALPHABET[triplet & 0x3f] ?? "")
+                : BASE64_PADDING;
+    }
+    const lines: string[] = [];
+    for (let i = 0; i < output.length; i += BASE64_LINE_LENGTH) {
+        lines.push(output.slice(i, i + BASE64_LINE_LENGTH));
+    }
+    return lines.join(CRLF);
+}
+
+/**
+ * Encode a header value as an RFC 2047 encoded word when it is not ASCII.
+ * @param value Header text.
+ * @return Value unchanged, or a UTF-8 B encoded word.
+ */
+export function encodeHeaderValue(value: string): string {
+    if (ASCII_PATTERN.test(value)) return value;
+    return `=?UTF-8?B?${encodeBase64(value).replace(/\r\n/g, "")}?=`;
+}
+
+/**
+ * Split a raw MIME entity into unfolded headers and its body.
+ * @param raw Message or body part text.
+ * @return Headers keyed by lower-case name, and the raw body.
+ */
+export function parseMimeEntity(raw: string): MimeEntity {
+    const separator = HEADER_BODY_PATTERN.exec(raw);
+    const head = separator ? raw.slice(0, separator.index) : raw;
+    const body = separator
+        ? raw.slice(separator.index + separator[0].length)
+        : "";
+    const headers: Record<string, string> = {};
+    let current: string | undefined;
+    for (const line of head.split(LINE_BREAK_PATTERN)) {
+        if (FOLDED_LINE_PATTERN.test(line) && current) {
+            headers[current] = `${headers[current] ?? ""} ${line.trim()}`;
+            continue;
+        }
+        const colon = line.indexOf(":");
+        if (colon <= 0) continue;
+        current = line.slice(0, colon).trim().toLowerCase();
+        headers[current] = line.slice(colon + 1).trim();
+    }
+    return { headers, body };
+}
+
+/**
+ * Parse a structured header such as Content-Type into value and parameters.
+ * @param header Header value.
+ * @return Lower-case value and parameters keyed by lower-case name.
+ */
+export function parseMimeHeader(header: string): MimeHeader {
+    const semicolon = header.indexOf(";");
+    const value = (semicolon < 0 ? header : header.slice(0, semicolon))
+        .trim()
+        .toLowerCase();
+    const parameters: Record<string, string> = {};
+    if (semicolon < 0) return { value, parameters };
+    PARAMETER_PATTERN.lastIndex = semicolon;
+    for (let match = PARAMETER_PATTERN.exec(header); match; ) {
+        const name = (match[1] ?? "").toLowerCase();
+        const raw = (match[2] ?? "").trim();
+        parameters[name] = raw.startsWith('"')
+            ? raw.slice(1, -1).replace(QUOTED_PAIR_PATTERN, "$1")
+            : raw;
+        match = PARAMETER_PATTERN.exec(header);
+    }
+    return { value, parameters };
+}
+
+/**
+ * Split a multipart body into its body parts.
+ * @param body Multipart body.
+ * @param boundary Boundary from the Content-Type header.
+ * @return Raw body parts without the delimiter lines.
+ */
+export function splitMultipart(body: string, boundary: string): string[] {
+    const delimiter = `--${boundary}`;
+    const parts: string[] = [];
+    let current: string[] | undefined;
+    for (const line of body.split(LINE_BREAK_PATTERN)) {
+        if (line.trimEnd() === `${delimiter}--`) {
+            if (current) parts.push(current.join(CRLF));
+            return parts;
+        }
+        if (line.trimEnd() === delimiter) {
+            if (current) parts.push(current.join(CRLF));
+            current = [];
+            continue;
+        }
+        current?.push(line);
+    }
+    if (current) parts.push(current.join(CRLF));
+    return parts;
+}
+
+/**
+ * Decode a body according to its transfer encoding and charset.
+ * @param body Encoded body.
+ * @param encoding Content-Transfer-Encoding value.
+ * @param charset Charset parameter of the Content-Type.
+ * @return Decoded text.
+ */
+export function decodeMimeBody(
+    body: string,
+    encoding: string | undefined,
+    charset: string | undefined,
+): string {
+    const mode = encoding?.trim().toLowerCase();
+    if (mode === ENCODING_BASE64) {
+        return decodeBytes(decodeBase64(body), charset);
+    }
+    if (mode === ENCODING_QUOTED_PRINTABLE) {
+        return decodeBytes(decodeQuotedPrintable(body), charset);
+    }
+    return body;
+}
+
+/**
+ * Decode base64 text, ignoring whitespace.
+ * @param text Base64 text.
+ * @return Decoded bytes.
+ */
+function decodeBase64(text: string): Uint8Array {
+    const bytes: number[] = [];
+    let buffer = 0;
+    let bits = 0;
+    for (const char of text) {
+        if (char === BASE64_PADDING) break;
+        const value = BASE64_ALPHABET.indexOf(char);
+        if (value < 0) {
+            if (char.trim() === "") continue;
+            throw new ICalParseError(`invalid base64 character: ${char}`);
+        }
+        buffer = (buffer << 6) | value;
+        bits += 6;
+        if (bits >= 8) {
+            bits -= 8;
+            bytes.push((buffer >> bits) & 0xff);
+        }
+    }
+    return Uint8Array.from(bytes);
+}
+
+/**
+ * Decode quoted-printable text.
+ * @param text Quoted-printable text.
+ * @return Decoded bytes.
+ */
+function decodeQuotedPrintable(text: string): Uint8Array {
+    const source = text.replace(QP_SOFT_BREAK_PATTERN, "");
+    const encoder = new TextEncoder();
+    const bytes: number[] = [];
+    for (let index = 0; index < source.length; ) {
+        const escape = QP_ESCAPE_PATTERN.exec(source.slice(index, index + 3));
+        if (escape?.index === 0) {
+            bytes.push(Number.parseInt(escape[1] ?? "", 16));
+            index += 3;
+            continue;
+        }
+        const char = source.codePointAt(index) ?? 0;
+        const text = String.fromCodePoint(char);
+        bytes.push(...encoder.encode(text));
+        index += text.length;
+    }
+    return Uint8Array.from(bytes);
+}
+
+/**
+ * Decode bytes in a charset, falling back to UTF-8 for unknown labels.
+ * @param bytes Encoded bytes.
+ * @param charset Charset label.
+ * @return Decoded text.
+ */
+function decodeBytes(bytes: Uint8Array, charset: string | undefined): string {
+    try {
+        return new TextDecoder(charset ?? DEFAULT_CHARSET).decode(bytes);
+    } catch {
+        return new TextDecoder(DEFAULT_CHARSET).decode(bytes);
+    }
+}
@@ -0,0 +1,457 @@
+import type { Event, Id, Participant, Task } from "../types.js";
+import type { ICalComponent, ICalParameters, ICalProperty } from "./types.js";
+import { applyParticipantDefaults } from "../jscal/defaults.js";
+import {
+    COMPONENT_VTODO,
+    FORCE_SEND_REPLY,
+    FORCE_SEND_REQUEST,
+    MAILTO_PREFIX,
+    PARAM_CN,
+    PARAM_CUTYPE,
+    PARAM_DELEGATED_FROM,
+    PARAM_DELEGATED_TO,
+    PARAM_EMAIL,
+    PARAM_LANGUAGE,
+    PARAM_MEMBER,
+    PARAM_PARTSTAT,
+    PARAM_ROLE,
+    PARAM_RSVP,
+    PARAM_SCHEDULE_AGENT,
+    PARAM_SCHEDULE_FORCE_SEND,
+    PARAM_SCHEDULE_STATUS,
+    PARAM_SENT_BY,
+    PROP_ATTENDEE,
+    PROP_ORGANIZER,
+    ROLE_CHAIR,
+    ROLE_NON_PARTICIPANT,
+    ROLE_OPTIONAL,
+    ROLE_REQUIRED,
+    TYPE_TASK,
+    VALUE_TRUE,
+} from "./constants.js";
+import { createProperty, findProperties, findProperty } from "./component.js";
+import { getParameter, getParameterValues } from "./content-line.js";
+import { deriveId } from "./ids.js";
+
+const TYPE_PARTICIPANT = "Participant";
+const SEND_TO_IMIP = "imip";
+const SEND_TO_OTHER = "other";
+const ROLE_KEY_OWNER = "owner";
+const ROLE_KEY_ATTENDEE = "attendee";
+const ROLE_KEY_CHAIR = "chair";
+const ROLE_KEY_OPTIONAL = "optional";
+const ROLE_KEY_INFORMATIONAL = "informational";
+const ATTENDING_ROLES = [
+    ROLE_KEY_ATTENDEE,
+    ROLE_KEY_CHAIR,
+    ROLE_KEY_OPTIONAL,
+    ROLE_KEY_INFORMATIONAL,
+];
+const DEFAULT_SCHEDULE_AGENT = "server";
+const PARTICIPATION_ACCEPTED = "accepted";
+const TASK_PARTSTATS = new Set(["completed", "in-process"]);
+
+export type ImportedParticipants = {
+    participants?: Record<Id, Participant>;
+    replyTo?: Record<string, string>;
+};
+
+/**
+ * Build ORGANIZER and ATTENDEE properties for an Event or Task.
+ * @param object Event or Task with participants.
+ * @return ORGANIZER followed by ATTENDEE properties.
+ */
+export function buildParticipantProperties(
+    object: Event | Task,
+): ICalProperty[] {
+    const participants = object.participants ?? {};
+    const addresses = new Map<Id, string>();
+    for (const [id, participant] of Object.entries(participants)) {
+        const address = participantAddress(participant);
+        if (address) addresses.set(id, address);
+    }
+
+    const result: ICalProperty[] = [];
+    const ownerId = Object.keys(participants).find(
+        (id) => participants[id]?.roles[ROLE_KEY_OWNER] && addresses.has(id),
+    );
+    const owner = ownerId ? participants[ownerId] : undefined;
+    const organizer =
+        replyToAddress(object.replyTo) ??
+        (ownerId ? addresses.get(ownerId) : undefined);
+    if (organizer) {
+        result.push(
+            createProperty(
+                PROP_ORGANIZER,
+                organizer,
+                owner ? organizerParameters(owner, organizer) : {},
+            ),
+        );
+    }
+
+    for (const [id, participant] of Object.entries(participants)) {
+        const address = addresses.get(id);
+        if (!address) continue;
+        if (
+            participant.roles[ROLE_KEY_OWNER] &&
+            !ATTENDING_ROLES.some((role) => participant.roles[role])
+        ) {
+            continue;
+        }
+        result.push(
+            createProperty(
+                PROP_ATTENDEE,
+                address,
+                attendeeParameters(participant, address, addresses, object),
+            ),
+        );
+    }
+    return result;
+}
+
+/**
+ * Read ORGANIZER and ATTENDEE properties into JSCalendar participants.
+ * @param component VEVENT or VTODO component.
+ * @return Participants keyed by id and the organizer's replyTo map.
+ */
+export function readParticipants(
+    component: ICalComponent,
+): ImportedParticipants {
+    const organizer = findProperty(component, PROP_ORGANIZER);
+    const attendees = findProperties(component, PROP_ATTENDEE);
+    const ids = new Map<string, Id>();
+    for (const property of organizer ? [organizer, ...attendees] : attendees) {
+        assignParticipantId(ids, property.value);
+    }
+
+    const participants: Record<Id, Participant> = {};
+    const result: ImportedParticipants = {};
+    if (organizer) {
+        const id = assignParticipantId(ids, organizer.value);
+        const participant = readParticipant(organizer);
+        participant.roles = { [ROLE_KEY_OWNER]: true };
+        participants[id] = participant;
+        result.replyTo = sendToFor(organizer.value);
+    }
+
+    const isTask = component.name === COMPONENT_VTODO;
+    for (const property of attendees) {
+        const id = assignParticipantId(ids, property.value);
+        const participant = readParticipant(property);
+        participant.roles = {
+            ...participants[id]?.roles,
+            ...rolesFor(getParameter(property, PARAM_ROLE)),
+        };
+        const kind = getParameter(property, PARAM_CUTYPE);
+        if (kind) participant.kind = kind.toLowerCase();
+        const partstat = getParameter(property, PARAM_PARTSTAT)?.toLowerCase();
+        if (partstat && isTask && TASK_PARTSTATS.has(partstat)) {
+            participant.progress = partstat;
+            participant.participationStatus = PARTICIPATION_ACCEPTED;
+        } else if (partstat) {
+            participant.participationStatus = partstat;
+        }
+        if (getParameter(property, PARAM_RSVP)?.toUpperCase() === VALUE_TRUE) {
+            participant.expectReply = true;
+        }
+        const delegatedTo = readIdSet(property, PARAM_DELEGATED_TO, ids);
+        if (delegatedTo) participant.delegatedTo = delegatedTo;
+        const delegatedFrom = readIdSet(property, PARAM_DELEGATED_FROM, ids);
+        if (delegatedFrom) participant.delegatedFrom = delegatedFrom;
+        const memberOf = readIdSet(property, PARAM_MEMBER, ids);
+        if (memberOf) participant.memberOf = memberOf;
+        participants[id] = { ...participants[id], ...participant };
+    }
+
+    for (const participant of Object.values(participants)) {
+        applyParticipantDefaults(participant);
+    }
+    if (Object.keys(participants).length > 0) {
+        result.participants = participants;
+    }
+    return result;
+}
+
+/**
+ * Build parameters for the ORGANIZER property.
+ * @param owner Participant with the owner role.
+ * @param address Calendar address used as the ORGANIZER value.
+ * @return ORGANIZER parameters.
+ */
+function organizerParameters(
+    owner: Participant,
+    address: string,
+): ICalParameters {
+    const parameters: ICalParameters = {};
+    if (owner.name) parameters[PARAM_CN] = owner.name;
+    Object.assign(parameters, commonParameters(owner, address));
+    if (owner.scheduleForceSend) {
+        parameters[PARAM_SCHEDULE_FORCE_SEND] = FORCE_SEND_REPLY;
+    }
+    return parameters;
+}
+
+/**
+ * Build parameters for an ATTENDEE property.
+ * @param participant Participant to describe.
+ * @param address Calendar address of the participant.
+ * @param addresses Calendar addresses keyed by participant id.
+ * @param object Owning Event or Task.
+ * @return ATTENDEE parameters.
+ */
+function attendeeParameters(
+    participant: Participant,
+    address: string,
+    addresses: Map<Id, string>,
+    object: Event | Task,
+): ICalParameters {
+    const parameters: ICalParameters = {};
+    if (participant.name) parameters[PARAM_CN] = participant.name;
+    if (participant.kind) {
+        parameters[PARAM_CUTYPE] = participant.kind.toUpperCase();
+    }
+    parameters[PARAM_ROLE] = roleFor(participant);
+    const partstat = partstatFor(participant, object);
+    if (partstat) parameters[PARAM_PARTSTAT] = partstat.toUpperCase();
+    if (participant.expectReply) parameters[PARAM_RSVP] = VALUE_TRUE;
+
+    const delegatedTo = addressList(participant.delegatedTo, addresses);
+    if (delegatedTo.length > 0) parameters[PARAM_DELEGATED_TO] = delegatedTo;
+    const delegatedFrom = addressList(participant.delegatedFrom, addresses);
+    if (delegatedFrom.length > 0) {
+        parameters[PARAM_DELEGATED_FROM] = delegatedFrom;
+    }
+    const memberOf = addressList(participant.memberOf, addresses);
+    if (memberOf.length > 0) parameters[PARAM_MEMBER] = memberOf;
+
+    Object.assign(parameters, commonParameters(participant, address));
+    if (participant.scheduleForceSend) {
+        parameters[PARAM_SCHEDULE_FORCE_SEND] = FORCE_SEND_REQUEST;
+    }
+    return parameters;
+}
+
+/**
+ * Build parameters shared by ORGANIZER and ATTENDEE.
+ * @param participant Participant to describe.
+ * @param address Calendar address of the participant.
+ * @return Parameters for SENT-BY, EMAIL, LANGUAGE, and scheduling.
+ */
+function commonParameters(
+    participant: Participant,
+    address: string,
+): ICalParameters {
+    const parameters: ICalParameters = {};
+    if (participant.sentBy) {
+        parameters[PARAM_SENT_BY] = `${MAILTO_PREFIX}${participant.sentBy}`;
+    }
+    if (
+        participant.email &&
+        address.toLowerCase() !==
+            `${MAILTO_PREFIX}${participant.email}`.toLowerCase()
+    ) {
+        parameters[PARAM_EMAIL] = participant.email;
+    }
+    if (participant.language) {
+        parameters[PARAM_LANGUAGE] = participant.language;
+    }
+    if (
+        participant.scheduleAgent &&
+        participant.scheduleAgent !== DEFAULT_SCHEDULE_AGENT
+    ) {
+        parameters[PARAM_SCHEDULE_AGENT] =
+            participant.scheduleAgent.toUpperCase();
+    }
+    if (participant.scheduleStatus && participant.scheduleStatus.length > 0) {
+        parameters[PARAM_SCHEDULE_STATUS] = participant.scheduleStatus;
+    }
+    return parameters;
+}
+
+/**
+ * Pick the calendar address of a participant.
+ * @param participant Participant to address.
+ * @return imip address, another sendTo address, or a mailto from email.
+ */
+function participantAddress(participant: Participant): string | undefined {
+    const sendTo = participant.sendTo ?? {};
+    const address = sendTo[SEND_TO_IMIP] ?? Object.values(sendTo)[0];
+    if (address) return address;
+    return participant.email
+        ? `${MAILTO_PREFIX}${participant.email}`
+        : undefined;
+}
+
+/**
+ * Pick the organizer address from a replyTo map.
+ * @param replyTo replyTo map of the object.
+ * @return imip address or the first other address.
+ */
+function replyToAddress(
+    replyTo: Record<string, string> | undefined,
+): string | undefined {
+    if (!replyTo) return undefined;
+    return replyTo[SEND_TO_IMIP] ?? Object.values(replyTo)[0];
+}
+
+/**
+ * Map participant roles to an iCalendar ROLE value.
+ * @param participant Participant to describe.
+ * @return ROLE parameter value.
+ */
+function roleFor(participant: Participant): string {
+    const roles = participant.roles;
+    if (roles[ROLE_KEY_CHAIR]) return ROLE_CHAIR;
+    if (roles[ROLE_KEY_OPTIONAL]) return ROLE_OPTIONAL;
+    if (roles[ROLE_KEY_INFORMATIONAL]) return ROLE_NON_PARTICIPANT;
+    if (roles[ROLE_KEY_ATTENDEE]) return ROLE_REQUIRED;
+    return ROLE_NON_PARTICIPANT;
+}
+
+/**
+ * Map an iCalendar ROLE value to participant roles.
+ * @param role ROLE parameter value.
+ * @return Participant roles.
+ */
+function rolesFor(role: string | undefined): Record<string, true> {
+    switch (role?.toUpperCase()) {
+        case ROLE_CHAIR:
+            return { [ROLE_KEY_ATTENDEE]: true, [ROLE_KEY_CHAIR]: true };
+        case ROLE_OPTIONAL:
+            return { [ROLE_KEY_ATTENDEE]: true, [ROLE_KEY_OPTIONAL]: true };
+        case ROLE_NON_PARTICIPANT:
+            return { [ROLE_KEY_INFORMATIONAL]: true };
+        default:
+            return { [ROLE_KEY_ATTENDEE]: true };
+    }
+}
+
+/**
+ * Determine the PARTSTAT value for a participant.
+ * @param participant Participant to describe.
+ * @param object Owning Event or Task.
+ * @return Participation status, using task progress for VTODO.
+ */
+function partstatFor(
+    participant: Participant,
+    object: Event | Task,
+): string | undefined {
+    if (
+        object["@type"] === TYPE_TASK &&
+        participant.progress &&
+        TASK_PARTSTATS.has(participant.progress)
+    ) {
+        return participant.progress;
+    }
+    return participant.participationStatus;
+}
+
+/**
+ * Resolve participant ids to calendar addresses.
+ * @param ids Set of participant ids.
+ * @param addresses Calendar addresses keyed by participant id.
+ * @return Addresses for the ids that have one.
+ */
+function addressList(
+    ids: Record<Id, true> | undefined,
+    addresses: Map<Id, string>,
+): string[] {
+    if (!ids) return [];
+    const result: string[] = [];
+    for (const id of Object.keys(ids)) {
+        const address = addresses.get(id);
+        if (address) result.push(address);
+    }
+    return result;
+}
+
+/**
+ * Read properties shared by ORGANIZER and ATTENDEE into a participant.
+ * @param property ORGANIZER or ATTENDEE property.
+ * @return Participant without roles.
+ */
+function readParticipant(property: ICalProperty): Participant {
+    const participant: Participant = {
+        "@type": TYPE_PARTICIPANT,
+        roles: {},
+        sendTo: sendToFor(property.value),
+    };
+    const name = getParameter(property, PARAM_CN);
+    if (name) participant.name = name;
+    const email =
+        getParameter(property, PARAM_EMAIL) ?? mailtoAddress(property.value);
+    if (email) participant.email = email;
+    const sentBy = getParameter(property, PARAM_SENT_BY);
+    if (sentBy) participant.sentBy = mailtoAddress(sentBy) ?? sentBy;
+    const language = getParameter(property, PARAM_LANGUAGE);
+    if (language) participant.language = language;
+    const agent = getParameter(property, PARAM_SCHEDULE_AGENT);
+    if (agent) participant.scheduleAgent = agent.toLowerCase();
+    if (getParameter(property, PARAM_SCHEDULE_FORCE_SEND)) {
+        participant.scheduleForceSend = true;
+    }
+    const status = getParameterValues(property, PARAM_SCHEDULE_STATUS);
+    if (status.length > 0) participant.scheduleStatus = status;
+    return participant;
+}
+
+/**
+ * Read a parameter of calendar addresses as a set of participant ids.
+ * @param property ATTENDEE property.
+ * @param name Parameter name.
+ * @param ids Participant ids keyed by normalized address.
+ * @return Id set, or undefined when no address is known.
+ */
+function readIdSet(
+    property: ICalProperty,
+    name: string,
+    ids: Map<string, Id>,
+): Record<Id, true> | undefined {
+    const result: Record<Id, true> = {};
+    for (const address of getParameterValues(property, name)) {
+        const id = ids.get(address.toLowerCase());
+        if (id) result[id] = true;
+    }
+    return Object.keys(result).length > 0 ? result : undefined;
+}
+
+/**
+ * Get or create the participant id for a calendar address.
+ * @param ids Participant ids keyed by normalized address.
+ * @param address Calendar address.
+ * @return Stable id derived from the address.
+ */
+function assignParticipantId(ids: Map<string, Id>, address: string): Id {
+    const key = address.toLowerCase();
+    const existing = ids.get(key);
+    if (existing) return existing;
+    const id = deriveId(
+        mailtoAddress(address) ?? address,
+        new Set(ids.values()),
+        TYPE_PARTICIPANT.toLowerCase(),
+    );
+    ids.set(key, id);
+    return id;
+}
+
+/**
+ * Build a sendTo map for a calendar address.
+ * @param address Calendar address.
+ * @return sendTo map using imip for mailto addresses.
+ */
+function sendToFor(address: string): Record<string, string> {
+    if (mailtoAddress(address) !== undefined) {
+        return { [SEND_TO_IMIP]: address };
+    }
+    return { [SEND_TO_OTHER]: address };
+}
+
+/**
+ * Strip the mailto scheme from a calendar address.
+ * @param address Calendar address.
+ * @return Email address, or undefined for other schemes.
+ */
+function mailtoAddress(address: string): string | undefined {
+    if (!address.toLowerCase().startsWith(MAILTO_PREFIX)) return undefined;
+    return address.slice(MAILTO_PREFIX.length);
+}
@@ -0,0 +1,401 @@
+import type {
+    BooleanMap,
+    Event,
+    Id,
+    JSCalendarCommon,
+    Link,
+    Location,
+    Relation,
+    Task,
+    VirtualLocation,
+} from "../types.js";
+import type { ICalComponent, ICalParameters, ICalProperty } from "./types.js";
+import {
+    CLASS_CONFIDENTIAL,
+    CLASS_PRIVATE,
+    CLASS_PUBLIC,
+    PARAM_DISPLAY,
+    PARAM_FEATURE,
+    PARAM_FMTTYPE,
+    PARAM_LABEL,
+    PARAM_RELTYPE,
+    PARAM_SIZE,
+    PARAM_VALUE,
+    PROP_ATTACH,
+    PROP_CATEGORIES,
+    PROP_CLASS,
+    PROP_COLOR,
+    PROP_CONFERENCE,
+    PROP_GEO,
+    PROP_IMAGE,
+    PROP_LOCATION,
+    PROP_PRIORITY,
+    PROP_RELATED_TO,
+    PROP_TRANSP,
+    PROP_URL,
+    RELTYPE_PARENT,
+    TRANSP_TRANSPARENT,
+    TYPE_EVENT,
+    VALUE_BINARY,
+    VALUE_URI,
+} from "./constants.js";
+import { createProperty, findProperties, findProperty } from "./component.js";
+import {
+    escapeText,
+    getParameter,
+    getParameterValues,
+    splitValueList,
+    unescapeText,
+} from "./content-line.js";
+
+const TYPE_LOCATION = "Location";
+const TYPE_VIRTUAL_LOCATION = "VirtualLocation";
+const TYPE_LINK = "Link";
+const TYPE_RELATION = "Relation";
+const REL_DESCRIBED_BY = "describedby";
+const REL_ICON = "icon";
+const PRIVACY_PUBLIC = "public";
+const PRIVACY_PRIVATE = "private";
+const PRIVACY_SECRET = "secret";
+const FREE_BUSY_FREE = "free";
+const FREE_BUSY_BUSY = "busy";
+const GEO_PREFIX = "geo:";
+const GEO_URI_PATTERN = /^geo:([-+]?\d+(?:\.\d+)?),([-+]?\d+(?:\.\d+)?)/i;
+const GEO_VALUE_PATTERN = /^([-+]?\d+(?:\.\d+)?);([-+]?\d+(?:\.\d+)?)$/;
+const GEO_SEPARATOR = ";";
+const COORDINATE_SEPARATOR = ",";
+const VALUE_LIST_SEPARATOR = ",";
+
+export type DescriptiveProperties = Pick<
+    JSCalendarCommon,
+    | "locations"
+    | "virtualLocations"
+    | "links"
+    | "keywords"
+    | "privacy"
+    | "priority"
+    | "freeBusyStatus"
+    | "color"
+    | "relatedTo"
+>;
+
+/**
+ * Build the descriptive properties of an Event or Task: LOCATION, GEO,
+ * CONFERENCE, ATTACH/URL/IMAGE, CATEGORIES, CLASS, PRIORITY, TRANSP, COLOR,
+ * and RELATED-TO. Values equal to the iCalendar defaults are omitted.
+ * @param object Event or Task to export.
+ * @return Properties in that order.
+ */
+export function buildDescriptiveProperties(
+    object: Event | Task,
+): ICalProperty[] {
+    const result = buildLocationProperties(object.locations);
+    for (const virtualLocation of Object.values(
+        object.virtualLocations ?? {},
+    )) {
+        result.push(buildConference(virtualLocation));
+    }
+    for (const link of Object.values(object.links ?? {})) {
+        result.push(buildLink(link));
+    }
+
+    const keywords = Object.keys(object.keywords ?? {});
+    if (keywords.length > 0) {
+        result.push(
+            createProperty(
+                PROP_CATEGORIES,
+                keywords.map(escapeText).join(VALUE_LIST_SEPARATOR),
+            ),
+        );
+    }
+    if (object.privacy && object.privacy !== PRIVACY_PUBLIC) {
+        result.push(createProperty(PROP_CLASS, privacyToClass(object.privacy)));
+    }
+    if (object.priority) {
+        result.push(createProperty(PROP_PRIORITY, `${object.priority}`));
+    }
+    if (
+        object["@type"] === TYPE_EVENT &&
+        object.freeBusyStatus === FREE_BUSY_FREE
+    ) {
+        result.push(createProperty(PROP_TRANSP, TRANSP_TRANSPARENT));
+    }
+    if (object.color) {
+        result.push(createProperty(PROP_COLOR, escapeText(object.color)));
+    }
+    for (const [uid, relation] of Object.entries(object.relatedTo ?? {})) {
+        result.push(
+            createProperty(
+                PROP_RELATED_TO,
+                escapeText(uid),
+                relationParameters(relation),
+            ),
+        );
+    }
+    return result;
+}
+
+/**
+ * Read the descriptive properties of a VEVENT or VTODO component.
+ * @param component Source component.
+ * @return JSCalendar properties that are present in the component.
+ */
+export function readDescriptiveProperties(
+    component: ICalComponent,
+): DescriptiveProperties {
+    const result: DescriptiveProperties = {};
+    const location = readLocation(component);
+    if (location) result.locations = toIdMap([location]);
+
+    const virtualLocations = toIdMap(
+        findProperties(component, PROP_CONFERENCE).map(readConference),
+    );
+    if (virtualLocations) result.virtualLocations = virtualLocations;
+
+    const links: Link[] = [];
+    for (const property of component.properties) {
+        const link = readLink(property);
+        if (link) links.push(link);
+    }
+    const linkMap = toIdMap(links);
+    if (linkMap) result.links = linkMap;
+
+    const keywords: BooleanMap = {};
+    for (const property of findProperties(component, PROP_CATEGORIES)) {
+        for (const keyword of splitValueList(property.value)) {
+            const value = unescapeText(keyword).trim();
+            if (value) keywords[value] = true;
+        }
+    }
+    if (Object.keys(keywords).length > 0) result.keywords = keywords;
+
+    const privacy = findProperty(component, PROP_CLASS);
+    if (privacy) result.privacy = classToPrivacy(privacy.value);
+    const priority = findProperty(component, PROP_PRIORITY);
+    if (priority) {
+        const value = Number.parseInt(priority.value, 10);
+        if (Number.isFinite(value)) result.priority = value;
+    }
+    const transparency = findProperty(component, PROP_TRANSP);
+    if (transparency) {
+        result.freeBusyStatus =
+            transparency.value.toUpperCase() === TRANSP_TRANSPARENT
+                ? FREE_BUSY_FREE
+                : FREE_BUSY_BUSY;
+    }
+    const color = findProperty(component, PROP_COLOR);
+    if (color) result.color = unescapeText(color.value);
+
+    const relatedTo: Record<string, Relation> = {};
+    for (const property of findProperties(component, PROP_RELATED_TO)) {
+        const types = getParameterValues(property, PARAM_RELTYPE);
+        const relation: BooleanMap = {};
+        for (const type of types.length > 0 ? types : [RELTYPE_PARENT]) {
+            relation[type.toLowerCase()] = true;
+        }
+        relatedTo[unescapeText(property.value)] = {
+            "@type": TYPE_RELATION,
+            relation,
+        };
+    }
+    if (Object.keys(relatedTo).length > 0) result.relatedTo = relatedTo;
+    return result;
+}
+
+/**
+ * Build LOCATION and GEO from the locations of an object. iCalendar holds
+ * one of each, so the first named location and the first location with
+ * geo coordinates are used.
+ * @param locations Locations keyed by id.
+ * @return LOCATION and GEO properties when available.
+ */
+function buildLocationProperties(
+    locations: Record<Id, Location> | undefined,
+): ICalProperty[] {
+    const result: ICalProperty[] = [];
+    const values = Object.values(locations ?? {});
+    const named = values.find((location) => location.name);
+    if (named?.name) {
+        result.push(createProperty(PROP_LOCATION, escapeText(named.name)));
+    }
+    for (const location of values) {
+        const match = GEO_URI_PATTERN.exec(location.coordinates ?? "");
+        if (!match) continue;
+        result.push(
+            createProperty(
+                PROP_GEO,
+                `${match[1] ?? ""}${GEO_SEPARATOR}${match[2] ?? ""}`,
+            ),
+        );
+        break;
+    }
+    return result;
+}
+
+/**
+ * Read LOCATION and GEO into one Location.
+ * @param component Source component.
+ * @return Location, or undefined when neither property is present.
+ */
+function readLocation(component: ICalComponent): Location | undefined {
+    const name = findProperty(component, PROP_LOCATION);
+    const geo = findProperty(component, PROP_GEO);
+    const match = geo ? GEO_VALUE_PATTERN.exec(geo.value.trim()) : null;
+    if (!name && !match) return undefined;
+    const location: Location = { "@type": TYPE_LOCATION };
+    if (name) location.name = unescapeText(name.value);
+    if (match) {
+        location.coordinates = `${GEO_PREFIX}${match[1] ?? ""}${COORDINATE_SEPARATOR}${match[2] ?? ""}`;
+    }
+    return location;
+}
+
+/**
+ * Build a CONFERENCE property from a virtual location.
+ * @param virtualLocation Virtual location.
+ * @return CONFERENCE property with FEATURE and LABEL parameters.
+ */
+function buildConference(virtualLocation: VirtualLocation): ICalProperty {
+    const parameters: ICalParameters = { [PARAM_VALUE]: VALUE_URI };
+    const features = Object.keys(virtualLocation.features ?? {});
+    if (features.length > 0) {
+        parameters[PARAM_FEATURE] = features.map((feature) =>
+            feature.toUpperCase(),
+        );
+    }
+    if (virtualLocation.name) parameters[PARAM_LABEL] = virtualLocation.name;
+    return createProperty(PROP_CONFERENCE, virtualLocation.uri, parameters);
+}
+
+/**
+ * Read a CONFERENCE property as a virtual location.
+ * @param property CONFERENCE property.
+ * @return VirtualLocation object.
+ */
+function readConference(property: ICalProperty): VirtualLocation {
+    const virtualLocation: VirtualLocation = {
+        "@type": TYPE_VIRTUAL_LOCATION,
+        uri: property.value,
+    };
+    const label = getParameter(property, PARAM_LABEL);
+    if (label) virtualLocation.name = label;
+    const features = getParameterValues(property, PARAM_FEATURE);
+    if (features.length > 0) {
+        virtualLocation.features = {};
+        for (const feature of features) {
+            virtualLocation.features[feature.toLowerCase()] = true;
+        }
+    }
+    return virtualLocation;
+}
+
+/**
+ * Build the property for a link. Links with rel "describedby" become URL,
+ * icons and links with a display hint become IMAGE, and everything else
+ * becomes ATTACH.
+ * @param link Link object.
+ * @return URL, IMAGE, or ATTACH property.
+ */
+function buildLink(link: Link): ICalProperty {
+    if (link.rel === REL_DESCRIBED_BY) {
+        return createProperty(PROP_URL, link.href);
+    }
+    const parameters: ICalParameters = {};
+    const isImage = link.rel === REL_ICON || link.display !== undefined;
+    if (isImage) parameters[PARAM_VALUE] = VALUE_URI;
+    if (isImage && link.display) {
+        parameters[PARAM_DISPLAY] = link.display.toUpperCase();
+    }
+    if (link.contentType) parameters[PARAM_FMTTYPE] = link.contentType;
+    if (link.size !== undefined) parameters[PARAM_SIZE] = `${link.size}`;
+    if (link.title) parameters[PARAM_LABEL] = link.title;
+    return createProperty(
+        isImage ? PROP_IMAGE : PROP_ATTACH,
+        link.href,
+        parameters,
+    );
+}
+
+/**
+ * Read an ATTACH, URL, or IMAGE property as a link.
+ * @param property Property of the component.
+ * @return Link, or undefined for other properties and inline binaries.
+ */
+function readLink(property: ICalProperty): Link | undefined {
+    if (property.name === PROP_URL) {
+        return {
+            "@type": TYPE_LINK,
+            href: property.value,
+            rel: REL_DESCRIBED_BY,
+        };
+    }
+    if (property.name !== PROP_ATTACH && property.name !== PROP_IMAGE) {
+        return undefined;
+    }
+    if (getParameter(property, PARAM_VALUE)?.toUpperCase() === VALUE_BINARY) {
+        return undefined;
+    }
+    const link: Link = { "@type": TYPE_LINK, href: property.value };
+    if (property.name === PROP_IMAGE) {
+        link.rel = REL_ICON;
+        const display = getParameterValues(property, PARAM_DISPLAY);
+        if (display.length > 0) {
+            link.display = display.join(VALUE_LIST_SEPARATOR).toLowerCase();
+        }
+    }
+    const contentType = getParameter(property, PARAM_FMTTYPE);
+    if (contentType) link.contentType = contentType;
+    const size = Number.parseInt(getParameter(property, PARAM_SIZE) ?? "", 10);
+    if (Number.isFinite(size)) link.size = size;
+    const title = getParameter(property, PARAM_LABEL);
+    if (title) link.title = title;
+    return link;
+}
+
+/**
+ * Build RELATED-TO parameters for a relation.
+ * @param relation Relation to the referenced object.
+ * @return RELTYPE parameters, or none for relations without types.
+ */
+function relationParameters(relation: Relation): ICalParameters {
+    const types = Object.keys(relation.relation ?? {});
+    if (types.length === 0) return {};
+    return { [PARAM_RELTYPE]: types.map((type) => type.toUpperCase()) };
+}
+
+/**
+ * Map a JSCalendar privacy value to CLASS.
+ * @param privacy Privacy value.
+ * @return CLASS value; unknown values are upper-cased.
+ */
+function privacyToClass(privacy: string): string {
+    if (privacy === PRIVACY_PRIVATE) return CLASS_PRIVATE;
+    if (privacy === PRIVACY_SECRET) return CLASS_CONFIDENTIAL;
+    if (privacy === PRIVACY_PUBLIC) return CLASS_PUBLIC;
+    return privacy.toUpperCase();
+}
+
+/**
+ * Map a CLASS value to JSCalendar privacy.
+ * @param value CLASS value.
+ * @return Privacy value; unknown values are lower-cased.
+ */
+function classToPrivacy(value: string): string {
+    const upper = value.toUpperCase();
+    if (upper === CLASS_CONFIDENTIAL) return PRIVACY_SECRET;
+    return upper.toLowerCase();
+}
+
+/**
+ * Key a list of values by sequential ids.
+ * @param values Values in document order.
+ * @return Values keyed "1", "2", ..., or undefined when the list is empty.
+ */
+function toIdMap<T>(values: T[]): Record<Id, T> | undefined {
+    if (values.length === 0) return undefined;
+    const result: Record<Id, T> = {};
+    values.forEach((value, index) => {
+        result[`${index + 1}`] = value;
+    });
+    return result;
+}
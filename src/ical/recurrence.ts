@@ -0,0 +1,169 @@
+import type { Event, PatchLike, RecurrenceRule, Task } from "../types.js";
+import type { ICalProperty } from "./types.js";
+import { buildInstance } from "../recurrence/expand.js";
+import { expandRule } from "../recurrence/rules.js";
+import {
+    PROP_EXDATE,
+    PROP_EXRULE,
+    PROP_RDATE,
+    PROP_RRULE,
+    TYPE_EVENT,
+    TYPE_TASK,
+} from "./constants.js";
+import { createProperty } from "./component.js";
+import { localDateTimeProperty } from "./datetime.js";
+import { recurrenceRuleToRRule } from "./rrule.js";
+
+/**
+ * Build RRULE, EXRULE, RDATE, and EXDATE properties for an object.
+ * @param object Event or Task to export.
+ * @return Recurrence properties in that order.
+ */
+export function buildRecurrenceProperties(
+    object: Event | Task,
+): ICalProperty[] {
+    const result: ICalProperty[] = [];
+    result.push(
+        ...buildRuleProperties(PROP_RRULE, object.recurrenceRules, object),
+    );
+    result.push(
+        ...buildRuleProperties(
+            PROP_EXRULE,
+            object.excludedRecurrenceRules,
+            object,
+        ),
+    );
+
+    const anchor = getAnchor(object);
+    const added: string[] = [];
+    const excluded: string[] = [];
+    for (const [key, patch] of overrideEntries(object)) {
+        if (isExcludedPatch(patch)) {
+            excluded.push(key);
+        } else if (!anchor || !isRuleOccurrence(object, anchor, key)) {
+            added.push(key);
+        }
+    }
+    if (added.length > 0) {
+        result.push(
+            localDateTimeProperty(
+                PROP_RDATE,
+                added,
+                object.timeZone,
+                object.showWithoutTime,
+            ),
+        );
+    }
+    if (excluded.length > 0) {
+        result.push(
+            localDateTimeProperty(
+                PROP_EXDATE,
+                excluded,
+                object.timeZone,
+                object.showWithoutTime,
+            ),
+        );
+    }
+    return result;
+}
+
+/**
+ * Build the instance objects for overrides that patch an occurrence.
+ * @param object Master Event or Task.
+ * @return Instances carrying recurrenceId and recurrenceIdTimeZone.
+ */
+export function buildOverrideInstances(
+    object: Event | Task,
+): Array<Event | Task> {
+    const result: Array<Event | Task> = [];
+    for (const [key, patch] of overrideEntries(object)) {
+        if (isExcludedPatch(patch) || Object.keys(patch).length === 0) {
+            continue;
+        }
+        const instance = buildInstance(
+            object,
+            key,
+            object.timeZone ?? null,
+            patch,
+        );
+        if (
+            instance &&
+            (instance["@type"] === TYPE_EVENT ||
+                instance["@type"] === TYPE_TASK)
+        ) {
+            result.push(instance);
+        }
+    }
+    return result;
+}
+
+/**
+ * Build RRULE or EXRULE properties.
+ * @param name Property name.
+ * @param rules Recurrence rules.
+ * @param object Owning Event or Task, which decides the UNTIL form.
+ * @return Rule properties.
+ */
+function buildRuleProperties(
+    name: string,
+    rules: RecurrenceRule[] | undefined,
+    object: Event | Task,
+): ICalProperty[] {
+    const result: ICalProperty[] = [];
+    for (const rule of rules ?? []) {
+        const value = recurrenceRuleToRRule(rule, {
+            timeZone: object.timeZone,
+            timeZones: object.timeZones,
+            showWithoutTime: object.showWithoutTime,
+        });
+        if (value) result.push(createProperty(name, value));
+    }
+    return result;
+}
+
+/**
+ * List recurrence overrides as key/patch pairs.
+ * @param object Event or Task.
+ * @return Override entries in insertion order.
+ */
+function overrideEntries(object: Event | Task): Array<[string, PatchLike]> {
+    return Object.entries(object.recurrenceOverrides ?? {});
+}
+
+/**
+ * Check whether an override patch excludes its occurrence.
+ * @param patch Override patch.
+ * @return True when the patch sets excluded to true.
+ */
+function isExcludedPatch(patch: PatchLike): boolean {
+    return patch.excluded === true;
+}
+
+/**
+ * Get the recurrence anchor of an object.
+ * @param object Event or Task.
+ * @return Start, or due for tasks without a start.
+ */
+function getAnchor(object: Event | Task): string | undefined {
+    if (object["@type"] === TYPE_EVENT) return object.start;
+    return object.start ?? object.due;
+}
+
+/**
+ * Check whether a recurrence id is generated by the object's rules.
+ * @param object Event or Task.
+ * @param anchor Recurrence anchor.
+ * @param key Override recurrence id.
+ * @return True when the anchor or a rule produces the key.
+ */
+function isRuleOccurrence(
+    object: Event | Task,
+    anchor: string,
+    key: string,
+): boolean {
+    if (key === anchor) return true;
+    const rules = object.recurrenceRules ?? [];
+    return rules.some((rule) =>
+        expandRule(anchor, rule, key, key, true).includes(key),
+    );
+}
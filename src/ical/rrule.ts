@@ -0,0 +1,291 @@
+import type {
+    CalendarTimeZoneId,
+    DayOfWeek,
+    NDay,
+    RecurrenceRule,
+} from "../types.js";
+import type { TimeZoneDefinitions } from "../timezones/resolver.js";
+import { dateTimeInTimeZone, localDateTimeToUtcDate } from "../utils.js";
+import { RSCALE_GREGORIAN, SKIP_OMIT } from "../recurrence/constants.js";
+import {
+    formatLocalDate,
+    formatLocalDateTime,
+    formatUtcDateTime,
+    parseDateTimeValue,
+} from "./datetime.js";
+import { ICalParseError } from "./error.js";
+
+const RULE_PART_SEPARATOR = ";";
+const RULE_ASSIGN = "=";
+const RULE_LIST_SEPARATOR = ",";
+const FREQUENCIES: Array<RecurrenceRule["frequency"]> = [
+    "yearly",
+    "monthly",
+    "weekly",
+    "daily",
+    "hourly",
+    "minutely",
+    "secondly",
+];
+const DAYS: DayOfWeek[] = ["mo", "tu", "we", "th", "fr", "sa", "su"];
+const SKIPS: Array<NonNullable<RecurrenceRule["skip"]>> = [
+    "omit",
+    "backward",
+    "forward",
+];
+
+export type RRuleContext = {
+    timeZone?: CalendarTimeZoneId | null;
+    timeZones?: TimeZoneDefinitions;
+    showWithoutTime?: boolean;
+};
+
+/**
+ * Convert a RecurrenceRule to an RRULE string.
+ * @param rule Recurrence rule.
+ * @param context Time zone, custom time zone definitions, and all-day flag
+ * of the owning object, which decide whether UNTIL is written as DATE, UTC
+ * DATE-TIME, or floating.
+ * @return RRULE value or null.
+ */
+export function recurrenceRuleToRRule(
+    rule: RecurrenceRule,
+    context: RRuleContext = {},
+): string | null {
+    const parts: string[] = [];
+    parts.push(`FREQ=${rule.frequency.toUpperCase()}`);
+    if (rule.interval) parts.push(`INTERVAL=${rule.interval}`);
+    if (rule.count) parts.push(`COUNT=${rule.count}`);
+    if (rule.until) parts.push(`UNTIL=${formatUntil(rule.until, context)}`);
+    if (rule.byDay?.length) {
+        const days = rule.byDay
+            .map((day) => `${day.nthOfPeriod ?? ""}${day.day.toUpperCase()}`)
+            .join(",");
+        parts.push(`BYDAY=${days}`);
+    }
+    if (rule.byMonthDay?.length)
+        parts.push(`BYMONTHDAY=${rule.byMonthDay.join(",")}`);
+    if (rule.byMonth?.length) parts.push(`BYMONTH=${rule.byMonth.join(",")}`);
+    if (rule.byYearDay?.length)
+        parts.push(`BYYEARDAY=${rule.byYearDay.join(",")}`);
+    if (rule.byWeekNo?.length)
+        parts.push(`BYWEEKNO=${rule.byWeekNo.join(",")}`);
+    if (rule.byHour?.length) parts.push(`BYHOUR=${rule.byHour.join(",")}`);
+    if (rule.byMinute?.length)
+        parts.push(`BYMINUTE=${rule.byMinute.join(",")}`);
+    if (rule.bySecond?.length)
+        parts.push(`BYSECOND=${rule.bySecond.join(",")}`);
+    if (rule.bySetPosition?.length)
+        parts.push(`BYSETPOS=${rule.bySetPosition.join(",")}`);
+    if (rule.firstDayOfWeek)
+        parts.push(`WKST=${rule.firstDayOfWeek.toUpperCase()}`);
+    const rscale = rule.rscale ?? RSCALE_GREGORIAN;
+    const skip = rule.skip ?? SKIP_OMIT;
+    // RFC 7529 only allows SKIP together with RSCALE, and both default to
+    // the values a plain RFC 5545 rule already implies.
+    if (rscale !== RSCALE_GREGORIAN || skip !== SKIP_OMIT) {
+        parts.push(`RSCALE=${rscale.toUpperCase()}`);
+    }
+    if (skip !== SKIP_OMIT) parts.push(`SKIP=${skip.toUpperCase()}`);
+    return parts.join(";");
+}
+
+/**
+ * Format an UNTIL value for the owning object's DTSTART form.
+ * @param until LocalDateTime in the object's time zone.
+ * @param context Time zone and all-day flag of the owning object.
+ * @return DATE for all-day objects, UTC DATE-TIME for zoned objects, and
+ * floating DATE-TIME otherwise.
+ */
+function formatUntil(until: string, context: RRuleContext): string {
+    if (context.showWithoutTime) return formatLocalDate(until);
+    if (!context.timeZone) return formatLocalDateTime(until);
+    return formatUtcDateTime(
+        localDateTimeToUtcDate(
+            until,
+            context.timeZone,
+            context.timeZones,
+        ).toISOString(),
+    );
+}
+
+/**
+ * Parse an RRULE/EXRULE value into a RecurrenceRule.
+ * @param value RRULE value text.
+ * @param timeZone Time zone of the owning object, used for UTC UNTIL values.
+ * @param timeZones Custom time zone definitions of the owning object.
+ * @return Recurrence rule.
+ */
+export function rruleToRecurrenceRule(
+    value: string,
+    timeZone?: string | null,
+    timeZones?: TimeZoneDefinitions,
+): RecurrenceRule {
+    const parts = new Map<string, string>();
+    for (const part of value.split(RULE_PART_SEPARATOR)) {
+        if (!part) continue;
+        const assign = part.indexOf(RULE_ASSIGN);
+        if (assign < 0) {
+            throw new ICalParseError(`invalid RRULE part: ${part}`);
+        }
+        parts.set(part.slice(0, assign).toUpperCase(), part.slice(assign + 1));
+    }
+
+    const frequency = parts.get("FREQ")?.toLowerCase();
+    if (!frequency || !isFrequency(frequency)) {
+        throw new ICalParseError(`invalid RRULE frequency: ${value}`);
+    }
+    const rule: RecurrenceRule = { "@type": "RecurrenceRule", frequency };
+
+    const interval = parts.get("INTERVAL");
+    if (interval !== undefined) rule.interval = parseInteger(interval);
+    const count = parts.get("COUNT");
+    if (count !== undefined) rule.count = parseInteger(count);
+    const until = parts.get("UNTIL");
+    if (until !== undefined) {
+        rule.until = parseUntil(until, timeZone, timeZones);
+    }
+
+    const byDay = parts.get("BYDAY");
+    if (byDay) rule.byDay = splitList(byDay).map(parseNDay);
+    const byMonthDay = parts.get("BYMONTHDAY");
+    if (byMonthDay) rule.byMonthDay = parseIntegerList(byMonthDay);
+    const byMonth = parts.get("BYMONTH");
+    if (byMonth) rule.byMonth = splitList(byMonth);
+    const byYearDay = parts.get("BYYEARDAY");
+    if (byYearDay) rule.byYearDay = parseIntegerList(byYearDay);
+    const byWeekNo = parts.get("BYWEEKNO");
+    if (byWeekNo) rule.byWeekNo = parseIntegerList(byWeekNo);
+    const byHour = parts.get("BYHOUR");
+    if (byHour) rule.byHour = parseIntegerList(byHour);
+    const byMinute = parts.get("BYMINUTE");
+    if (byMinute) rule.byMinute = parseIntegerList(byMinute);
+    const bySecond = parts.get("BYSECOND");
+    if (bySecond) rule.bySecond = parseIntegerList(bySecond);
+    const bySetPosition = parts.get("BYSETPOS");
+    if (bySetPosition) rule.bySetPosition = parseIntegerList(bySetPosition);
+
+    const firstDayOfWeek = parts.get("WKST")?.toLowerCase();
+    if (firstDayOfWeek) {
+        if (!isDayOfWeek(firstDayOfWeek)) {
+            throw new ICalParseError(`invalid RRULE WKST: ${firstDayOfWeek}`);
+        }
+        rule.firstDayOfWeek = firstDayOfWeek;
+    }
+    const rscale = parts.get("RSCALE");
+    if (rscale) rule.rscale = rscale.toLowerCase();
+    const skip = parts.get("SKIP")?.toLowerCase();
+    if (skip) {
+        if (!isSkip(skip)) {
+            throw new ICalParseError(`invalid RRULE SKIP: ${skip}`);
+        }
+        rule.skip = skip;
+    }
+    return rule;
+}
+
+/**
+ * Parse an UNTIL value into a LocalDateTime in the object's time zone.
+ * @param value UNTIL value text.
+ * @param timeZone Time zone of the owning object.
+ * @param timeZones Custom time zone definitions of the owning object.
+ * @return LocalDateTime string.
+ */
+function parseUntil(
+    value: string,
+    timeZone?: string | null,
+    timeZones?: TimeZoneDefinitions,
+): string {
+    const parsed = parseDateTimeValue(value);
+    if (!parsed.utc || !timeZone) return parsed.value;
+    return dateTimeInTimeZone(
+        new Date(`${parsed.value}Z`),
+        timeZone,
+        timeZones,
+    );
+}
+
+/**
+ * Parse a BYDAY entry such as "MO" or "-1FR".
+ * @param value BYDAY entry.
+ * @return NDay object.
+ */
+function parseNDay(value: string): NDay {
+    const match = /^([+-]?\d{1,2})?([A-Za-z]{2})$/.exec(value.trim());
+    const day = match?.[2]?.toLowerCase();
+    if (!match || !day || !isDayOfWeek(day)) {
+        throw new ICalParseError(`invalid RRULE BYDAY: ${value}`);
+    }
+    const nday: NDay = { "@type": "NDay", day };
+    if (match[1] !== undefined) nday.nthOfPeriod = Number(match[1]);
+    return nday;
+}
+
+/**
+ * Split an RRULE list value.
+ * @param value Comma-separated list.
+ * @return Trimmed non-empty entries.
+ */
+function splitList(value: string): string[] {
+    return value
+        .split(RULE_LIST_SEPARATOR)
+        .map((entry) => entry.trim())
+        .filter((entry) => entry.length > 0);
+}
+
+/**
+ * Parse a comma-separated integer list.
+ * @param value Comma-separated list.
+ * @return Integers.
+ */
+function parseIntegerList(value: string): number[] {
+    return splitList(value).map(parseInteger);
+}
+
+/**
+ * Parse a signed integer value.
+ * @param value Integer text.
+ * @return Parsed integer.
+ */
+function parseInteger(value: string): number {
+    if (!/^[+-]?\d+$/.test(value.trim())) {
+        throw new ICalParseError(`invalid RRULE integer: ${value}`);
+    }
+    return Number(value);
+}
+
+/**
+ * Check whether a value is a recurrence frequency.
+ * @param value Lower-cased frequency.
+ * @return True when supported.
+ */
+function isFrequency(value: string): value is RecurrenceRule["frequency"] {
+    for (const frequency of FREQUENCIES) {
+        if (frequency === value) return true;
+    }
+    return false;
+}
+
+/**
+ * Check whether a value is a day-of-week code.
+ * @param value Lower-cased day code.
+ * @return True when valid.
+ */
+function isDayOfWeek(value: string): value is DayOfWeek {
+    for (const day of DAYS) {
+        if (day === value) return true;
+    }
+    return false;
+}
+
+/**
+ * Check whether a value is a skip policy.
+ * @param value Lower-cased skip value.
+ * @return True when valid.
+ */
+function isSkip(value: string): value is NonNullable<RecurrenceRule["skip"]> {
+    for (const skip of SKIPS) {
+        if (skip === value) return true;
+    }
+    return false;
+}
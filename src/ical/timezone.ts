@@ -0,0 +1,447 @@
+import type {
+    JSCalendarObject,
+    LocalDateTime,
+    TimeZone,
+    TimeZoneId,
+    TimeZoneRule,
+} from "../types.js";
+import type { ICalComponent, ICalProperty } from "./types.js";
+import { findTimeZone } from "../timezones.js";
+import { iterateRule } from "../recurrence/rules.js";
+import {
+    localDateTimeMilliseconds,
+    parseUtcOffset,
+    synthesizeTimeZone,
+} from "../timezones/transitions.js";
+import { localDateTimeToUtcDate } from "../utils.js";
+import {
+    COMPONENT_DAYLIGHT,
+    COMPONENT_STANDARD,
+    COMPONENT_VTIMEZONE,
+    PARAM_TZID,
+    PARAM_VALUE,
+    PROP_COMMENT,
+    PROP_DTSTART,
+    PROP_LAST_MODIFIED,
+    PROP_RDATE,
+    PROP_RRULE,
+    PROP_TZID,
+    PROP_TZNAME,
+    PROP_TZOFFSETFROM,
+    PROP_TZOFFSETTO,
+    PROP_TZUNTIL,
+    PROP_TZURL,
+    TYPE_GROUP,
+    VALUE_PERIOD,
+} from "./constants.js";
+import {
+    createComponent,
+    createProperty,
+    findProperties,
+    findProperty,
+} from "./component.js";
+import {
+    escapeText,
+    getParameter,
+    splitValueList,
+    unescapeText,
+} from "./content-line.js";
+import {
+    formatLocalDateTime,
+    formatUtcDateTime,
+    parseDateTimeValue,
+    parseUtcDateTime,
+} from "./datetime.js";
+import { ICalParseError } from "./error.js";
+import { recurrenceRuleToRRule, rruleToRecurrenceRule } from "./rrule.js";
+
+const PERIOD_SEPARATOR = "/";
+const VALUE_LIST_SEPARATOR = ",";
+const UNTIL_PART = "UNTIL=";
+const RULE_PART_SEPARATOR = ";";
+const SECOND_MS = 1000;
+const YEAR_MS = 366 * 24 * 60 * 60 * SECOND_MS;
+const UNTIL_PATTERN = /(?:^|;)UNTIL=([^;]+)/i;
+
+type ZoneSpan = {
+    from: Date;
+    to: Date;
+};
+
+/**
+ * Build VTIMEZONE components for every TZID referenced by a calendar.
+ * Definitions come from the objects' timeZones maps when present and are
+ * otherwise synthesized from the IANA zone over the referenced span.
+ * @param calendar VCALENDAR component with its VEVENT/VTODO children.
+ * @param objects JSCalendar objects the calendar was built from.
+ * @return VTIMEZONE components in order of first reference.
+ */
+export function buildTimeZoneComponents(
+    calendar: ICalComponent,
+    objects: JSCalendarObject[],
+): ICalComponent[] {
+    const definitions = collectDefinitions(objects);
+    const spans = new Map<string, ZoneSpan | null>();
+    collectSpans(calendar, spans);
+
+    const result: ICalComponent[] = [];
+    for (const [tzId, span] of spans) {
+        const custom = definitions.get(tzId);
+        if (custom) {
+            result.push(timeZoneToComponent(tzId, custom));
+            continue;
+        }
+        const timeZone = findTimeZone(tzId);
+        if (!timeZone || !span) continue;
+        result.push(
+            timeZoneToComponent(
+                tzId,
+                synthesizeTimeZone(timeZone, span.from, span.to),
+            ),
+        );
+    }
+    return result;
+}
+
+/**
+ * Convert a JSCalendar TimeZone into a VTIMEZONE component.
+ * @param tzId TZID to publish the definition under.
+ * @param zone TimeZone object.
+ * @return VTIMEZONE component.
+ */
+export function timeZoneToComponent(
+    tzId: string,
+    zone: TimeZone,
+): ICalComponent {
+    const component = createComponent(COMPONENT_VTIMEZONE);
+    const properties = component.properties;
+    properties.push(createProperty(PROP_TZID, tzId));
+    if (zone.updated) {
+        properties.push(
+            createProperty(PROP_LAST_MODIFIED, formatUtcDateTime(zone.updated)),
+        );
+    }
+    if (zone.url) properties.push(createProperty(PROP_TZURL, zone.url));
+    if (zone.validUntil) {
+        properties.push(
+            createProperty(PROP_TZUNTIL, formatUtcDateTime(zone.validUntil)),
+        );
+    }
+    for (const rule of zone.standard ?? []) {
+        component.components.push(ruleToComponent(COMPONENT_STANDARD, rule));
+    }
+    for (const rule of zone.daylight ?? []) {
+        component.components.push(ruleToComponent(COMPONENT_DAYLIGHT, rule));
+    }
+    return component;
+}
+
+/**
+ * Convert a VTIMEZONE component into a JSCalendar TimeZone.
+ * @param component VTIMEZONE component.
+ * @param tzId Time zone id to publish the definition under.
+ * @return TimeZone object.
+ */
+export function componentToTimeZone(
+    component: ICalComponent,
+    tzId: string,
+): TimeZone {
+    const zone: TimeZone = { "@type": "TimeZone", tzId };
+    const updated = findProperty(component, PROP_LAST_MODIFIED);
+    if (updated) zone.updated = parseUtcDateTime(updated.value);
+    const url = findProperty(component, PROP_TZURL);
+    if (url) zone.url = url.value;
+    const validUntil = findProperty(component, PROP_TZUNTIL);
+    if (validUntil) zone.validUntil = parseUtcDateTime(validUntil.value);
+    for (const child of component.components) {
+        if (child.name === COMPONENT_STANDARD) {
+            zone.standard = [...(zone.standard ?? []), componentToRule(child)];
+        } else if (child.name === COMPONENT_DAYLIGHT) {
+            zone.daylight = [...(zone.daylight ?? []), componentToRule(child)];
+        }
+    }
+    return zone;
+}
+
+/**
+ * Convert a STANDARD or DAYLIGHT component into a TimeZoneRule.
+ * @param component Observance component.
+ * @return TimeZoneRule object.
+ */
+function componentToRule(component: ICalComponent): TimeZoneRule {
+    const dtStart = findProperty(component, PROP_DTSTART);
+    const offsetFrom = findProperty(component, PROP_TZOFFSETFROM);
+    const offsetTo = findProperty(component, PROP_TZOFFSETTO);
+    if (!dtStart || !offsetFrom || !offsetTo) {
+        throw new ICalParseError(
+            `${component.name} needs DTSTART, TZOFFSETFROM and TZOFFSETTO`,
+        );
+    }
+    const rule: TimeZoneRule = {
+        "@type": "TimeZoneRule",
+        start: parseDateTimeValue(dtStart.value).value,
+        offsetFrom: readOffset(offsetFrom),
+        offsetTo: readOffset(offsetTo),
+    };
+    const rules = findProperties(component, PROP_RRULE).map((property) => {
+        const recurrence = rruleToRecurrenceRule(property.value);
+        const until = UNTIL_PATTERN.exec(property.value)?.[1];
+        if (until && parseDateTimeValue(until).utc) {
+            recurrence.until = untilFromUtc(until, rule.offsetFrom);
+        }
+        return recurrence;
+    });
+    if (rules.length > 0) rule.recurrenceRules = rules;
+    for (const property of findProperties(component, PROP_RDATE)) {
+        const isPeriod = getParameter(property, PARAM_VALUE) === VALUE_PERIOD;
+        for (const entry of splitValueList(property.value)) {
+            const value = isPeriod
+                ? (entry.split(PERIOD_SEPARATOR)[0] ?? entry)
+                : entry;
+            rule.recurrenceOverrides = {
+                ...rule.recurrenceOverrides,
+                [parseDateTimeValue(value).value]: {},
+            };
+        }
+    }
+    for (const property of findProperties(component, PROP_TZNAME)) {
+        rule.names = { ...rule.names, [unescapeText(property.value)]: true };
+    }
+    const comments = findProperties(component, PROP_COMMENT).map((property) =>
+        unescapeText(property.value),
+    );
+    if (comments.length > 0) rule.comments = comments;
+    return rule;
+}
+
+/**
+ * Read a TZOFFSETFROM or TZOFFSETTO value after checking its form.
+ * @param property Offset property.
+ * @return Offset text.
+ */
+function readOffset(property: ICalProperty): string {
+    try {
+        parseUtcOffset(property.value);
+        return property.value;
+    } catch {
+        throw new ICalParseError(`invalid ${property.name}: ${property.value}`);
+    }
+}
+
+/**
+ * Convert a TimeZoneRule into a STANDARD or DAYLIGHT component.
+ * @param name Component name.
+ * @param rule TimeZoneRule object.
+ * @return Observance component.
+ */
+function ruleToComponent(name: string, rule: TimeZoneRule): ICalComponent {
+    const component = createComponent(name);
+    const properties = component.properties;
+    properties.push(
+        createProperty(PROP_DTSTART, formatLocalDateTime(rule.start)),
+    );
+    properties.push(
+        createProperty(PROP_TZOFFSETFROM, normalizeOffset(rule.offsetFrom)),
+    );
+    properties.push(
+        createProperty(PROP_TZOFFSETTO, normalizeOffset(rule.offsetTo)),
+    );
+    for (const recurrence of rule.recurrenceRules ?? []) {
+        const { until, ...rest } = recurrence;
+        const value = recurrenceRuleToRRule(rest);
+        if (!value) continue;
+        properties.push(
+            createProperty(
+                PROP_RRULE,
+                until
+                    ? `${value}${RULE_PART_SEPARATOR}${UNTIL_PART}${untilToUtc(
+                          until,
+                          rule.offsetFrom,
+                      )}`
+                    : value,
+            ),
+        );
+    }
+    const dates = Object.keys(rule.recurrenceOverrides ?? {});
+    if (dates.length > 0) {
+        properties.push(
+            createProperty(
+                PROP_RDATE,
+                dates.map(formatLocalDateTime).join(VALUE_LIST_SEPARATOR),
+            ),
+        );
+    }
+    for (const tzName of Object.keys(rule.names ?? {})) {
+        properties.push(createProperty(PROP_TZNAME, escapeText(tzName)));
+    }
+    for (const comment of rule.comments ?? []) {
+        properties.push(createProperty(PROP_COMMENT, escapeText(comment)));
+    }
+    return component;
+}
+
+/**
+ * Gather custom TimeZone definitions from objects and group entries.
+ * @param objects JSCalendar objects.
+ * @return Definitions keyed by time zone id; the first one wins.
+ */
+function collectDefinitions(
+    objects: JSCalendarObject[],
+): Map<string, TimeZone> {
+    const result = new Map<string, TimeZone>();
+    for (const object of objects) {
+        for (const [tzId, zone] of Object.entries(object.timeZones ?? {})) {
+            if (zone && !result.has(tzId)) result.set(tzId, zone);
+        }
+        if (object["@type"] === TYPE_GROUP) {
+            for (const [tzId, zone] of collectDefinitions(object.entries)) {
+                if (!result.has(tzId)) result.set(tzId, zone);
+            }
+        }
+    }
+    return result;
+}
+
+/**
+ * Record the instants referenced through TZID parameters.
+ * @param component Component to scan recursively.
+ * @param spans Earliest and latest instant per TZID; null when unknown.
+ * @return Nothing.
+ */
+function collectSpans(
+    component: ICalComponent,
+    spans: Map<string, ZoneSpan | null>,
+): void {
+    for (const property of component.properties) {
+        const tzId = getParameter(property, PARAM_TZID);
+        if (!tzId) continue;
+        const timeZone = findTimeZone(tzId);
+        if (!spans.has(tzId)) spans.set(tzId, null);
+        if (!timeZone) continue;
+        for (const instant of readInstants(property, timeZone)) {
+            const span = spans.get(tzId);
+            if (!span) {
+                spans.set(tzId, { from: instant, to: instant });
+            } else if (instant < span.from) {
+                span.from = instant;
+            } else if (instant > span.to) {
+                span.to = instant;
+            }
+        }
+    }
+    extendForRecurrence(component, spans);
+    for (const child of component.components) {
+        collectSpans(child, spans);
+    }
+}
+
+/**
+ * Extend the span of a recurring component's zone to the end of its rules:
+ * the UNTIL bound, or the last occurrence of a COUNT rule. Unbounded rules
+ * are covered for one year after DTSTART.
+ * @param component Component that may carry RRULE properties.
+ * @param spans Earliest and latest instant per TZID.
+ * @return Nothing.
+ */
+function extendForRecurrence(
+    component: ICalComponent,
+    spans: Map<string, ZoneSpan | null>,
+): void {
+    const dtStart = findProperty(component, PROP_DTSTART);
+    const tzId = dtStart ? getParameter(dtStart, PARAM_TZID) : undefined;
+    const timeZone = tzId ? findTimeZone(tzId) : undefined;
+    const span = tzId ? spans.get(tzId) : undefined;
+    if (!dtStart || !timeZone || !span) return;
+    for (const rule of findProperties(component, PROP_RRULE)) {
+        const until = UNTIL_PATTERN.exec(rule.value)?.[1];
+        let end: Date;
+        if (!until) {
+            end = lastOccurrence(dtStart.value, rule.value, timeZone);
+        } else {
+            const parsed = parseDateTimeValue(until);
+            end = parsed.utc
+                ? new Date(`${parsed.value}Z`)
+                : localDateTimeToUtcDate(parsed.value, timeZone);
+        }
+        if (end > span.to) span.to = end;
+    }
+}
+
+/**
+ * Find the instant a rule without UNTIL stops covering.
+ * @param start DTSTART value of the component.
+ * @param value RRULE value without UNTIL.
+ * @param timeZone Time zone of DTSTART.
+ * @return Last occurrence of a COUNT rule, or one year after DTSTART.
+ */
+function lastOccurrence(
+    start: string,
+    value: string,
+    timeZone: TimeZoneId,
+): Date {
+    const anchor = parseDateTimeValue(start).value;
+    const rule = rruleToRecurrenceRule(value, timeZone);
+    if (rule.count === undefined) {
+        return new Date(
+            localDateTimeToUtcDate(anchor, timeZone).getTime() + YEAR_MS,
+        );
+    }
+    let last = anchor;
+    for (const occurrence of iterateRule(anchor, rule, anchor, undefined)) {
+        last = occurrence;
+    }
+    return localDateTimeToUtcDate(last, timeZone);
+}
+
+/**
+ * Read the instants of a zoned date-time property.
+ * @param property Property with a TZID parameter.
+ * @param timeZone Resolved time zone of the property.
+ * @return UTC instants of every listed value.
+ */
+function readInstants(property: ICalProperty, timeZone: TimeZoneId): Date[] {
+    const isPeriod = getParameter(property, PARAM_VALUE) === VALUE_PERIOD;
+    return splitValueList(property.value).map((entry) => {
+        const value = isPeriod
+            ? (entry.split(PERIOD_SEPARATOR)[0] ?? entry)
+            : entry;
+        return localDateTimeToUtcDate(
+            parseDateTimeValue(value).value,
+            timeZone,
+        );
+    });
+}
+
+/**
+ * Convert an observance UNTIL LocalDateTime into iCalendar UTC form.
+ * @param until LocalDateTime in the offset before the transition.
+ * @param offsetFrom Offset before the transition.
+ * @return UTC DATE-TIME value.
+ */
+function untilToUtc(until: string, offsetFrom: string): string {
+    const local = localDateTimeMilliseconds(until);
+    const utc = new Date(local - parseUtcOffset(offsetFrom) * SECOND_MS);
+    return formatUtcDateTime(utc.toISOString());
+}
+
+/**
+ * Convert an observance UTC UNTIL value into a LocalDateTime.
+ * @param until UTC DATE-TIME value.
+ * @param offsetFrom Offset before the transition.
+ * @return LocalDateTime in the offset before the transition.
+ */
+function untilFromUtc(until: string, offsetFrom: string): LocalDateTime {
+    const utc = localDateTimeMilliseconds(parseDateTimeValue(until).value);
+    return new Date(utc + parseUtcOffset(offsetFrom) * SECOND_MS)
+        .toISOString()
+        .slice(0, 19);
+}
+
+/**
+ * Normalize a UTC offset to the iCalendar UTC-OFFSET form.
+ * @param offset Offset such as "+01:00" or "+0100".
+ * @return Offset without separators.
+ */
+function normalizeOffset(offset: string): string {
+    return offset.replace(/:/g, "");
+}
@@ -0,0 +1,90 @@
+import type {
+    Event,
+    Id,
+    JsonValue,
+    LocalDateTime,
+    PatchObject,
+    Task,
+    TimeZoneMode,
+    UTCDateTime,
+} from "../types.js";
+
+export type ICalOptions = {
+    prodId?: string;
+    method?: string;
+    includeXJSCalendar?: boolean;
+};
+
+export type ICalParseOptions = {
+    validate?: boolean;
+    preferXJSCalendar?: boolean;
+    timeZoneMode?: TimeZoneMode;
+};
+
+export type ICalParameters = Record<string, string | string[]>;
+
+export type ICalProperty = {
+    name: string;
+    parameters: ICalParameters;
+    value: string;
+};
+
+export type ICalComponent = {
+    name: string;
+    properties: ICalProperty[];
+    components: ICalComponent[];
+};
+
+export type JCalParameters = Record<string, string | string[]>;
+
+export type JCalProperty = [string, JCalParameters, string, ...JsonValue[]];
+
+export type JCalComponent = [string, JCalProperty[], JCalComponent[]];
+
+export type ITipOptions = {
+    prodId?: string;
+    includeXJSCalendar?: boolean;
+    recurrenceId?: LocalDateTime;
+    sequence?: boolean;
+    now?: () => UTCDateTime;
+};
+
+export type ITipMessage = {
+    method: string;
+    object: Event | Task;
+    ical: string;
+};
+
+export type ITipCounter = {
+    participantId: Id;
+    recurrenceId?: LocalDateTime;
+    sequence: number;
+    patch: PatchObject;
+};
+
+export type ITipReplyChange = {
+    participantId?: Id;
+    recurrenceId?: LocalDateTime;
+    participationStatus?: string;
+    applied: boolean;
+    reason?: string;
+};
+
+export type ITipReplyResult = {
+    method: string;
+    object: Event | Task;
+    changes: ITipReplyChange[];
+    counters: ITipCounter[];
+};
+
+export type IMipOptions = {
+    from: string;
+    to: string[];
+    subject?: string;
+    text?: string;
+    date?: Date;
+    messageId?: string;
+    boundary?: string;
+    attachment?: boolean;
+    attachmentName?: string;
+};
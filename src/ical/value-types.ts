@@ -0,0 +1,182 @@
+import type { ICalProperty } from "./types.js";
+import {
+    PARAM_VALUE,
+    PROP_ACKNOWLEDGED,
+    PROP_ACTION,
+    PROP_ATTACH,
+    PROP_ATTENDEE,
+    PROP_CALSCALE,
+    PROP_CATEGORIES,
+    PROP_CLASS,
+    PROP_COLOR,
+    PROP_COMMENT,
+    PROP_COMPLETED,
+    PROP_CONFERENCE,
+    PROP_CONTACT,
+    PROP_CREATED,
+    PROP_DESCRIPTION,
+    PROP_DTEND,
+    PROP_DTSTAMP,
+    PROP_DTSTART,
+    PROP_DUE,
+    PROP_DURATION,
+    PROP_EXDATE,
+    PROP_EXRULE,
+    PROP_FREEBUSY,
+    PROP_GEO,
+    PROP_IMAGE,
+    PROP_LAST_MODIFIED,
+    PROP_LOCATION,
+    PROP_METHOD,
+    PROP_ORGANIZER,
+    PROP_PERCENT_COMPLETE,
+    PROP_PRIORITY,
+    PROP_PRODID,
+    PROP_RDATE,
+    PROP_RECURRENCE_ID,
+    PROP_RELATED_TO,
+    PROP_REQUEST_STATUS,
+    PROP_RESOURCES,
+    PROP_RRULE,
+    PROP_SEQUENCE,
+    PROP_STATUS,
+    PROP_SUMMARY,
+    PROP_TRANSP,
+    PROP_TRIGGER,
+    PROP_TZID,
+    PROP_TZNAME,
+    PROP_TZOFFSETFROM,
+    PROP_TZOFFSETTO,
+    PROP_TZUNTIL,
+    PROP_TZURL,
+    PROP_UID,
+    PROP_URL,
+    PROP_VERSION,
+    PROP_X_JSCALENDAR,
+    PROP_X_JSCALENDAR_GROUP,
+    PROP_X_JSCALENDAR_GROUP_UID,
+    VALUE_CAL_ADDRESS,
+    VALUE_DATE_TIME,
+    VALUE_DURATION,
+    VALUE_FLOAT,
+    VALUE_INTEGER,
+    VALUE_PERIOD,
+    VALUE_RECUR,
+    VALUE_TEXT,
+    VALUE_UNKNOWN,
+    VALUE_URI,
+    VALUE_UTC_OFFSET,
+} from "./constants.js";
+import { getParameter } from "./content-line.js";
+
+/**
+ * Default value type of every property this library reads or writes. The
+ * text and jCal serializers share one component tree, and this table is
+ * all jCal needs to type its values; a VALUE parameter overrides it.
+ */
+export const PROPERTY_VALUE_TYPES: Readonly<Record<string, string>> = {
+    [PROP_VERSION]: VALUE_TEXT,
+    [PROP_PRODID]: VALUE_TEXT,
+    [PROP_METHOD]: VALUE_TEXT,
+    [PROP_CALSCALE]: VALUE_TEXT,
+    [PROP_UID]: VALUE_TEXT,
+    [PROP_DTSTAMP]: VALUE_DATE_TIME,
+    [PROP_CREATED]: VALUE_DATE_TIME,
+    [PROP_LAST_MODIFIED]: VALUE_DATE_TIME,
+    [PROP_SEQUENCE]: VALUE_INTEGER,
+    [PROP_SUMMARY]: VALUE_TEXT,
+    [PROP_DESCRIPTION]: VALUE_TEXT,
+    [PROP_DTSTART]: VALUE_DATE_TIME,
+    [PROP_DTEND]: VALUE_DATE_TIME,
+    [PROP_DUE]: VALUE_DATE_TIME,
+    [PROP_COMPLETED]: VALUE_DATE_TIME,
+    [PROP_DURATION]: VALUE_DURATION,
+    [PROP_STATUS]: VALUE_TEXT,
+    [PROP_PERCENT_COMPLETE]: VALUE_INTEGER,
+    [PROP_RRULE]: VALUE_RECUR,
+    [PROP_EXRULE]: VALUE_RECUR,
+    [PROP_RDATE]: VALUE_DATE_TIME,
+    [PROP_EXDATE]: VALUE_DATE_TIME,
+    [PROP_RECURRENCE_ID]: VALUE_DATE_TIME,
+    [PROP_ORGANIZER]: VALUE_CAL_ADDRESS,
+    [PROP_ATTENDEE]: VALUE_CAL_ADDRESS,
+    [PROP_TRIGGER]: VALUE_DURATION,
+    [PROP_ACTION]: VALUE_TEXT,
+    [PROP_ACKNOWLEDGED]: VALUE_DATE_TIME,
+    [PROP_RELATED_TO]: VALUE_TEXT,
+    [PROP_TZID]: VALUE_TEXT,
+    [PROP_TZURL]: VALUE_URI,
+    [PROP_TZUNTIL]: VALUE_DATE_TIME,
+    [PROP_TZNAME]: VALUE_TEXT,
+    [PROP_TZOFFSETFROM]: VALUE_UTC_OFFSET,
+    [PROP_TZOFFSETTO]: VALUE_UTC_OFFSET,
+    [PROP_COMMENT]: VALUE_TEXT,
+    [PROP_LOCATION]: VALUE_TEXT,
+    [PROP_GEO]: VALUE_FLOAT,
+    [PROP_CONFERENCE]: VALUE_URI,
+    [PROP_ATTACH]: VALUE_URI,
+    [PROP_URL]: VALUE_URI,
+    [PROP_IMAGE]: VALUE_URI,
+    [PROP_CATEGORIES]: VALUE_TEXT,
+    [PROP_RESOURCES]: VALUE_TEXT,
+    [PROP_CONTACT]: VALUE_TEXT,
+    [PROP_CLASS]: VALUE_TEXT,
+    [PROP_PRIORITY]: VALUE_INTEGER,
+    [PROP_TRANSP]: VALUE_TEXT,
+    [PROP_COLOR]: VALUE_TEXT,
+    [PROP_REQUEST_STATUS]: VALUE_TEXT,
+    [PROP_FREEBUSY]: VALUE_PERIOD,
+    [PROP_X_JSCALENDAR]: VALUE_TEXT,
+    [PROP_X_JSCALENDAR_GROUP]: VALUE_TEXT,
+    [PROP_X_JSCALENDAR_GROUP_UID]: VALUE_TEXT,
+};
+
+/**
+ * Properties whose value is a comma-separated list of values.
+ */
+const LIST_PROPERTIES: ReadonlySet<string> = new Set([
+    PROP_CATEGORIES,
+    PROP_RESOURCES,
+    PROP_RDATE,
+    PROP_EXDATE,
+    PROP_FREEBUSY,
+]);
+
+/**
+ * Properties whose value is a semicolon-separated structured value.
+ */
+const STRUCTURED_PROPERTIES: ReadonlySet<string> = new Set([
+    PROP_GEO,
+    PROP_REQUEST_STATUS,
+]);
+
+/**
+ * Resolve the value type of a property.
+ * @param property iCalendar property.
+ * @return VALUE parameter, else the default type, else UNKNOWN.
+ */
+export function getValueType(property: ICalProperty): string {
+    return (
+        getParameter(property, PARAM_VALUE)?.toUpperCase() ??
+        PROPERTY_VALUE_TYPES[property.name] ??
+        VALUE_UNKNOWN
+    );
+}
+
+/**
+ * Check whether a property holds a comma-separated value list.
+ * @param name Property name.
+ * @return True for list-valued properties.
+ */
+export function isListProperty(name: string): boolean {
+    return LIST_PROPERTIES.has(name);
+}
+
+/**
+ * Check whether a property holds a structured value.
+ * @param name Property name.
+ * @return True for structured properties such as GEO.
+ */
+export function isStructuredProperty(name: string): boolean {
+    return STRUCTURED_PROPERTIES.has(name);
+}
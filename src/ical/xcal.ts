@@ -0,0 +1,334 @@
+import type { JSCalendarObject, JsonObject, JsonValue } from "../types.js";
+import type {
+    ICalOptions,
+    ICalParseOptions,
+    JCalComponent,
+    JCalParameters,
+    JCalProperty,
+} from "./types.js";
+import { isBooleanValue, isNumberValue, isStringValue } from "../utils.js";
+import { isRecord } from "../validate/asserts.js";
+import {
+    PARAM_DELEGATED_FROM,
+    PARAM_DELEGATED_TO,
+    PARAM_MEMBER,
+    PARAM_RSVP,
+    PARAM_SENT_BY,
+    PROP_GEO,
+    PROP_REQUEST_STATUS,
+    VALUE_BOOLEAN,
+    VALUE_CAL_ADDRESS,
+    VALUE_FLOAT,
+    VALUE_PERIOD,
+    VALUE_RECUR,
+    VALUE_TEXT,
+    VALUE_UNKNOWN,
+} from "./constants.js";
+import { ICalParseError } from "./error.js";
+import { buildCalendar } from "./export.js";
+import { importComponents } from "./import.js";
+import { componentToJCal, jCalToComponent } from "./jcal.js";
+import { createElement, parseXml, serializeXml } from "./xml.js";
+import type { XmlElement } from "./xml.js";
+
+const XCAL_NAMESPACE = "urn:ietf:params:xml:ns:icalendar-2.0";
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8"?>';
+const NEWLINE = "\n";
+const ELEMENT_ICALENDAR = "icalendar";
+const ELEMENT_PROPERTIES = "properties";
+const ELEMENT_COMPONENTS = "components";
+const ELEMENT_PARAMETERS = "parameters";
+const ELEMENT_START = "start";
+const ELEMENT_END = "end";
+const ELEMENT_DURATION = "duration";
+const ATTRIBUTE_XMLNS = "xmlns";
+const PERIOD_SEPARATOR = "/";
+const DURATION_PATTERN = /^[+-]?P/i;
+const XML_TRUE = "true";
+const XML_FALSE = "false";
+const GEO_PARTS = ["latitude", "longitude"];
+const REQUEST_STATUS_PARTS = ["code", "description", "data"];
+const STRUCTURED_PARTS: Record<string, string[]> = {
+    [PROP_GEO.toLowerCase()]: GEO_PARTS,
+    [PROP_REQUEST_STATUS.toLowerCase()]: REQUEST_STATUS_PARTS,
+};
+const STRUCTURED_TYPES: Record<string, string> = {
+    [PROP_GEO.toLowerCase()]: VALUE_FLOAT.toLowerCase(),
+    [PROP_REQUEST_STATUS.toLowerCase()]: VALUE_TEXT.toLowerCase(),
+};
+const PARAMETER_TYPES: Record<string, string> = {
+    [PARAM_DELEGATED_FROM.toLowerCase()]: VALUE_CAL_ADDRESS.toLowerCase(),
+    [PARAM_DELEGATED_TO.toLowerCase()]: VALUE_CAL_ADDRESS.toLowerCase(),
+    [PARAM_MEMBER.toLowerCase()]: VALUE_CAL_ADDRESS.toLowerCase(),
+    [PARAM_SENT_BY.toLowerCase()]: VALUE_CAL_ADDRESS.toLowerCase(),
+    [PARAM_RSVP.toLowerCase()]: VALUE_BOOLEAN.toLowerCase(),
+};
+
+/**
+ * Convert JSCalendar objects into an xCal (RFC 6321) document.
+ * The mapping is the one used by toICal; only the serialization differs.
+ * @param objects JSCalendar objects to export.
+ * @param options Export options.
+ * @return xCal XML text.
+ */
+export function toXCal(
+    objects: JSCalendarObject[],
+    options: ICalOptions = {},
+): string {
+    const calendar = componentToJCal(buildCalendar(objects, options));
+    const root = createElement(ELEMENT_ICALENDAR, [componentToXml(calendar)]);
+    root.attributes[ATTRIBUTE_XMLNS] = XCAL_NAMESPACE;
+    return `${XML_DECLARATION}${NEWLINE}${serializeXml(root)}${NEWLINE}`;
+}
+
+/**
+ * Parse an xCal (RFC 6321) document into JSCalendar objects.
+ * @param text xCal XML text.
+ * @param options Import options.
+ * @return Imported Event, Task, and Group objects.
+ */
+export function fromXCal(
+    text: string,
+    options: ICalParseOptions = {},
+): JSCalendarObject[] {
+    const root = parseXml(text);
+    if (root.name !== ELEMENT_ICALENDAR) {
+        throw new ICalParseError("xCal root element must be icalendar");
+    }
+    const components = root.children.map((child) =>
+        jCalToComponent(xmlToComponent(child)),
+    );
+    return importComponents(components, options);
+}
+
+/**
+ * Convert a jCal component into an xCal element.
+ * @param component jCal component.
+ * @return xCal component element.
+ */
+function componentToXml(component: JCalComponent): XmlElement {
+    const [name, properties, components] = component;
+    const children: XmlElement[] = [];
+    if (properties.length > 0) {
+        children.push(
+            createElement(ELEMENT_PROPERTIES, properties.map(propertyToXml)),
+        );
+    }
+    if (components.length > 0) {
+        children.push(
+            createElement(ELEMENT_COMPONENTS, components.map(componentToXml)),
+        );
+    }
+    return createElement(name, children);
+}
+
+/**
+ * Convert a jCal property into an xCal element.
+ * @param property jCal property.
+ * @return xCal property element.
+ */
+function propertyToXml(property: JCalProperty): XmlElement {
+    const [name, parameters, type, ...values] = property;
+    const children: XmlElement[] = [];
+    const parameterElements = Object.entries(parameters).map(
+        ([parameter, value]) => parameterToXml(parameter, value),
+    );
+    if (parameterElements.length > 0) {
+        children.push(createElement(ELEMENT_PARAMETERS, parameterElements));
+    }
+    const parts = STRUCTURED_PARTS[name];
+    const [first] = values;
+    if (parts && Array.isArray(first)) {
+        first.forEach((value, index) => {
+            const part = parts[index];
+            if (part)
+                children.push(createElement(part, [], scalarToXml(value)));
+        });
+    } else {
+        for (const value of values) children.push(valueToXml(type, value));
+    }
+    return createElement(name, children);
+}
+
+/**
+ * Convert a jCal parameter into an xCal element.
+ * @param name Lower-case parameter name.
+ * @param value Parameter value or values.
+ * @return xCal parameter element.
+ */
+function parameterToXml(name: string, value: string | string[]): XmlElement {
+    const type = PARAMETER_TYPES[name] ?? VALUE_TEXT.toLowerCase();
+    const values = Array.isArray(value) ? value : [value];
+    return createElement(
+        name,
+        values.map((entry) =>
+            createElement(
+                type,
+                [],
+                type === VALUE_BOOLEAN.toLowerCase()
+                    ? entry.toLowerCase()
+                    : entry,
+            ),
+        ),
+    );
+}
+
+/**
+ * Convert one typed jCal value into an xCal value element.
+ * @param type Lower-case value type.
+ * @param value jCal value.
+ * @return Value element such as <date-time> or <recur>.
+ */
+function valueToXml(type: string, value: JsonValue): XmlElement {
+    if (type === VALUE_RECUR.toLowerCase() && isRecord(value)) {
+        const parts: XmlElement[] = [];
+        for (const [key, entry] of Object.entries(value)) {
+            const entries = Array.isArray(entry) ? entry : [entry];
+            for (const item of entries) {
+                parts.push(createElement(key, [], scalarToXml(item)));
+            }
+        }
+        return createElement(type, parts);
+    }
+    if (type === VALUE_PERIOD.toLowerCase() && isStringValue(value)) {
+        const [start = "", end = ""] = value.split(PERIOD_SEPARATOR);
+        return createElement(type, [
+            createElement(ELEMENT_START, [], start),
+            createElement(
+                DURATION_PATTERN.test(end) ? ELEMENT_DURATION : ELEMENT_END,
+                [],
+                end,
+            ),
+        ]);
+    }
+    return createElement(type, [], scalarToXml(value));
+}
+
+/**
+ * Convert an xCal component element into jCal.
+ * @param element xCal component element.
+ * @return jCal component.
+ */
+function xmlToComponent(element: XmlElement): JCalComponent {
+    const properties: JCalProperty[] = [];
+    const components: JCalComponent[] = [];
+    for (const child of element.children) {
+        if (child.name === ELEMENT_PROPERTIES) {
+            properties.push(...child.children.map(xmlToProperty));
+        } else if (child.name === ELEMENT_COMPONENTS) {
+            components.push(...child.children.map(xmlToComponent));
+        } else {
+            throw new ICalParseError(
+                `invalid xCal element in ${element.name}: ${child.name}`,
+            );
+        }
+    }
+    return [element.name, properties, components];
+}
+
+/**
+ * Convert an xCal property element into jCal.
+ * @param element xCal property element.
+ * @return jCal property.
+ */
+function xmlToProperty(element: XmlElement): JCalProperty {
+    const parameters: JCalParameters = {};
+    const valueElements: XmlElement[] = [];
+    for (const child of element.children) {
+        if (child.name !== ELEMENT_PARAMETERS) {
+            valueElements.push(child);
+            continue;
+        }
+        for (const parameter of child.children) {
+            const values = parameter.children.map((value) =>
+                value.name === VALUE_BOOLEAN.toLowerCase()
+                    ? value.text.toUpperCase()
+                    : value.text,
+            );
+            const [single] = values;
+            parameters[parameter.name] =
+                values.length === 1 && single !== undefined ? single : values;
+        }
+    }
+
+    const parts = STRUCTURED_PARTS[element.name];
+    const structuredType = STRUCTURED_TYPES[element.name];
+    if (parts && structuredType) {
+        const values = valueElements
+            .filter((child) => parts.includes(child.name))
+            .map((child) => child.text);
+        return [element.name, parameters, structuredType, values];
+    }
+
+    const [first] = valueElements;
+    if (!first) {
+        throw new ICalParseError(`xCal property ${element.name} has no value`);
+    }
+    const type = first.name;
+    const values = valueElements.map((child) => {
+        if (child.name !== type) {
+            throw new ICalParseError(
+                `xCal property ${element.name} mixes value types`,
+            );
+        }
+        return xmlToValue(child);
+    });
+    return [element.name, parameters, type, ...values];
+}
+
+/**
+ * Convert an xCal value element into a jCal value.
+ * @param element Value element.
+ * @return jCal value.
+ */
+function xmlToValue(element: XmlElement): JsonValue {
+    if (element.name === VALUE_RECUR.toLowerCase()) {
+        const rule: JsonObject = {};
+        for (const part of element.children) {
+            const current = rule[part.name];
+            if (current === undefined) {
+                rule[part.name] = part.text;
+            } else if (Array.isArray(current)) {
+                current.push(part.text);
+            } else {
+                rule[part.name] = [current, part.text];
+            }
+        }
+        return rule;
+    }
+    if (element.name === VALUE_PERIOD.toLowerCase()) {
+        const start = element.children.find(
+            (child) => child.name === ELEMENT_START,
+        );
+        const end = element.children.find(
+            (child) =>
+                child.name === ELEMENT_END || child.name === ELEMENT_DURATION,
+        );
+        if (!start || !end) {
+            throw new ICalParseError("xCal period needs start and end");
+        }
+        return `${start.text}${PERIOD_SEPARATOR}${end.text}`;
+    }
+    if (element.name === VALUE_BOOLEAN.toLowerCase()) {
+        return element.text.trim().toLowerCase() === XML_TRUE;
+    }
+    if (
+        element.name === VALUE_TEXT.toLowerCase() ||
+        element.name === VALUE_UNKNOWN.toLowerCase()
+    ) {
+        return element.text;
+    }
+    return element.text.trim();
+}
+
+/**
+ * Format a scalar jCal value as xCal text.
+ * @param value jCal value.
+ * @return Text content.
+ */
+function scalarToXml(value: JsonValue | undefined): string {
+    if (isStringValue(value)) return value;
+    if (isNumberValue(value)) return `${value}`;
+    if (isBooleanValue(value)) return value ? XML_TRUE : XML_FALSE;
+    return "";
+}
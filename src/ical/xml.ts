@@ -0,0 +1,274 @@
+import { ICalParseError } from "./error.js";
+
+const XML_DECLARATION_START = "<?";
+const XML_DECLARATION_END = "?>";
+const COMMENT_START = "<!--";
+const COMMENT_END = "-->";
+const CDATA_START = "<![CDATA[";
+const CDATA_END = "]]>";
+const DOCTYPE_START = "<!";
+const CLOSE_TAG_START = "</";
+const TAG_START = "<";
+const TAG_END = ">";
+const SELF_CLOSING_END = "/>";
+const PREFIX_SEPARATOR = ":";
+const INDENT = "  ";
+const NEWLINE = "\n";
+const BYTE_ORDER_MARK = "\uFEFF";
+const NAME_PATTERN = /[A-Za-z_][\w.:-]*/y;
+const ATTRIBUTE_PATTERN =
+    /\s+([A-Za-z_][\w.:-]*)\s*=\s*(?:"([^"]*)"|'([^']*)')/y;
+const SPACE_PATTERN = /\s*/y;
+const ENTITY_PATTERN = /&(#x[0-9a-fA-F]+|#\d+|[A-Za-z_][\w.-]*);/g;
+const MAX_CODE_POINT = 0x10ffff;
+const SURROGATE_FIRST = 0xd800;
+const SURROGATE_LAST = 0xdfff;
+const WHITESPACE_PATTERN = /^\s*$/;
+const NAMED_ENTITIES: Record<string, string> = {
+    amp: "&",
+    lt: "<",
+    gt: ">",
+    quot: '"',
+    apos: "'",
+};
+
+export type XmlElement = {
+    name: string;
+    attributes: Record<string, string>;
+    children: XmlElement[];
+    text: string;
+};
+
+/**
+ * Create an XML element.
+ * @param name Element name.
+ * @param children Child elements.
+ * @param text Text content for leaf elements.
+ * @return XML element.
+ */
+export function createElement(
+    name: string,
+    children: XmlElement[] = [],
+    text = "",
+): XmlElement {
+    return { name, attributes: {}, children, text };
+}
+
+/**
+ * Serialize an element tree as indented XML. Leaf elements keep their text
+ * on one line so values are not padded with whitespace.
+ * @param element Root element.
+ * @param depth Indentation depth.
+ * @return XML text without a declaration.
+ */
+export function serializeXml(element: XmlElement, depth = 0): string {
+    const indent = INDENT.repeat(depth);
+    let open = `${indent}<${element.name}`;
+    for (const [name, value] of Object.entries(element.attributes)) {
+        open += ` ${name}="${escapeXml(value)}"`;
+    }
+    if (element.children.length === 0) {
+        if (!element.text) return `${open}/>`;
+        return `${open}>${escapeXml(element.text)}</${element.name}>`;
+    }
+    const children = element.children
+        .map((child) => serializeXml(child, depth + 1))
+        .join(NEWLINE);
+    return `${open}>${NEWLINE}${children}${NEWLINE}${indent}</${element.name}>`;
+}
+
+/**
+ * Parse an XML document into an element tree without a DOM. Element names
+ * are reduced to their local part; comments, processing instructions, and
+ * the document type declaration are skipped.
+ * @param text XML document text.
+ * @return Root element.
+ */
+export function parseXml(text: string): XmlElement {
+    const source = text.startsWith(BYTE_ORDER_MARK) ? text.slice(1) : text;
+    const stack: XmlElement[] = [];
+    let root: XmlElement | undefined;
+    let index = 0;
+    while (index < source.length) {
+        if (source.startsWith(XML_DECLARATION_START, index)) {
+            index = skipPast(source, index, XML_DECLARATION_END);
+        } else if (source.startsWith(COMMENT_START, index)) {
+            index = skipPast(source, index, COMMENT_END);
+        } else if (source.startsWith(CDATA_START, index)) {
+            const end = source.indexOf(CDATA_END, index);
+            if (end < 0) throw new ICalParseError("invalid XML: open CDATA");
+            appendText(stack, source.slice(index + CDATA_START.length, end));
+            index = end + CDATA_END.length;
+        } else if (source.startsWith(CLOSE_TAG_START, index)) {
+            const end = source.indexOf(TAG_END, index);
+            if (end < 0) throw new ICalParseError("invalid XML: open tag");
+            const name = localName(
+                source.slice(index + CLOSE_TAG_START.length, end).trim(),
+            );
+            const element = stack.pop();
+            if (!element || element.name !== name) {
+                throw new ICalParseError(`invalid XML: unexpected </${name}>`);
+            }
+            index = end + TAG_END.length;
+        } else if (source.startsWith(DOCTYPE_START, index)) {
+            index = skipPast(source, index, TAG_END);
+        } else if (source.startsWith(TAG_START, index)) {
+            const parsed = parseOpenTag(source, index);
+            const parent = stack[stack.length - 1];
+            if (parent) {
+                parent.children.push(parsed.element);
+            } else if (root) {
+                throw new ICalParseError("invalid XML: multiple root elements");
+            } else {
+                root = parsed.element;
+            }
+            if (!parsed.selfClosing) stack.push(parsed.element);
+            index = parsed.end;
+        } else {
+            const end = source.indexOf(TAG_START, index);
+            const next = end < 0 ? source.length : end;
+            const chunk = source.slice(index, next);
+            if (stack.length > 0) {
+                appendText(stack, decodeEntities(chunk));
+            } else if (!WHITESPACE_PATTERN.test(chunk)) {
+                throw new ICalParseError("invalid XML: text outside root");
+            }
+            index = next;
+        }
+    }
+    const open = stack[stack.length - 1];
+    if (open) throw new ICalParseError(`invalid XML: unclosed <${open.name}>`);
+    if (!root) throw new ICalParseError("invalid XML: missing root element");
+    return root;
+}
+
+/**
+ * Escape text for XML content and attribute values.
+ * @param value Raw text.
+ * @return Escaped text.
+ */
+export function escapeXml(value: string): string {
+    return value
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;")
+        .replace(/'/g, "&apos;");
+}
+
+/**
+ * Parse an opening tag and its attributes.
+ * @param source XML text.
+ * @param start Index of the opening "<".
+ * @return Element, whether it closes itself, and the index after the tag.
+ */
+function parseOpenTag(
+    source: string,
+    start: number,
+): { element: XmlElement; selfClosing: boolean; end: number } {
+    NAME_PATTERN.lastIndex = start + TAG_START.length;
+    const name = NAME_PATTERN.exec(source)?.[0];
+    if (!name) throw new ICalParseError("invalid XML: missing element name");
+    const element = createElement(localName(name));
+    let index = NAME_PATTERN.lastIndex;
+    for (;;) {
+        ATTRIBUTE_PATTERN.lastIndex = index;
+        const attribute = ATTRIBUTE_PATTERN.exec(source);
+        if (attribute) {
+            element.attributes[attribute[1] ?? ""] = decodeEntities(
+                attribute[2] ?? attribute[3] ?? "",
+            );
+            index = ATTRIBUTE_PATTERN.lastIndex;
+            continue;
+        }
+        SPACE_PATTERN.lastIndex = index;
+        SPACE_PATTERN.exec(source);
+        index = SPACE_PATTERN.lastIndex;
+        if (source.startsWith(SELF_CLOSING_END, index)) {
+            return {
+                element,
+                selfClosing: true,
+                end: index + SELF_CLOSING_END.length,
+            };
+        }
+        if (source.startsWith(TAG_END, index)) {
+            return { element, selfClosing: false, end: index + TAG_END.length };
+        }
+        throw new ICalParseError(`invalid XML: malformed <${element.name}>`);
+    }
+}
+
+/**
+ * Append text to the innermost open element.
+ * @param stack Open elements.
+ * @param text Decoded text.
+ * @return Nothing.
+ */
+function appendText(stack: XmlElement[], text: string): void {
+    const element = stack[stack.length - 1];
+    if (element) element.text += text;
+}
+
+/**
+ * Find the index after a terminator.
+ * @param source XML text.
+ * @param start Index to search from.
+ * @param terminator Terminating sequence.
+ * @return Index after the terminator.
+ */
+function skipPast(source: string, start: number, terminator: string): number {
+    const end = source.indexOf(terminator, start);
+    if (end < 0) {
+        throw new ICalParseError(`invalid XML: missing "${terminator}"`);
+    }
+    return end + terminator.length;
+}
+
+/**
+ * Strip a namespace prefix from a qualified name.
+ * @param name Qualified name such as "xc:vevent".
+ * @return Local name.
+ */
+function localName(name: string): string {
+    const separator = name.indexOf(PREFIX_SEPARATOR);
+    return separator < 0 ? name : name.slice(separator + 1);
+}
+
+/**
+ * Decode the predefined and numeric character references.
+ * @param text Escaped text.
+ * @return Decoded text.
+ */
+function decodeEntities(text: string): string {
+    return text.replace(ENTITY_PATTERN, (match, entity: string) => {
+        if (entity.startsWith("#x")) {
+            return decodeCodePoint(match, Number.parseInt(entity.slice(2), 16));
+        }
+        if (entity.startsWith("#")) {
+            return decodeCodePoint(match, Number.parseInt(entity.slice(1), 10));
+        }
+        const named = NAMED_ENTITIES[entity];
+        if (named === undefined) {
+            throw new ICalParseError(`invalid XML: unknown entity ${match}`);
+        }
+        return named;
+    });
+}
+
+/**
+ * Decode a numeric character reference.
+ * @param reference Reference as written, for error messages.
+ * @param codePoint Referenced code point.
+ * @return Referenced character.
+ */
+function decodeCodePoint(reference: string, codePoint: number): string {
+    if (
+        codePoint > MAX_CODE_POINT ||
+        (codePoint >= SURROGATE_FIRST && codePoint <= SURROGATE_LAST)
+    ) {
+        throw new ICalParseError(
+            `invalid XML: character reference ${reference} out of range`,
+        );
+    }
+    return String.fromCodePoint(codePoint);
+}
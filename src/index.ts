@@ -1,3 +1,4 @@
 export { JsCal } from "./jscal.js";
 export { ValidationError } from "./validate.js";
+export { ICalParseError } from "./ical.js";
 export type * from "./types.js";
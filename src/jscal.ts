@@ -1,7 +1,42 @@
-import type { JSCalendarObject } from "./types.js";
+import type {
+    Event,
+    JSCalendarObject,
+    Task,
+    TimeZone,
+    TimeZoneId,
+} from "./types.js";
 import { diff } from "./diff.js";
-import { toICal } from "./ical.js";
-import { expandRecurrence, expandRecurrencePaged } from "./recurrence.js";
+import {
+    acceptITipCounter,
+    createITipCancel,
+    createITipDeclineCounter,
+    createITipRefresh,
+    createITipReply,
+    createITipRequest,
+    fromICal,
+    fromIMip,
+    fromJCal,
+    fromXCal,
+    processITipReply,
+    toICal,
+    toIMip,
+    toJCal,
+    toXCal,
+} from "./ical.js";
+import type {
+    RecurrenceExpandOptions,
+    RecurrenceOccurrence,
+    RecurrenceRecordOptions,
+} from "./recurrence.js";
+import {
+    expandRecurrence,
+    expandRecurrencePaged,
+    getOccurrence,
+    nextOccurrence,
+    occurrencesAfter,
+    parseOccurrenceId,
+    previousOccurrence,
+} from "./recurrence.js";
 import {
     filterByDateRange,
     filterByText,
@@ -10,13 +45,18 @@ import {
     groupByType,
 } from "./search.js";
 import { resolveTimeZone, TimeZones } from "./timezones.js";
+import { synthesizeTimeZone } from "./timezones/transitions.js";
 import { applyPatch } from "./patch.js";
 import { EventObject } from "./jscal/event.js";
 import { TaskObject } from "./jscal/task.js";
 import { GroupObject } from "./jscal/group.js";
 import { Duration } from "./jscal/duration.js";
 import { createId, createUid } from "./jscal/ids.js";
-import { normalizeItems, normalizeToObjects } from "./jscal/normalize.js";
+import {
+    normalizeEntry,
+    normalizeItems,
+    normalizeToObjects,
+} from "./jscal/normalize.js";
 import { isEvent, isGroup, isTask } from "./jscal/guards.js";
 import {
     buildAlert,
@@ -42,7 +82,12 @@ import {
     buildTaskPatch,
     buildGroupPatch,
 } from "./jscal/builders.js";
-export type { CreateOptions, UpdateOptions } from "./jscal/types.js";
+export type {
+    CreateOptions,
+    TimeZonePreserve,
+    UpdateOptions,
+    WithTimeZoneOptions,
+} from "./jscal/types.js";
 export type {
     AlertInput,
     AbsoluteTriggerInput,
@@ -64,6 +109,31 @@ export type {
 
 export { createId, createUid, isEvent, isGroup, isTask };
 
+/**
+ * Expand recurrence rules into concrete occurrences.
+ * @param items JSCalendar objects or JsCal instances.
+ * @param range Date range bounds.
+ * @param options Expansion options; `records: true` yields occurrence records.
+ * @return Generator of expanded JSCalendar objects or occurrence records.
+ */
+function expandItems(
+    items: Array<JSCalendarObject | { data: JSCalendarObject }>,
+    range: { from: Date; to: Date },
+    options: RecurrenceRecordOptions,
+): Generator<RecurrenceOccurrence>;
+function expandItems(
+    items: Array<JSCalendarObject | { data: JSCalendarObject }>,
+    range: { from: Date; to: Date },
+    options?: RecurrenceExpandOptions,
+): Generator<JSCalendarObject>;
+function expandItems(
+    items: Array<JSCalendarObject | { data: JSCalendarObject }>,
+    range: { from: Date; to: Date },
+    options?: RecurrenceExpandOptions | RecurrenceRecordOptions,
+): Generator<JSCalendarObject> | Generator<RecurrenceOccurrence> {
+    return expandRecurrence(normalizeItems(items), range, options);
+}
+
 export const JsCal = {
     Event: EventObject,
     Task: TaskObject,
@@ -102,6 +172,22 @@ export const JsCal = {
     links: buildLinks,
     relatedTo: buildRelatedTo,
     timeZonesMap: buildTimeZoneMap,
+    /**
+     * Derive a TimeZone object for an IANA zone from the runtime's Intl
+     * data, ready for a timeZones map. Transitions that repeat on the same
+     * weekday rule every year become yearly recurrence rules.
+     * @param timeZone IANA time zone in any letter case.
+     * @param range Span the definition must cover.
+     * @return Validated TimeZone object.
+     */
+    timeZoneDefinition(
+        timeZone: TimeZoneId | Lowercase<TimeZoneId>,
+        range: { from: Date; to: Date },
+    ): TimeZone {
+        return buildTimeZone(
+            synthesizeTimeZone(resolveTimeZone(timeZone), range.from, range.to),
+        );
+    },
     /**
      * Find a JSCalendar object by UID.
      * @param items JSCalendar objects or JsCal instances.
@@ -162,34 +248,80 @@ export const JsCal = {
     ): JSCalendarObject[] {
         return filterByDateRange(normalizeItems(items), range, options);
     },
-    /**
-     * Expand recurrence rules into concrete occurrences.
-     * @param items JSCalendar objects or JsCal instances.
-     * @param range Date range bounds.
-     * @param options Expansion options.
-     * @return Generator of expanded JSCalendar objects.
-     */
-    expandRecurrence(
-        items: Array<JSCalendarObject | { data: JSCalendarObject }>,
-        range: { from: Date; to: Date },
-        options?: import("./recurrence.js").RecurrenceExpandOptions,
-    ): Generator<JSCalendarObject> {
-        return expandRecurrence(normalizeItems(items), range, options);
-    },
+    expandRecurrence: expandItems,
     /**
      * Expand recurrence rules with pagination support.
      * @param items JSCalendar objects or JsCal instances.
      * @param range Date range bounds.
      * @param options Pagination options.
-     * @return Page of expanded items plus an optional next cursor.
+     * @return Page of expanded items with cursors and a hasMore flag.
      */
     expandRecurrencePaged(
         items: Array<JSCalendarObject | { data: JSCalendarObject }>,
         range: { from: Date; to: Date },
         options: import("./recurrence.js").RecurrencePageOptions,
-    ): { items: JSCalendarObject[]; nextCursor?: string } {
+    ): import("./recurrence.js").RecurrencePage {
         return expandRecurrencePaged(normalizeItems(items), range, options);
     },
+    /**
+     * Find the first occurrence of an event or task after a date.
+     * @param value Event or task (plain object or JsCal instance).
+     * @param after Exclusive lower bound.
+     * @param options Expansion options.
+     * @return Next occurrence, or undefined when the series has ended.
+     */
+    nextOccurrence(
+        value: import("./jscal/types.js").EntryInput,
+        after: Date,
+        options?: import("./recurrence.js").RecurrenceExpandOptions,
+    ): JSCalendarObject | undefined {
+        return nextOccurrence(normalizeEntry(value), after, options);
+    },
+    /**
+     * Find the last occurrence of an event or task before a date.
+     * @param value Event or task (plain object or JsCal instance).
+     * @param before Exclusive upper bound.
+     * @param options Expansion options.
+     * @return Previous occurrence, or undefined when there is none.
+     */
+    previousOccurrence(
+        value: import("./jscal/types.js").EntryInput,
+        before: Date,
+        options?: import("./recurrence.js").RecurrenceExpandOptions,
+    ): JSCalendarObject | undefined {
+        return previousOccurrence(normalizeEntry(value), before, options);
+    },
+    /**
+     * Iterate the occurrences of an event or task after a date. The
+     * iterator is infinite for rules without count or until.
+     * @param value Event or task (plain object or JsCal instance).
+     * @param date Exclusive lower bound.
+     * @param options Expansion options.
+     * @return Generator of occurrences in recurrenceId order.
+     */
+    occurrencesAfter(
+        value: import("./jscal/types.js").EntryInput,
+        date: Date,
+        options?: import("./recurrence.js").RecurrenceExpandOptions,
+    ): Generator<JSCalendarObject> {
+        return occurrencesAfter(normalizeEntry(value), date, options);
+    },
+    /**
+     * Look up one occurrence by the occurrence id of an occurrence record.
+     * @param value Event, task, or group (plain object or JsCal instance).
+     * @param occurrenceId Occurrence id.
+     * @param options Expansion options.
+     * @return Occurrence record, or undefined when there is no such occurrence.
+     */
+    getOccurrence(
+        value: JSCalendarObject | { data: JSCalendarObject },
+        occurrenceId: string,
+        options?: import("./recurrence.js").RecurrenceExpandOptions,
+    ): RecurrenceOccurrence | undefined {
+        const [item] = normalizeItems([value]);
+        return item ? getOccurrence(item, occurrenceId, options) : undefined;
+    },
+    parseOccurrenceId,
     /**
      * Convert JSCalendar objects to iCalendar text.
      * @param value JSCalendar objects or JsCal instances.
@@ -203,4 +335,188 @@ export const JsCal = {
         const objects = normalizeToObjects(value);
         return toICal(objects, options);
     },
+    /**
+     * Parse iCalendar text into JSCalendar objects.
+     * @param text iCalendar text.
+     * @param options iCalendar import options.
+     * @return Imported Event, Task, and Group objects.
+     */
+    fromICal(
+        text: string,
+        options?: import("./ical.js").ICalParseOptions,
+    ): JSCalendarObject[] {
+        return fromICal(text, options);
+    },
+    /**
+     * Convert JSCalendar objects to jCal (RFC 7265).
+     * @param value JSCalendar objects or JsCal instances.
+     * @param options iCalendar export options.
+     * @return jCal vcalendar component.
+     */
+    toJCal(
+        value: Array<JSCalendarObject | { data: JSCalendarObject }>,
+        options?: import("./ical.js").ICalOptions,
+    ): import("./ical.js").JCalComponent {
+        const objects = normalizeToObjects(value);
+        return toJCal(objects, options);
+    },
+    /**
+     * Parse jCal (RFC 7265) into JSCalendar objects.
+     * @param json jCal vcalendar, an array of them, or their JSON text.
+     * @param options iCalendar import options.
+     * @return Imported Event, Task, and Group objects.
+     */
+    fromJCal(
+        json: string | import("./types.js").JsonValue,
+        options?: import("./ical.js").ICalParseOptions,
+    ): JSCalendarObject[] {
+        return fromJCal(json, options);
+    },
+    /**
+     * Convert JSCalendar objects to xCal (RFC 6321).
+     * @param value JSCalendar objects or JsCal instances.
+     * @param options iCalendar export options.
+     * @return xCal XML text.
+     */
+    toXCal(
+        value: Array<JSCalendarObject | { data: JSCalendarObject }>,
+        options?: import("./ical.js").ICalOptions,
+    ): string {
+        const objects = normalizeToObjects(value);
+        return toXCal(objects, options);
+    },
+    /**
+     * Parse xCal (RFC 6321) into JSCalendar objects.
+     * @param xml xCal XML text.
+     * @param options iCalendar import options.
+     * @return Imported Event, Task, and Group objects.
+     */
+    fromXCal(
+        xml: string,
+        options?: import("./ical.js").ICalParseOptions,
+    ): JSCalendarObject[] {
+        return fromXCal(xml, options);
+    },
+    /**
+     * Build an iTIP REQUEST from the organizer's copy.
+     * @param value Event or Task, or a JsCal instance.
+     * @param options iTIP message options.
+     * @return REQUEST message with a bumped sequence.
+     */
+    createITipRequest(
+        value: import("./jscal/types.js").EntryInput,
+        options?: import("./ical.js").ITipOptions,
+    ): import("./ical.js").ITipMessage {
+        return createITipRequest(normalizeEntry(value), options);
+    },
+    /**
+     * Build an iTIP REPLY for one participant.
+     * @param value Event or Task, or a JsCal instance.
+     * @param participantId Id of the replying participant.
+     * @param options iTIP message options.
+     * @return REPLY message.
+     */
+    createITipReply(
+        value: import("./jscal/types.js").EntryInput,
+        participantId: string,
+        options?: import("./ical.js").ITipOptions,
+    ): import("./ical.js").ITipMessage {
+        return createITipReply(normalizeEntry(value), participantId, options);
+    },
+    /**
+     * Build an iTIP CANCEL for a series or one occurrence.
+     * @param value Event or Task, or a JsCal instance.
+     * @param options iTIP message options.
+     * @return CANCEL message with a bumped sequence.
+     */
+    createITipCancel(
+        value: import("./jscal/types.js").EntryInput,
+        options?: import("./ical.js").ITipOptions,
+    ): import("./ical.js").ITipMessage {
+        return createITipCancel(normalizeEntry(value), options);
+    },
+    /**
+     * Build an iTIP REFRESH for one participant.
+     * @param value Event or Task, or a JsCal instance.
+     * @param participantId Id of the requesting participant.
+     * @param options iTIP message options.
+     * @return REFRESH message.
+     */
+    createITipRefresh(
+        value: import("./jscal/types.js").EntryInput,
+        participantId: string,
+        options?: import("./ical.js").ITipOptions,
+    ): import("./ical.js").ITipMessage {
+        return createITipRefresh(normalizeEntry(value), participantId, options);
+    },
+    /**
+     * Apply an iTIP REPLY, or collect a COUNTER, on the organizer's copy.
+     * @param value Organizer's Event or Task, or a JsCal instance.
+     * @param message iCalendar text or the imported message objects.
+     * @param options iCalendar import options.
+     * @return Updated copy, participant changes, and counter proposals.
+     */
+    processITipReply(
+        value: import("./jscal/types.js").EntryInput,
+        message: string | Event | Task | Array<Event | Task>,
+        options?: import("./ical.js").ICalParseOptions,
+    ): import("./ical.js").ITipReplyResult {
+        return processITipReply(normalizeEntry(value), message, options);
+    },
+    /**
+     * Accept a counter proposal and build the REQUEST for the new version.
+     * @param value Organizer's Event or Task, or a JsCal instance.
+     * @param counter Counter proposal from processITipReply.
+     * @param options iTIP message options.
+     * @return REQUEST message whose object is the updated organizer copy.
+     */
+    acceptITipCounter(
+        value: import("./jscal/types.js").EntryInput,
+        counter: import("./ical.js").ITipCounter,
+        options?: import("./ical.js").ITipOptions,
+    ): import("./ical.js").ITipMessage {
+        return acceptITipCounter(normalizeEntry(value), counter, options);
+    },
+    /**
+     * Build an iTIP DECLINECOUNTER for a counter proposal.
+     * @param value Organizer's Event or Task, or a JsCal instance.
+     * @param counter Counter proposal from processITipReply.
+     * @param options iTIP message options.
+     * @return DECLINECOUNTER message.
+     */
+    createITipDeclineCounter(
+        value: import("./jscal/types.js").EntryInput,
+        counter: import("./ical.js").ITipCounter,
+        options?: import("./ical.js").ITipOptions,
+    ): import("./ical.js").ITipMessage {
+        return createITipDeclineCounter(
+            normalizeEntry(value),
+            counter,
+            options,
+        );
+    },
+    /**
+     * Wrap an iTIP message into an iMIP (RFC 6047) email.
+     * @param message iTIP message from one of the createITip helpers.
+     * @param options Addresses, headers, and attachment options.
+     * @return RFC 5322 message text.
+     */
+    toIMip(
+        message: import("./ical.js").ITipMessage,
+        options: import("./ical.js").IMipOptions,
+    ): string {
+        return toIMip(message, options);
+    },
+    /**
+     * Extract and import the calendar of an iMIP email.
+     * @param raw RFC 5322 message text.
+     * @param options iCalendar import options.
+     * @return Imported Event, Task, and Group objects.
+     */
+    fromIMip(
+        raw: string,
+        options?: import("./ical.js").ICalParseOptions,
+    ): JSCalendarObject[] {
+        return fromIMip(raw, options);
+    },
 };
@@ -1,12 +1,23 @@
-import type { Event } from "../types.js";
+import type {
+    CustomTimeZoneId,
+    Event,
+    TimeZoneAlias,
+    TimeZoneInput,
+} from "../types.js";
 import { resolveTimeZone } from "../timezones.js";
+import { isCustomTimeZoneId } from "../timezones/resolver.js";
 import { deepClone, nowUtc } from "../utils.js";
 import { applyCommonDefaults, applyEventDefaults } from "./defaults.js";
 import { durationFromSeconds } from "./duration.js";
 import { createUid } from "./ids.js";
 import { toLocalDateTime, toUtcDateTime } from "./datetime.js";
-import type { CreateOptions, EventInput } from "./types.js";
+import type {
+    CreateOptions,
+    EventInput,
+    WithTimeZoneOptions,
+} from "./types.js";
 import { Base } from "./base.js";
+import { moveToTimeZone } from "./relocate.js";
 import { isStringValue, isNumberValue } from "../utils.js";
 import { eventSchema } from "../validate/schemas.js";
 import { validateWithSchema } from "../validate/common.js";
@@ -25,7 +36,7 @@ export class EventObject extends Base<Event, EventObject> {
     /**
      * Create an event with normalized dates, duration, and RFC defaults.
      * @param input Event input values to normalize.
-     * @param options Creation options (validation, clock).
+     * @param options Creation options (validation, clock, time zone mode).
      * @return EventObject instance.
      */
     constructor(input: EventInput, options: CreateOptions = {}) {
@@ -50,7 +61,11 @@ export class EventObject extends Base<Event, EventObject> {
         if (rawTimeZone === null) {
             timeZone = null;
         } else if (rawTimeZone) {
-            timeZone = resolveTimeZone(rawTimeZone);
+            timeZone = isCustomTimeZoneId(rawTimeZone)
+                ? rawTimeZone
+                : resolveTimeZone(rawTimeZone, {
+                      mode: options.timeZoneMode ?? "lenient",
+                  });
         }
         const data: Event = {
             ...rest,
@@ -85,4 +100,30 @@ export class EventObject extends Base<Event, EventObject> {
     override clone(): EventObject {
         return this.wrap(deepClone(this.data));
     }
+
+    /**
+     * Move the event to another time zone. By default its local date-times
+     * are converted to keep their instants, and override keys and rule
+     * until bounds follow the series; "wallclock" keeps the local times.
+     * @param timeZone Target time zone, or null for floating time.
+     * @param options Preserve mode, time zone mode, and update options.
+     * @return New EventObject in the target time zone.
+     */
+    withTimeZone(
+        timeZone: TimeZoneInput | TimeZoneAlias | CustomTimeZoneId | null,
+        options: WithTimeZoneOptions = {},
+    ): EventObject {
+        const target =
+            timeZone === null || isCustomTimeZoneId(timeZone)
+                ? timeZone
+                : resolveTimeZone(timeZone, {
+                      mode: options.timeZoneMode ?? "lenient",
+                  });
+        const next = deepClone(this.data);
+        moveToTimeZone(next, target, options.preserve ?? "instant");
+        if (options.validate !== false) {
+            validateWithSchema(eventSchema, next);
+        }
+        return this.wrap(this.touchKeys(next, ["timeZone"], options));
+    }
 }
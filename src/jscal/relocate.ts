@@ -0,0 +1,163 @@
+import type {
+    CalendarTimeZoneId,
+    Event,
+    EventPatch,
+    LocalDateTime,
+    PatchObject,
+    RecurrenceRule,
+    Task,
+    TaskPatch,
+} from "../types.js";
+import type { TimeZoneDefinitions } from "../timezones/resolver.js";
+import { localDateTimeMilliseconds } from "../timezones/transitions.js";
+import { dateTimeInTimeZone, localDateTimeToUtcDate } from "../utils.js";
+import type { TimeZonePreserve } from "./types.js";
+
+const PATCH_ZONE_KEYS = ["timeZone", "/timeZone"];
+const PATCH_TIME_KEYS = ["start", "/start", "due", "/due"];
+
+type LocalConverter = (value: LocalDateTime) => LocalDateTime;
+
+/**
+ * Move an event or task to another time zone in place. With "instant", the
+ * start, due, and recurrence id are converted so they name the same moment
+ * in the new zone, and override keys and until bounds move by the same
+ * wall-clock shift as the series anchor so they keep matching its
+ * occurrences. With "wallclock", the local times stay as they are. Floating
+ * values have no instant, so they keep their wall-clock time in either mode,
+ * as do all-day objects (showWithoutTime).
+ * @param data Event or task to update.
+ * @param timeZone Target time zone, or null for floating time.
+ * @param preserve Whether to keep instants or wall-clock times.
+ * @return Nothing.
+ */
+export function moveToTimeZone(
+    data: Event | Task,
+    timeZone: CalendarTimeZoneId | null,
+    preserve: TimeZonePreserve,
+): void {
+    const source = data.timeZone ?? null;
+    const keepWallclock =
+        preserve === "wallclock" || data.showWithoutTime === true;
+    const convertFrom = (
+        value: LocalDateTime,
+        from: CalendarTimeZoneId | null,
+    ): LocalDateTime =>
+        keepWallclock
+            ? value
+            : convertLocal(value, from, timeZone, data.timeZones);
+    const convert: LocalConverter = (value) => convertFrom(value, source);
+    const anchor =
+        data["@type"] === "Task" ? (data.start ?? data.due) : data.start;
+    const shift = anchor
+        ? localDateTimeMilliseconds(convert(anchor)) -
+          localDateTimeMilliseconds(anchor)
+        : 0;
+    const follow: LocalConverter = (value) => shiftLocal(value, shift);
+
+    if (data.start) data.start = convert(data.start);
+    if (data.recurrenceId) {
+        const from =
+            data.recurrenceIdTimeZone === undefined
+                ? source
+                : data.recurrenceIdTimeZone;
+        data.recurrenceId = convertFrom(data.recurrenceId, from);
+        data.recurrenceIdTimeZone = timeZone;
+    }
+    moveRules(data.recurrenceRules, follow);
+    moveRules(data.excludedRecurrenceRules, follow);
+    if (data["@type"] === "Event") {
+        if (data.recurrenceOverrides) {
+            data.recurrenceOverrides = moveOverrides(
+                data.recurrenceOverrides,
+                follow,
+                convert,
+            );
+        }
+    } else {
+        if (data.due) data.due = convert(data.due);
+        if (data.recurrenceOverrides) {
+            data.recurrenceOverrides = moveOverrides(
+                data.recurrenceOverrides,
+                follow,
+                convert,
+            );
+        }
+    }
+    data.timeZone = timeZone;
+}
+
+/**
+ * Convert a LocalDateTime between time zones, keeping its instant.
+ * @param value LocalDateTime in the source zone.
+ * @param from Source time zone, or null for floating time.
+ * @param to Target time zone, or null for floating time.
+ * @param timeZones Custom time zone definitions of the object.
+ * @return LocalDateTime in the target zone.
+ */
+function convertLocal(
+    value: LocalDateTime,
+    from: CalendarTimeZoneId | null,
+    to: CalendarTimeZoneId | null,
+    timeZones?: TimeZoneDefinitions,
+): LocalDateTime {
+    if (!from || !to || from === to) return value;
+    const instant = localDateTimeToUtcDate(value, from, timeZones);
+    return dateTimeInTimeZone(instant, to, timeZones);
+}
+
+/**
+ * Move a LocalDateTime by a wall-clock amount.
+ * @param value LocalDateTime string.
+ * @param shift Milliseconds to add.
+ * @return Shifted LocalDateTime.
+ */
+function shiftLocal(value: LocalDateTime, shift: number): LocalDateTime {
+    if (shift === 0) return value;
+    return new Date(localDateTimeMilliseconds(value) + shift)
+        .toISOString()
+        .slice(0, 19);
+}
+
+/**
+ * Move the until bounds of recurrence rules in place.
+ * @param rules Recurrence rules, if any.
+ * @param follow Converter for series date-times.
+ * @return Nothing.
+ */
+function moveRules(
+    rules: RecurrenceRule[] | undefined,
+    follow: LocalConverter,
+): void {
+    for (const rule of rules ?? []) {
+        if (rule.until) rule.until = follow(rule.until);
+    }
+}
+
+/**
+ * Re-key recurrence overrides and convert the start and due values they
+ * patch, in plain or pointer ("/start") form. Patches that set their own
+ * time zone keep their values.
+ * @param overrides Recurrence overrides keyed by recurrence id.
+ * @param follow Converter for series date-times.
+ * @param convert Converter for instants in the source zone.
+ * @return Converted overrides.
+ */
+function moveOverrides<TPatch extends EventPatch | TaskPatch>(
+    overrides: Record<LocalDateTime, TPatch>,
+    follow: LocalConverter,
+    convert: LocalConverter,
+): Record<LocalDateTime, TPatch> {
+    const moved: Record<LocalDateTime, TPatch> = {};
+    for (const [recurrenceId, patch] of Object.entries(overrides)) {
+        const fields: PatchObject = patch;
+        if (PATCH_ZONE_KEYS.every((key) => fields[key] === undefined)) {
+            for (const key of PATCH_TIME_KEYS) {
+                const value = fields[key];
+                if (typeof value === "string") fields[key] = convert(value);
+            }
+        }
+        moved[follow(recurrenceId)] = patch;
+    }
+    return moved;
+}
@@ -1,11 +1,18 @@
-import type { Task } from "../types.js";
+import type {
+    CustomTimeZoneId,
+    Task,
+    TimeZoneAlias,
+    TimeZoneInput,
+} from "../types.js";
 import { resolveTimeZone } from "../timezones.js";
+import { isCustomTimeZoneId } from "../timezones/resolver.js";
 import { deepClone, nowUtc } from "../utils.js";
 import { applyCommonDefaults, applyTaskDefaults } from "./defaults.js";
 import { createUid } from "./ids.js";
 import { toLocalDateTime, toUtcDateTime } from "./datetime.js";
-import type { CreateOptions, TaskInput } from "./types.js";
+import type { CreateOptions, TaskInput, WithTimeZoneOptions } from "./types.js";
 import { Base } from "./base.js";
+import { moveToTimeZone } from "./relocate.js";
 import { taskSchema } from "../validate/schemas.js";
 import { validateWithSchema } from "../validate/common.js";
 
@@ -23,7 +30,7 @@ export class TaskObject extends Base<Task, TaskObject> {
     /**
      * Create a task with normalized date fields and RFC defaults applied.
      * @param input Task input values to normalize.
-     * @param options Creation options (validation, clock).
+     * @param options Creation options (validation, clock, time zone mode).
      * @return TaskObject instance.
      */
     constructor(input: TaskInput = {}, options: CreateOptions = {}) {
@@ -41,7 +48,11 @@ export class TaskObject extends Base<Task, TaskObject> {
         if (rawTimeZone === null) {
             timeZone = null;
         } else if (rawTimeZone) {
-            timeZone = resolveTimeZone(rawTimeZone);
+            timeZone = isCustomTimeZoneId(rawTimeZone)
+                ? rawTimeZone
+                : resolveTimeZone(rawTimeZone, {
+                      mode: options.timeZoneMode ?? "lenient",
+                  });
         }
         const data: Task = {
             ...rest,
@@ -72,4 +83,30 @@ export class TaskObject extends Base<Task, TaskObject> {
     override clone(): TaskObject {
         return this.wrap(deepClone(this.data));
     }
+
+    /**
+     * Move the task to another time zone. By default its local date-times
+     * are converted to keep their instants, and override keys and rule
+     * until bounds follow the series; "wallclock" keeps the local times.
+     * @param timeZone Target time zone, or null for floating time.
+     * @param options Preserve mode, time zone mode, and update options.
+     * @return New TaskObject in the target time zone.
+     */
+    withTimeZone(
+        timeZone: TimeZoneInput | TimeZoneAlias | CustomTimeZoneId | null,
+        options: WithTimeZoneOptions = {},
+    ): TaskObject {
+        const target =
+            timeZone === null || isCustomTimeZoneId(timeZone)
+                ? timeZone
+                : resolveTimeZone(timeZone, {
+                      mode: options.timeZoneMode ?? "lenient",
+                  });
+        const next = deepClone(this.data);
+        moveToTimeZone(next, target, options.preserve ?? "instant");
+        if (options.validate !== false) {
+            validateWithSchema(taskSchema, next);
+        }
+        return this.wrap(this.touchKeys(next, ["timeZone"], options));
+    }
 }
@@ -1,15 +1,19 @@
 import type {
+    CustomTimeZoneId,
     Event,
     Group,
     JSCalendarObject,
     Task,
+    TimeZoneAlias,
     TimeZoneInput,
+    TimeZoneMode,
     UTCDateTime,
 } from "../types.js";
 
 export type CreateOptions = {
     now?: () => UTCDateTime;
     validate?: boolean;
+    timeZoneMode?: TimeZoneMode;
 };
 
 export type UpdateOptions = {
@@ -19,6 +23,13 @@ export type UpdateOptions = {
     validate?: boolean;
 };
 
+export type TimeZonePreserve = "instant" | "wallclock";
+
+export type WithTimeZoneOptions = UpdateOptions & {
+    preserve?: TimeZonePreserve;
+    timeZoneMode?: TimeZoneMode;
+};
+
 export type DateInput = string | Date;
 export type DurationInput = string | number;
 export type EntryInput = Event | Task | { data: Event | Task };
@@ -28,7 +39,7 @@ export type EventInput = Omit<
 > & {
     start: DateInput;
     duration?: DurationInput;
-    timeZone?: TimeZoneInput | null;
+    timeZone?: TimeZoneInput | TimeZoneAlias | CustomTimeZoneId | null;
     uid?: string;
     updated?: DateInput;
     created?: DateInput;
@@ -42,7 +53,7 @@ export type TaskInput = Omit<
     created?: DateInput;
     start?: DateInput;
     due?: DateInput;
-    timeZone?: TimeZoneInput | null;
+    timeZone?: TimeZoneInput | TimeZoneAlias | CustomTimeZoneId | null;
 };
 export type GroupInput = Omit<
     Group,
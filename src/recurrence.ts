@@ -1,6 +1,8 @@
 export type {
     RecurrenceExpandOptions,
+    RecurrenceOccurrence,
     RecurrenceRange,
+    RecurrenceRecordOptions,
     RecurrencePage,
     RecurrencePageOptions,
 } from "./recurrence/types.js";
@@ -8,3 +10,13 @@ export {
     expandRecurrence,
     expandRecurrencePaged,
 } from "./recurrence/expand.js";
+export {
+    getOccurrence,
+    nextOccurrence,
+    occurrencesAfter,
+    previousOccurrence,
+} from "./recurrence/lookup.js";
+export {
+    formatOccurrenceId,
+    parseOccurrenceId,
+} from "./recurrence/occurrences.js";
@@ -0,0 +1,245 @@
+import type { CalendarMonth, CalendarYear, DateTime } from "./types.js";
+import {
+    RSCALE_CHINESE,
+    RSCALE_ETHIOPIC,
+    RSCALE_HEBREW,
+    RSCALE_ISLAMIC_CIVIL,
+} from "./constants.js";
+import { addDays, daysBetween } from "./date-utils.js";
+
+const CALENDAR_SCALES = new Set([
+    RSCALE_HEBREW,
+    RSCALE_CHINESE,
+    RSCALE_ISLAMIC_CIVIL,
+    RSCALE_ETHIOPIC,
+]);
+const FORMAT_LOCALE = "en-US";
+const FORMAT_TIME_ZONE = "UTC";
+const PART_YEAR = "year";
+const PART_RELATED_YEAR = "relatedYear";
+const PART_MONTH = "month";
+const PART_DAY = "day";
+const LEAP_SUFFIX = "L";
+const INTL_LEAP_SUFFIX = "bis";
+const MONTH_PROBE_DAYS = 28;
+const HEBREW_LEAP_YEAR_MONTHS = 13;
+const HEBREW_LEAP_MONTH = 6;
+const HEBREW_LEAP_CODE = "5L";
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+const years = new Map<string, CalendarYear>();
+
+type CalendarParts = {
+    year: number;
+    month: string;
+    day: number;
+};
+
+/**
+ * Check whether an rscale value names a supported non-Gregorian calendar.
+ * @param rscale RSCALE value in lower case.
+ * @return True for hebrew, chinese, islamic-civil, and ethiopic.
+ */
+export function isCalendarScale(rscale: string): boolean {
+    return CALENDAR_SCALES.has(rscale);
+}
+
+/**
+ * Get the calendar year containing a Gregorian date.
+ * @param calendar Calendar scale.
+ * @param date Gregorian date.
+ * @return Calendar year with its months.
+ */
+export function calendarYearOf(calendar: string, date: DateTime): CalendarYear {
+    const year = readParts(calendar, date).year;
+    return years.get(`${calendar}:${year}`) ?? buildYear(calendar, date, year);
+}
+
+/**
+ * Get the calendar year that follows another.
+ * @param calendar Calendar scale.
+ * @param year Calendar year.
+ * @return Next calendar year.
+ */
+export function nextCalendarYear(
+    calendar: string,
+    year: CalendarYear,
+): CalendarYear {
+    const cached = years.get(`${calendar}:${year.year + 1}`);
+    if (cached) return cached;
+    const last = year.months[year.months.length - 1];
+    if (!last) return calendarYearOf(calendar, addDays(year.start, 1));
+    return calendarYearOf(calendar, addDays(last.start, last.length));
+}
+
+/**
+ * Find the month of a calendar year that contains a Gregorian date.
+ * @param year Calendar year.
+ * @param date Gregorian date inside the year.
+ * @return Month and day of month, or undefined outside the year.
+ */
+export function findCalendarMonth(
+    year: CalendarYear,
+    date: DateTime,
+): { month: CalendarMonth; day: number } | undefined {
+    for (const month of year.months) {
+        const offset = daysBetween(month.start, date);
+        if (offset >= 0 && offset < month.length) {
+            return { month, day: offset + 1 };
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Build the month table of a calendar year by walking month starts.
+ * @param calendar Calendar scale.
+ * @param date Gregorian date inside the year.
+ * @param year Calendar year number.
+ * @return Calendar year, also stored in the cache.
+ */
+function buildYear(
+    calendar: string,
+    date: DateTime,
+    year: number,
+): CalendarYear {
+    let start = monthStart(calendar, {
+        ...date,
+        hour: 0,
+        minute: 0,
+        second: 0,
+    });
+    for (;;) {
+        const previous = monthStart(calendar, addDays(start, -1));
+        if (readParts(calendar, previous).year !== year) break;
+        start = previous;
+    }
+
+    const labels: string[] = [];
+    const months: CalendarMonth[] = [];
+    for (let cursor = start; ; ) {
+        const parts = readParts(calendar, cursor);
+        if (parts.year !== year) break;
+        const next = nextMonthStart(calendar, cursor);
+        labels.push(parts.month);
+        months.push({
+            code: "",
+            start: cursor,
+            length: daysBetween(cursor, next),
+        });
+        cursor = next;
+    }
+    months.forEach((month, index) => {
+        month.code = monthCode(
+            calendar,
+            labels[index] ?? "",
+            index + 1,
+            months,
+        );
+    });
+
+    const result: CalendarYear = { year, start, months };
+    years.set(`${calendar}:${year}`, result);
+    return result;
+}
+
+/**
+ * Map a formatted month to its RFC 7529 month code. Hebrew months are
+ * numbered by position, with Adar I as "5L" in leap years.
+ * @param calendar Calendar scale.
+ * @param label Month as formatted by Intl.
+ * @param ordinal 1-based position of the month in its year.
+ * @param months Months of the year.
+ * @return Month code such as "6" or "5L".
+ */
+function monthCode(
+    calendar: string,
+    label: string,
+    ordinal: number,
+    months: CalendarMonth[],
+): string {
+    if (calendar === RSCALE_HEBREW) {
+        if (months.length < HEBREW_LEAP_YEAR_MONTHS) return String(ordinal);
+        if (ordinal < HEBREW_LEAP_MONTH) return String(ordinal);
+        if (ordinal === HEBREW_LEAP_MONTH) return HEBREW_LEAP_CODE;
+        return String(ordinal - 1);
+    }
+    const number = Number.parseInt(label, 10);
+    return label.endsWith(INTL_LEAP_SUFFIX)
+        ? `${number}${LEAP_SUFFIX}`
+        : String(number);
+}
+
+/**
+ * Find the first day of the calendar month containing a date.
+ * @param calendar Calendar scale.
+ * @param date Gregorian date.
+ * @return Gregorian date of the month start.
+ */
+function monthStart(calendar: string, date: DateTime): DateTime {
+    return addDays(date, 1 - readParts(calendar, date).day);
+}
+
+/**
+ * Find the first day of the following calendar month. The probe lands in
+ * the next month for short months (the Ethiopic 13th month) and on day 29
+ * of the same month otherwise.
+ * @param calendar Calendar scale.
+ * @param start Gregorian date of a month start.
+ * @return Gregorian date of the next month start.
+ */
+function nextMonthStart(calendar: string, start: DateTime): DateTime {
+    let probe = addDays(start, MONTH_PROBE_DAYS);
+    let day = readParts(calendar, probe).day;
+    if (day < MONTH_PROBE_DAYS) return addDays(probe, 1 - day);
+    while (day !== 1) {
+        probe = addDays(probe, 1);
+        day = readParts(calendar, probe).day;
+    }
+    return probe;
+}
+
+/**
+ * Convert a Gregorian date to calendar fields with Intl.
+ * @param calendar Calendar scale.
+ * @param date Gregorian date.
+ * @return Calendar year, formatted month, and day of month.
+ */
+function readParts(calendar: string, date: DateTime): CalendarParts {
+    const parts = formatterFor(calendar).formatToParts(
+        new Date(Date.UTC(date.year, date.month - 1, date.day)),
+    );
+    const result: CalendarParts = { year: 0, month: "", day: 0 };
+    for (const part of parts) {
+        // Chinese dates report the Gregorian-aligned year as relatedYear,
+        // which older TypeScript libs do not list as a part type.
+        const type: string = part.type;
+        if (type === PART_RELATED_YEAR || type === PART_YEAR) {
+            result.year = Number.parseInt(part.value, 10);
+        } else if (type === PART_MONTH) {
+            result.month = part.value;
+        } else if (type === PART_DAY) {
+            result.day = Number.parseInt(part.value, 10);
+        }
+    }
+    return result;
+}
+
+/**
+ * Get a cached date formatter for a calendar.
+ * @param calendar Calendar scale.
+ * @return Formatter producing numeric calendar fields in UTC.
+ */
+function formatterFor(calendar: string): Intl.DateTimeFormat {
+    const cached = formatters.get(calendar);
+    if (cached) return cached;
+    const formatter = new Intl.DateTimeFormat(FORMAT_LOCALE, {
+        calendar,
+        timeZone: FORMAT_TIME_ZONE,
+        year: "numeric",
+        month: "numeric",
+        day: "numeric",
+    });
+    formatters.set(calendar, formatter);
+    return formatter;
+}
@@ -1,6 +1,11 @@
 export const TYPE_EVENT = "Event";
 export const TYPE_TASK = "Task";
+export const TYPE_GROUP = "Group";
 export const RSCALE_GREGORIAN = "gregorian";
+export const RSCALE_HEBREW = "hebrew";
+export const RSCALE_CHINESE = "chinese";
+export const RSCALE_ISLAMIC_CIVIL = "islamic-civil";
+export const RSCALE_ETHIOPIC = "ethiopic";
 export const SKIP_OMIT = "omit";
 export const SKIP_FORWARD = "forward";
 export const SKIP_BACKWARD = "backward";
@@ -11,3 +16,6 @@ export const FREQ_DAILY = "daily";
 export const FREQ_HOURLY = "hourly";
 export const FREQ_MINUTELY = "minutely";
 export const FREQ_SECONDLY = "secondly";
+export const DST_SHIFT_FORWARD = "shift-forward";
+export const DST_SKIP = "skip";
+export const DST_LATER = "later";
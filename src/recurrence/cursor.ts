@@ -0,0 +1,68 @@
+export type PageKey = {
+    instant: number | null;
+    uid: string;
+    recurrenceId: string;
+};
+
+/**
+ * Order page keys by instant, then uid, then recurrenceId. Keys without an
+ * instant sort last.
+ * @param a Key A.
+ * @param b Key B.
+ * @return Negative/zero/positive comparison result.
+ */
+export function comparePageKeys(a: PageKey, b: PageKey): number {
+    if (a.instant !== b.instant) {
+        if (a.instant === null) return 1;
+        if (b.instant === null) return -1;
+        return a.instant < b.instant ? -1 : 1;
+    }
+    if (a.uid !== b.uid) return a.uid < b.uid ? -1 : 1;
+    if (a.recurrenceId !== b.recurrenceId) {
+        return a.recurrenceId < b.recurrenceId ? -1 : 1;
+    }
+    return 0;
+}
+
+/**
+ * Encode a page key as an opaque, URL-safe cursor.
+ * @param key Page key.
+ * @return Base64url cursor.
+ */
+export function encodeCursor(key: PageKey): string {
+    const json = JSON.stringify([key.instant, key.uid, key.recurrenceId]);
+    let binary = "";
+    for (const byte of new TextEncoder().encode(json)) {
+        binary += String.fromCharCode(byte);
+    }
+    return btoa(binary)
+        .replace(/\+/g, "-")
+        .replace(/\//g, "_")
+        .replace(/=+$/, "");
+}
+
+/**
+ * Decode a cursor produced by encodeCursor.
+ * @param cursor Base64url cursor.
+ * @return Page key.
+ */
+export function decodeCursor(cursor: string): PageKey {
+    let parsed: unknown;
+    try {
+        const binary = atob(cursor.replace(/-/g, "+").replace(/_/g, "/"));
+        const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+        parsed = JSON.parse(new TextDecoder().decode(bytes));
+    } catch {
+        throw new Error(`Invalid recurrence cursor: ${cursor}`);
+    }
+    if (
+        !Array.isArray(parsed) ||
+        parsed.length !== 3 ||
+        (parsed[0] !== null && typeof parsed[0] !== "number") ||
+        typeof parsed[1] !== "string" ||
+        typeof parsed[2] !== "string"
+    ) {
+        throw new Error(`Invalid recurrence cursor: ${cursor}`);
+    }
+    return { instant: parsed[0], uid: parsed[1], recurrenceId: parsed[2] };
+}
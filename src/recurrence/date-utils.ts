@@ -312,6 +312,39 @@ export function daysBetween(a: DateTime, b: DateTime): number {
     return Math.floor((msB - msA) / (24 * 3600 * 1000));
 }
 
+/**
+ * Count whole recurrence periods between two date-times.
+ * @param a Start date-time.
+ * @param b End date-time.
+ * @param frequency Recurrence frequency.
+ * @param firstDay First day of week for weekly periods.
+ * @return Number of period boundaries crossed from a to b.
+ */
+export function periodsBetween(
+    a: DateTime,
+    b: DateTime,
+    frequency: RecurrenceRule["frequency"],
+    firstDay: DayOfWeek,
+): number {
+    if (frequency === FREQ_YEARLY) return b.year - a.year;
+    if (frequency === FREQ_MONTHLY) {
+        return (b.year - a.year) * 12 + (b.month - a.month);
+    }
+    if (frequency === FREQ_WEEKLY) {
+        return Math.floor(
+            daysBetween(startOfWeek(a, firstDay), startOfWeek(b, firstDay)) / 7,
+        );
+    }
+    if (frequency === FREQ_DAILY) return daysBetween(a, b);
+    const seconds =
+        (Date.UTC(b.year, b.month - 1, b.day, b.hour, b.minute, b.second) -
+            Date.UTC(a.year, a.month - 1, a.day, a.hour, a.minute, a.second)) /
+        1000;
+    if (frequency === FREQ_HOURLY) return Math.floor(seconds / 3600);
+    if (frequency === FREQ_MINUTELY) return Math.floor(seconds / 60);
+    return Math.floor(seconds);
+}
+
 /**
  * Compare two dates without time.
  * @param a First date.
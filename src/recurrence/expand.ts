@@ -1,156 +1,373 @@
 import type {
+    CalendarTimeZoneId,
+    DstPolicy,
     Event,
+    Group,
     JSCalendarObject,
     PatchLike,
     RecurrenceRule,
+    Relation,
     Task,
-    TimeZoneId,
 } from "../types.js";
+import type { TimeZoneDefinitions } from "../timezones/resolver.js";
 import { applyPatch } from "../patch.js";
 import {
     dateTimeInTimeZone,
     localDateTimeFromDate,
-    localDateTimeToUtcDate,
+    resolveLocalDateTime,
 } from "../utils.js";
-import { TYPE_EVENT, TYPE_TASK } from "./constants.js";
+import {
+    DST_SHIFT_FORWARD,
+    DST_SKIP,
+    TYPE_EVENT,
+    TYPE_GROUP,
+    TYPE_TASK,
+} from "./constants.js";
 import type {
     RecurrenceExpandOptions,
+    RecurrenceOccurrence,
+    RecurrencePage,
     RecurrencePageOptions,
     RecurrenceRange,
+    RecurrenceRecordOptions,
 } from "./types.js";
-import { expandRule } from "./rules.js";
+import type { PageKey } from "./cursor.js";
+import { comparePageKeys, decodeCursor, encodeCursor } from "./cursor.js";
+import { distinctSorted, exceptSorted, mergeSorted } from "./merge.js";
+import type { OccurrenceSpan } from "./occurrences.js";
+import {
+    localToDate,
+    occurrenceSpan,
+    seriesAnchor,
+    toOccurrenceRecord,
+} from "./occurrences.js";
+import { iterateRule } from "./rules.js";
+
+type SeriesBounds = {
+    from: Date;
+    to?: Date;
+};
+
+type SeriesEntry = {
+    object: JSCalendarObject;
+    source: JSCalendarObject;
+};
+
+type PageEntry = {
+    object: JSCalendarObject;
+    key: PageKey;
+};
 
 /**
- * Expand recurrence into occurrences sorted by recurrenceId/start.
+ * Expand recurrence into occurrences sorted by recurrenceId/start. Every
+ * series is expanded lazily and the series are merged with a priority
+ * queue, so consumers that stop early only pay for what they read.
+ * Items without a start sort last, in input order. With `overlap` an
+ * occurrence is included when its span intersects the range instead of
+ * when its recurrenceId lies inside it. With `expandGroups` the entries
+ * of groups are expanded in place of the group. With `records` each
+ * occurrence is wrapped in a record with its occurrence id and UTC span.
  * @param items JSCalendar objects to expand.
  * @param range Date range bounds.
  * @param options Expansion options.
- * @return Generator of expanded occurrences.
+ * @return Generator of expanded occurrences or occurrence records.
  */
+export function expandRecurrence(
+    items: JSCalendarObject[],
+    range: RecurrenceRange,
+    options: RecurrenceRecordOptions,
+): Generator<RecurrenceOccurrence>;
+export function expandRecurrence(
+    items: JSCalendarObject[],
+    range: RecurrenceRange,
+    options?: RecurrenceExpandOptions,
+): Generator<JSCalendarObject>;
+export function expandRecurrence(
+    items: JSCalendarObject[],
+    range: RecurrenceRange,
+    options?: RecurrenceExpandOptions | RecurrenceRecordOptions,
+): Generator<JSCalendarObject> | Generator<RecurrenceOccurrence>;
 export function* expandRecurrence(
     items: JSCalendarObject[],
     range: RecurrenceRange,
+    options: RecurrenceExpandOptions | RecurrenceRecordOptions = {},
+): Generator<JSCalendarObject | RecurrenceOccurrence> {
+    const entries = mergeSorted(
+        items.flatMap((item) => leafSeries(item, range, options)),
+        compareEntries,
+    );
+
+    if ("records" in options && options.records) {
+        for (const entry of entries) {
+            yield toOccurrenceRecord(
+                entry.object,
+                entry.source,
+                options.dstPolicy,
+            );
+        }
+        return;
+    }
+    for (const entry of entries) {
+        yield entry.object;
+    }
+}
+
+/**
+ * Expand one item into its occurrences in recurrenceId order. Without an
+ * upper bound the series is walked until its rules end, so unbounded rules
+ * yield forever. Groups are returned as is unless `expandGroups` is set.
+ * @param item JSCalendar object to expand.
+ * @param bounds Lower bound and optional upper bound.
+ * @param options Expansion options.
+ * @return Iterable of occurrences.
+ */
+export function* expandSeries(
+    item: JSCalendarObject,
+    bounds: SeriesBounds,
     options: RecurrenceExpandOptions = {},
 ): Generator<JSCalendarObject> {
-    const occurrences: Array<{
-        value: JSCalendarObject;
-        key?: string;
-        index: number;
-    }> = [];
-    let index = 0;
-    const includeAnchor = options.includeAnchor ?? true;
+    for (const entry of seriesEntries(item, bounds, options)) {
+        yield entry.object;
+    }
+}
 
-    for (const item of items) {
-        if (item["@type"] === TYPE_EVENT) {
-            for (const occurrence of expandEvent(item, range, includeAnchor)) {
-                occurrences.push({
-                    value: occurrence,
-                    key: occurrenceKey(occurrence),
-                    index,
-                });
-                index += 1;
-            }
-            continue;
-        }
-        if (item["@type"] === TYPE_TASK) {
-            for (const occurrence of expandTask(item, range, includeAnchor)) {
-                occurrences.push({
-                    value: occurrence,
-                    key: occurrenceKey(occurrence),
-                    index,
-                });
-                index += 1;
-            }
-            continue;
-        }
-        occurrences.push({ value: item, key: occurrenceKey(item), index });
-        index += 1;
+/**
+ * Expand one item like expandSeries, pairing each occurrence with the
+ * event or task it came from.
+ * @param item JSCalendar object to expand.
+ * @param bounds Lower bound and optional upper bound.
+ * @param options Expansion options.
+ * @return Generator of occurrences with their source.
+ */
+function seriesEntries(
+    item: JSCalendarObject,
+    bounds: SeriesBounds,
+    options: RecurrenceExpandOptions,
+): Generator<SeriesEntry> {
+    return mergeSorted(leafSeries(item, bounds, options), compareEntries);
+}
+
+/**
+ * Split an item into its event and task series, one per group entry when
+ * groups are expanded. Each series is sorted on its own, so callers can
+ * merge them in any consistent order.
+ * @param item JSCalendar object to expand.
+ * @param bounds Lower bound and optional upper bound.
+ * @param options Expansion options.
+ * @return Series of occurrences with their source.
+ */
+function leafSeries(
+    item: JSCalendarObject,
+    bounds: SeriesBounds,
+    options: RecurrenceExpandOptions,
+): Iterable<SeriesEntry>[] {
+    if (item["@type"] !== TYPE_GROUP) {
+        return [sourceEntries(item, bounds, options)];
     }
+    if (!options.expandGroups) return [[{ object: item, source: item }]];
+    return item.entries.map((entry) =>
+        sourceEntries(groupEntry(item, entry), bounds, options),
+    );
+}
 
-    occurrences.sort((a, b) => {
-        if (a.key && b.key) return a.key.localeCompare(b.key);
-        if (a.key) return -1;
-        if (b.key) return 1;
-        return a.index - b.index;
-    });
+/**
+ * Expand an event or task, pairing each occurrence with it.
+ * @param item Event or task to expand.
+ * @param bounds Lower bound and optional upper bound.
+ * @param options Expansion options.
+ * @return Generator of occurrences with their source.
+ */
+function* sourceEntries(
+    item: Event | Task,
+    bounds: SeriesBounds,
+    options: RecurrenceExpandOptions,
+): Generator<SeriesEntry> {
+    const includeAnchor = options.includeAnchor ?? true;
+    const overlap = options.overlap ?? false;
+    const dstPolicy = options.dstPolicy ?? DST_SHIFT_FORWARD;
+    const occurrences =
+        item["@type"] === TYPE_EVENT
+            ? expandEvent(item, bounds, includeAnchor, overlap, dstPolicy)
+            : expandTask(item, bounds, includeAnchor, overlap, dstPolicy);
+    for (const object of occurrences) {
+        yield { object, source: item };
+    }
+}
 
-    for (const occurrence of occurrences) {
-        yield occurrence.value;
+/**
+ * Prepare a group entry for expansion: link it to the group with a parent
+ * relation and inherit the group's timeZone and locale when the entry does
+ * not set them, and the group's custom time zone definitions.
+ * @param group Owning group.
+ * @param entry Event or task from the group's entries.
+ * @return Entry copy with the group's context applied.
+ */
+export function groupEntry(group: Group, entry: Event | Task): Event | Task {
+    const parent: Relation = {
+        "@type": "Relation",
+        relation: { parent: true },
+    };
+    const result = {
+        ...entry,
+        relatedTo: { ...entry.relatedTo, [group.uid]: parent },
+    };
+    if (result.timeZone === undefined && group.timeZone !== undefined) {
+        result.timeZone = group.timeZone;
+    }
+    if (result.locale === undefined && group.locale !== undefined) {
+        result.locale = group.locale;
     }
+    if (group.timeZones !== undefined) {
+        result.timeZones = { ...group.timeZones, ...entry.timeZones };
+    }
+    return result;
 }
 
 /**
- * Expand recurrence paged into occurrences.
+ * Expand recurrence paged into occurrences. Pages are ordered by the UTC
+ * instant of the recurrenceId, then uid, then recurrenceId, so occurrences
+ * at the same time in different series are never lost between pages.
+ * Cursors are opaque. Paging backward returns the page that ends right
+ * before the cursor, or the last page of the range without one.
  * @param items JSCalendar objects to expand.
  * @param range Date range bounds.
  * @param options Pagination options.
- * @return Page of expanded items plus an optional next cursor.
+ * @return Page of expanded items with cursors and a hasMore flag.
  */
 export function expandRecurrencePaged(
     items: JSCalendarObject[],
     range: RecurrenceRange,
     options: RecurrencePageOptions,
-): { items: JSCalendarObject[]; nextCursor?: string } {
-    const result: JSCalendarObject[] = [];
-    let nextCursor: string | undefined;
-
-    for (const occurrence of expandRecurrence(items, range, options)) {
-        const key = occurrenceKey(occurrence);
-        if (options.cursor && key) {
-            if (key <= options.cursor) {
-                continue;
-            }
-        } else if (options.cursor && !key) {
-            continue;
-        }
+): RecurrencePage {
+    const cursor = options.cursor ? decodeCursor(options.cursor) : undefined;
+    const entries = mergeSorted(
+        items.flatMap((item) =>
+            leafSeries(item, range, options).map((series) =>
+                pageEntries(series, options.dstPolicy),
+            ),
+        ),
+        (a: PageEntry, b: PageEntry) => comparePageKeys(a.key, b.key),
+    );
 
-        result.push(occurrence);
-        if (key) {
-            nextCursor = key;
+    if (options.direction === "backward") {
+        const window: PageEntry[] = [];
+        for (const entry of entries) {
+            if (cursor && comparePageKeys(entry.key, cursor) >= 0) break;
+            window.push(entry);
+            // Keep one extra entry to tell whether more pages precede.
+            if (window.length > options.limit + 1) window.shift();
         }
-        if (result.length >= options.limit) {
+        const hasMore = window.length > options.limit;
+        return toPage(hasMore ? window.slice(1) : window, hasMore);
+    }
+
+    const page: PageEntry[] = [];
+    let hasMore = false;
+    for (const entry of entries) {
+        if (cursor && comparePageKeys(entry.key, cursor) <= 0) continue;
+        if (page.length >= options.limit) {
+            hasMore = true;
             break;
         }
+        page.push(entry);
+    }
+    return toPage(page, hasMore);
+}
+
+/**
+ * Attach page keys to the entries of one series.
+ * @param series Occurrences with their source, in series order.
+ * @param dstPolicy Policy for local times in daylight saving transitions.
+ * @return Generator of occurrences with page keys.
+ */
+function* pageEntries(
+    series: Iterable<SeriesEntry>,
+    dstPolicy?: DstPolicy,
+): Generator<PageEntry> {
+    for (const { object, source } of series) {
+        const value = object.recurrenceId ?? seriesAnchor(object);
+        const timeZone =
+            object.recurrenceIdTimeZone ?? source.timeZone ?? undefined;
+        yield {
+            object,
+            key: {
+                instant: value
+                    ? localToDate(
+                          value,
+                          timeZone,
+                          source.timeZones,
+                          dstPolicy,
+                      ).getTime()
+                    : null,
+                uid: source.uid,
+                recurrenceId: object.recurrenceId ?? "",
+            },
+        };
     }
+}
 
-    return { items: result, nextCursor };
+/**
+ * Build a page from its entries.
+ * @param entries Entries of the page in order.
+ * @param hasMore Whether more entries exist in the paging direction.
+ * @return Page with cursors for both ends.
+ */
+function toPage(entries: PageEntry[], hasMore: boolean): RecurrencePage {
+    const first = entries[0];
+    const last = entries[entries.length - 1];
+    return {
+        items: entries.map((entry) => entry.object),
+        nextCursor: last ? encodeCursor(last.key) : undefined,
+        previousCursor: first ? encodeCursor(first.key) : undefined,
+        hasMore,
+    };
 }
 
 /**
  * Expand event into occurrences.
  * @param event Event to expand.
- * @param range Date range bounds.
+ * @param bounds Date bounds.
  * @param includeAnchor Whether the source event should be included.
+ * @param overlap Whether to match occurrence spans against the bounds.
+ * @param dstPolicy Policy for local times in daylight saving transitions.
  * @return Generator of expanded occurrences.
  */
 function expandEvent(
     event: Event,
-    range: RecurrenceRange,
+    bounds: SeriesBounds,
     includeAnchor: boolean,
+    overlap: boolean,
+    dstPolicy: DstPolicy,
 ): Generator<JSCalendarObject> {
     return expandObject(
         event,
-        range,
+        bounds,
         event.start,
         event.recurrenceRules,
         event.excludedRecurrenceRules,
         event.recurrenceOverrides,
         event.timeZone ?? null,
         includeAnchor,
+        overlap,
+        dstPolicy,
     );
 }
 
 /**
  * Expand task into occurrences.
  * @param task Task to expand.
- * @param range Date range bounds.
+ * @param bounds Date bounds.
  * @param includeAnchor Whether the source task should be included.
+ * @param overlap Whether to match occurrence spans against the bounds.
+ * @param dstPolicy Policy for local times in daylight saving transitions.
  * @return Generator of expanded occurrences.
  */
 function expandTask(
     task: Task,
-    range: RecurrenceRange,
+    bounds: SeriesBounds,
     includeAnchor: boolean,
+    overlap: boolean,
+    dstPolicy: DstPolicy,
 ): Generator<JSCalendarObject> {
     const anchor = task.start ?? task.due;
     if (!anchor) {
@@ -158,13 +375,15 @@ function expandTask(
     }
     return expandObject(
         task,
-        range,
+        bounds,
         anchor,
         task.recurrenceRules,
         task.excludedRecurrenceRules,
         task.recurrenceOverrides,
         task.timeZone ?? null,
         includeAnchor,
+        overlap,
+        dstPolicy,
     );
 }
 
@@ -180,60 +399,103 @@ function occurrenceKey(value: JSCalendarObject): string | undefined {
     return undefined;
 }
 
+/**
+ * Order occurrences by their key; occurrences without one sort last.
+ * @param a Occurrence A.
+ * @param b Occurrence B.
+ * @return Negative/zero/positive comparison result.
+ */
+function compareOccurrences(a: JSCalendarObject, b: JSCalendarObject): number {
+    const aKey = occurrenceKey(a);
+    const bKey = occurrenceKey(b);
+    if (aKey === bKey) return 0;
+    if (aKey === undefined) return 1;
+    if (bKey === undefined) return -1;
+    return aKey < bKey ? -1 : 1;
+}
+
+/**
+ * Order series entries by the key of their occurrence.
+ * @param a Entry A.
+ * @param b Entry B.
+ * @return Negative/zero/positive comparison result.
+ */
+function compareEntries(a: SeriesEntry, b: SeriesEntry): number {
+    return compareOccurrences(a.object, b.object);
+}
+
 /**
  * Expand object into occurrences.
  * @param base Base JSCalendar object.
- * @param range Date range bounds.
+ * @param bounds Date bounds; without an upper bound the rules run unbounded.
  * @param anchor Anchor LocalDateTime for the series.
  * @param rules Inclusion recurrence rules.
  * @param excludedRules Exclusion recurrence rules.
  * @param overrides Recurrence overrides keyed by LocalDateTime.
  * @param recurrenceIdTimeZone Optional time zone for recurrence IDs.
  * @param includeAnchor Whether the source item should be included.
+ * @param overlap Whether to match occurrence spans against the bounds.
+ * @param dstPolicy Policy for local times in daylight saving transitions.
  * @return Generator of expanded occurrences.
  */
 function* expandObject(
     base: JSCalendarObject,
-    range: RecurrenceRange,
+    bounds: SeriesBounds,
     anchor: string,
     rules?: RecurrenceRule[],
     excludedRules?: RecurrenceRule[],
     overrides?: Record<string, PatchLike>,
-    recurrenceIdTimeZone?: TimeZoneId | null,
+    recurrenceIdTimeZone?: CalendarTimeZoneId | null,
     includeAnchor = true,
+    overlap = false,
+    dstPolicy: DstPolicy = DST_SHIFT_FORWARD,
 ): Generator<JSCalendarObject> {
-    const hasZone = Boolean(recurrenceIdTimeZone);
-    const fromLocal =
-        hasZone && recurrenceIdTimeZone
-            ? dateTimeInTimeZone(range.from, recurrenceIdTimeZone)
-            : localDateTimeFromDate(range.from);
-    const toLocal =
-        hasZone && recurrenceIdTimeZone
-            ? dateTimeInTimeZone(range.to, recurrenceIdTimeZone)
-            : localDateTimeFromDate(range.to);
-    const fromDate = range.from;
-    const toDate = range.to;
-
-    const overrideKeys = overrides ? Object.keys(overrides) : [];
+    const timeZone = recurrenceIdTimeZone ?? undefined;
+    const timeZones = base.timeZones;
+    // Occurrences that start up to one base span before the range can
+    // still overlap it.
+    const baseSpan = overlap ? occurrenceSpan(base, timeZone, dstPolicy) : null;
+    const walkFrom = baseSpan
+        ? new Date(
+              bounds.from.getTime() -
+                  (baseSpan.end.getTime() - baseSpan.start.getTime()),
+          )
+        : bounds.from;
+    const fromLocal = timeZone
+        ? dateTimeInTimeZone(walkFrom, timeZone, timeZones)
+        : localDateTimeFromDate(walkFrom);
+    const toLocal = !bounds.to
+        ? undefined
+        : timeZone
+          ? dateTimeInTimeZone(bounds.to, timeZone, timeZones)
+          : localDateTimeFromDate(bounds.to);
+    const inRange = (value: string): boolean =>
+        timeZone
+            ? isInRangeWithZone(value, bounds, timeZone, timeZones, dstPolicy)
+            : isInRange(value, fromLocal, toLocal);
+    const accept = (value: string, occurrence: JSCalendarObject): boolean => {
+        if (!overlap) return inRange(value);
+        const span = occurrenceSpan(occurrence, timeZone, dstPolicy);
+        return span ? overlapsBounds(span, bounds) : inRange(value);
+    };
+    const compare = (a: string, b: string): number =>
+        compareLocal(a, b, timeZone, timeZones, dstPolicy);
+    // With "skip", generated occurrences in a daylight saving gap are
+    // dropped; the series start and overrides are kept.
+    const skipped = (value: string): boolean =>
+        dstPolicy === DST_SKIP &&
+        timeZone !== undefined &&
+        resolveLocalDateTime(value, timeZone, dstPolicy, timeZones) === null;
+
+    const overrideKeys = overrides ? Object.keys(overrides).sort(compare) : [];
 
     if (!rules || rules.length === 0) {
-        if (includeAnchor) {
-            if (hasZone && recurrenceIdTimeZone) {
-                if (
-                    isInRangeWithZone(
-                        anchor,
-                        fromDate,
-                        toDate,
-                        recurrenceIdTimeZone,
-                    )
-                ) {
-                    yield base;
-                }
-            } else if (isInRange(anchor, fromLocal, toLocal)) {
-                yield base;
-            }
-        }
+        let pendingAnchor = includeAnchor;
         for (const key of overrideKeys) {
+            if (pendingAnchor && compare(anchor, key) <= 0) {
+                pendingAnchor = false;
+                if (accept(anchor, base)) yield base;
+            }
             const patch = overrides ? overrides[key] : undefined;
             const instance = buildInstance(
                 base,
@@ -241,88 +503,39 @@ function* expandObject(
                 recurrenceIdTimeZone,
                 patch,
             );
-            if (!instance) continue;
-            if (hasZone && recurrenceIdTimeZone) {
-                if (
-                    isInRangeWithZone(
-                        key,
-                        fromDate,
-                        toDate,
-                        recurrenceIdTimeZone,
-                    )
-                ) {
-                    yield instance;
-                }
-            } else if (isInRange(key, fromLocal, toLocal)) {
-                yield instance;
-            }
+            if (instance && accept(key, instance)) yield instance;
         }
+        if (pendingAnchor && accept(anchor, base)) yield base;
         return;
     }
 
-    const occurrences: string[] = [];
-    for (const rule of rules) {
-        const expanded = expandRule(
-            anchor,
-            rule,
-            fromLocal,
-            toLocal,
-            true,
-            recurrenceIdTimeZone ?? undefined,
-            fromDate,
-            toDate,
-        );
-        occurrences.push(...expanded);
-    }
-
-    const excluded = new Set<string>();
-    if (excludedRules && excludedRules.length > 0) {
-        for (const rule of excludedRules) {
-            const expanded = expandRule(
-                anchor,
-                rule,
-                fromLocal,
-                toLocal,
-                true,
-                recurrenceIdTimeZone ?? undefined,
-                fromDate,
-                toDate,
-            );
-            for (const value of expanded) {
-                excluded.add(value);
-            }
-        }
-    }
-
-    if (includeAnchor && !occurrences.includes(anchor)) {
-        occurrences.push(anchor);
-    }
-    for (const key of overrideKeys) {
-        if (!occurrences.includes(key)) {
-            occurrences.push(key);
-        }
-    }
-
-    let sorted = Array.from(new Set(occurrences)).sort((a, b) =>
-        compareLocal(a, b, recurrenceIdTimeZone ?? undefined),
+    // RFC 8984 section 4.3: the union of the rules (each with its own
+    // count), minus the excluded rules, plus the override keys.
+    const ruleDates = distinctSorted(
+        mergeSorted(
+            rules.map((rule) => iterateRule(anchor, rule, fromLocal, toLocal)),
+            compare,
+        ),
+    );
+    const excluded = mergeSorted(
+        (excludedRules ?? []).map((rule) =>
+            iterateRule(anchor, rule, fromLocal, toLocal, false),
+        ),
+        compare,
+    );
+    const candidates = distinctSorted(
+        mergeSorted(
+            [exceptSorted(ruleDates, excluded, compare), overrideKeys],
+            compare,
+        ),
     );
-    if (rules[0]?.count && sorted.length > rules[0].count) {
-        sorted = sorted.slice(0, rules[0].count);
-    }
 
-    for (const dt of sorted) {
+    for (const dt of candidates) {
         if (!includeAnchor && dt === anchor) continue;
-        if (excluded.has(dt)) continue;
         const patch = overrides ? overrides[dt] : undefined;
+        if (!patch && dt !== anchor && skipped(dt)) continue;
         const instance = buildInstance(base, dt, recurrenceIdTimeZone, patch);
-        if (!instance) continue;
-        if (hasZone && recurrenceIdTimeZone) {
-            if (isInRangeWithZone(dt, fromDate, toDate, recurrenceIdTimeZone)) {
-                yield instance;
-            }
-        } else if (isInRange(dt, fromLocal, toLocal)) {
-            yield instance;
-        }
+        if (instance && accept(dt, instance)) yield instance;
     }
 }
 
@@ -334,10 +547,10 @@ function* expandObject(
  * @param patch Override patch for the occurrence.
  * @return Occurrence instance or null if excluded.
  */
-function buildInstance(
+export function buildInstance(
     base: JSCalendarObject,
     recurrenceId: string,
-    recurrenceIdTimeZone: TimeZoneId | null | undefined,
+    recurrenceIdTimeZone: CalendarTimeZoneId | null | undefined,
     patch?: PatchLike,
 ): JSCalendarObject | null {
     const patched = patch ? applyPatch(base, patch) : base;
@@ -422,29 +635,43 @@ function isExcludedInstance(object: JSCalendarObject): boolean {
  * Check whether value is in range.
  * @param value LocalDateTime string.
  * @param from LocalDateTime lower bound.
- * @param to LocalDateTime upper bound.
+ * @param to Optional LocalDateTime upper bound.
  * @return True when value is within the range.
  */
-function isInRange(value: string, from: string, to: string): boolean {
-    return value >= from && value <= to;
+function isInRange(value: string, from: string, to?: string): boolean {
+    return value >= from && (to === undefined || value <= to);
 }
 
 /**
  * Check whether value is in range with zone.
  * @param value LocalDateTime string.
- * @param from Date lower bound.
- * @param to Date upper bound.
+ * @param bounds Date bounds.
  * @param timeZone Time zone for LocalDateTime conversion.
+ * @param timeZones Custom time zone definitions.
+ * @param dstPolicy Policy for local times in daylight saving transitions.
  * @return True when value is within the range.
  */
 function isInRangeWithZone(
     value: string,
-    from: Date,
-    to: Date,
-    timeZone: TimeZoneId,
+    bounds: SeriesBounds,
+    timeZone: CalendarTimeZoneId,
+    timeZones?: TimeZoneDefinitions,
+    dstPolicy: DstPolicy = DST_SHIFT_FORWARD,
 ): boolean {
-    const utc = localDateTimeToUtcDate(value, timeZone);
-    return utc >= from && utc <= to;
+    const utc = localToDate(value, timeZone, timeZones, dstPolicy);
+    return utc >= bounds.from && (!bounds.to || utc <= bounds.to);
+}
+
+/**
+ * Check whether an occurrence span intersects the bounds. Spans without
+ * length count when they fall inside the bounds.
+ * @param span Occurrence span.
+ * @param bounds Date bounds.
+ * @return True when the span overlaps the bounds.
+ */
+function overlapsBounds(span: OccurrenceSpan, bounds: SeriesBounds): boolean {
+    if (bounds.to && span.start > bounds.to) return false;
+    return span.end > bounds.from || span.start >= bounds.from;
 }
 
 /**
@@ -452,15 +679,23 @@ function isInRangeWithZone(
  * @param a LocalDateTime string A.
  * @param b LocalDateTime string B.
  * @param timeZone Optional time zone for comparison.
+ * @param timeZones Custom time zone definitions.
+ * @param dstPolicy Policy for local times in daylight saving transitions.
  * @return Negative/zero/positive comparison result.
  */
-function compareLocal(a: string, b: string, timeZone?: TimeZoneId): number {
+function compareLocal(
+    a: string,
+    b: string,
+    timeZone?: CalendarTimeZoneId,
+    timeZones?: TimeZoneDefinitions,
+    dstPolicy: DstPolicy = DST_SHIFT_FORWARD,
+): number {
     if (!timeZone) {
         if (a === b) return 0;
         return a < b ? -1 : 1;
     }
-    const aUtc = localDateTimeToUtcDate(a, timeZone).getTime();
-    const bUtc = localDateTimeToUtcDate(b, timeZone).getTime();
+    const aUtc = localToDate(a, timeZone, timeZones, dstPolicy).getTime();
+    const bUtc = localToDate(b, timeZone, timeZones, dstPolicy).getTime();
     if (aUtc === bUtc) return 0;
     return aUtc < bUtc ? -1 : 1;
 }
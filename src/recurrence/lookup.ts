@@ -0,0 +1,158 @@
+import type { Event, JSCalendarObject, Task } from "../types.js";
+import { TYPE_GROUP } from "./constants.js";
+import type { RecurrenceExpandOptions, RecurrenceOccurrence } from "./types.js";
+import { expandSeries, groupEntry } from "./expand.js";
+import {
+    localToDate,
+    parseOccurrenceId,
+    seriesAnchor,
+    toOccurrenceRecord,
+} from "./occurrences.js";
+
+const SECOND_MS = 1000;
+const INITIAL_LOOKBACK_MS = 24 * 60 * 60 * SECOND_MS;
+const LOOKBACK_GROWTH = 4;
+const MAX_OFFSET_CHANGE_MS = 24 * 60 * 60 * SECOND_MS;
+
+/**
+ * Iterate the occurrences of an event or task that start after a date, in
+ * recurrenceId order. The rules are walked directly from the date, so the
+ * iterator is infinite for rules without count or until.
+ * @param item Event or task to expand.
+ * @param date Exclusive lower bound.
+ * @param options Expansion options.
+ * @return Generator of occurrences after the date.
+ */
+export function* occurrencesAfter(
+    item: Event | Task,
+    date: Date,
+    options: RecurrenceExpandOptions = {},
+): Generator<JSCalendarObject> {
+    const from = new Date(
+        Math.floor(date.getTime() / SECOND_MS) * SECOND_MS + SECOND_MS,
+    );
+    yield* expandSeries(item, { from }, options);
+}
+
+/**
+ * Find the first occurrence of an event or task after a date.
+ * @param item Event or task to expand.
+ * @param after Exclusive lower bound.
+ * @param options Expansion options.
+ * @return Next occurrence, or undefined when the series has ended.
+ */
+export function nextOccurrence(
+    item: Event | Task,
+    after: Date,
+    options: RecurrenceExpandOptions = {},
+): JSCalendarObject | undefined {
+    for (const occurrence of occurrencesAfter(item, after, options)) {
+        return occurrence;
+    }
+    return undefined;
+}
+
+/**
+ * Find the last occurrence of an event or task before a date. Rules cannot
+ * be walked backwards, so growing windows ending at the date are expanded
+ * until one holds an occurrence or reaches the start of the series.
+ * @param item Event or task to expand.
+ * @param before Exclusive upper bound.
+ * @param options Expansion options.
+ * @return Previous occurrence, or undefined when there is none.
+ */
+export function previousOccurrence(
+    item: Event | Task,
+    before: Date,
+    options: RecurrenceExpandOptions = {},
+): JSCalendarObject | undefined {
+    const to = new Date(
+        Math.ceil(before.getTime() / SECOND_MS) * SECOND_MS - SECOND_MS,
+    );
+    const earliest = seriesStart(item);
+    if (!earliest || earliest > to) return undefined;
+
+    for (let span = INITIAL_LOOKBACK_MS; ; span *= LOOKBACK_GROWTH) {
+        const from = new Date(
+            Math.max(to.getTime() - span, earliest.getTime()),
+        );
+        let last: JSCalendarObject | undefined;
+        for (const occurrence of expandSeries(item, { from, to }, options)) {
+            last = occurrence;
+        }
+        if (last) return last;
+        if (from <= earliest) return undefined;
+    }
+}
+
+/**
+ * Look up one occurrence by its occurrence id. The rules are only expanded
+ * in a window around the occurrence's recurrenceId, padded by the largest
+ * possible offset change so ids in a DST gap or overlap are still produced,
+ * and matched on the local recurrenceId. Group entries are found by uid.
+ * @param item Event, task, or group holding the series.
+ * @param occurrenceId Occurrence id from an occurrence record.
+ * @param options Expansion options.
+ * @return Occurrence record, or undefined when the series has no such occurrence.
+ */
+export function getOccurrence(
+    item: JSCalendarObject,
+    occurrenceId: string,
+    options: RecurrenceExpandOptions = {},
+): RecurrenceOccurrence | undefined {
+    const { uid, recurrenceId } = parseOccurrenceId(occurrenceId);
+    const source = findSeries(item, uid);
+    const anchor = source ? seriesAnchor(source) : undefined;
+    if (!source || !anchor) return undefined;
+
+    const target = recurrenceId ?? anchor;
+    const at = localToDate(
+        target,
+        source.timeZone ?? undefined,
+        source.timeZones,
+    ).getTime();
+    const range = {
+        from: new Date(at - MAX_OFFSET_CHANGE_MS),
+        to: new Date(at + MAX_OFFSET_CHANGE_MS),
+    };
+    for (const occurrence of expandSeries(source, range, options)) {
+        if (occurrence.recurrenceId === recurrenceId) {
+            return toOccurrenceRecord(occurrence, source, options.dstPolicy);
+        }
+        if (occurrence.recurrenceId && occurrence.recurrenceId > target) {
+            break;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Find the series with a uid: the item itself or one of its group entries.
+ * @param item Event, task, or group.
+ * @param uid Uid to find.
+ * @return Event or task, with group context applied to entries.
+ */
+function findSeries(
+    item: JSCalendarObject,
+    uid: string,
+): Event | Task | undefined {
+    if (item["@type"] !== TYPE_GROUP) {
+        return item.uid === uid ? item : undefined;
+    }
+    const entry = item.entries.find((candidate) => candidate.uid === uid);
+    return entry ? groupEntry(item, entry) : undefined;
+}
+
+/**
+ * Find the earliest recurrence id of a series: its anchor or an earlier
+ * override key.
+ * @param item Event or task.
+ * @return Earliest recurrence id as a Date, or undefined without an anchor.
+ */
+function seriesStart(item: Event | Task): Date | undefined {
+    const anchor = seriesAnchor(item);
+    if (!anchor) return undefined;
+    const keys = Object.keys(item.recurrenceOverrides ?? {});
+    const first = [anchor, ...keys].reduce((a, b) => (b < a ? b : a));
+    return localToDate(first, item.timeZone ?? undefined, item.timeZones);
+}
@@ -0,0 +1,139 @@
+type HeapEntry<T> = {
+    value: T;
+    source: number;
+    iterator: Iterator<T>;
+};
+
+/**
+ * Merge sorted sequences lazily with a binary min-heap. Each source is only
+ * advanced when its current value has been yielded, so unbounded sources
+ * are fine. Equal values keep the order of their sources.
+ * @param sources Sequences, each sorted by compare.
+ * @param compare Comparison function for values.
+ * @return Generator of all values in order.
+ */
+export function* mergeSorted<T>(
+    sources: Iterable<T>[],
+    compare: (a: T, b: T) => number,
+): Generator<T> {
+    const heap: HeapEntry<T>[] = [];
+    const before = (a: HeapEntry<T>, b: HeapEntry<T>): boolean => {
+        const order = compare(a.value, b.value);
+        return order < 0 || (order === 0 && a.source < b.source);
+    };
+
+    sources.forEach((source, index) => {
+        const iterator = source[Symbol.iterator]();
+        const next = iterator.next();
+        if (!next.done) {
+            push(heap, { value: next.value, source: index, iterator }, before);
+        }
+    });
+
+    for (let top = heap[0]; top; top = heap[0]) {
+        yield top.value;
+        const next = top.iterator.next();
+        if (next.done) {
+            const last = heap.pop();
+            if (last && heap.length > 0) {
+                heap[0] = last;
+                siftDown(heap, before);
+            }
+        } else {
+            top.value = next.value;
+            siftDown(heap, before);
+        }
+    }
+}
+
+/**
+ * Remove consecutive duplicates from a sorted sequence.
+ * @param values Sorted values.
+ * @return Generator of distinct values.
+ */
+export function* distinctSorted<T>(values: Iterable<T>): Generator<T> {
+    let first = true;
+    let previous: T | undefined;
+    for (const value of values) {
+        if (!first && value === previous) continue;
+        first = false;
+        previous = value;
+        yield value;
+    }
+}
+
+/**
+ * Drop the values of a sorted sequence that occur in another one.
+ * @param values Sorted values.
+ * @param removed Sorted values to drop.
+ * @param compare Comparison function for values.
+ * @return Generator of the remaining values.
+ */
+export function* exceptSorted<T>(
+    values: Iterable<T>,
+    removed: Iterable<T>,
+    compare: (a: T, b: T) => number,
+): Generator<T> {
+    const iterator = removed[Symbol.iterator]();
+    let next = iterator.next();
+    for (const value of values) {
+        while (!next.done && compare(next.value, value) < 0) {
+            next = iterator.next();
+        }
+        if (!next.done && compare(next.value, value) === 0) continue;
+        yield value;
+    }
+}
+
+/**
+ * Add an entry to the heap.
+ * @param heap Heap array.
+ * @param entry Entry to add.
+ * @param before Heap ordering.
+ * @return Nothing.
+ */
+function push<T>(
+    heap: HeapEntry<T>[],
+    entry: HeapEntry<T>,
+    before: (a: HeapEntry<T>, b: HeapEntry<T>) => boolean,
+): void {
+    heap.push(entry);
+    let index = heap.length - 1;
+    while (index > 0) {
+        const parent = (index - 1) >> 1;
+        const parentEntry = heap[parent];
+        if (!parentEntry || !before(entry, parentEntry)) break;
+        heap[index] = parentEntry;
+        index = parent;
+    }
+    heap[index] = entry;
+}
+
+/**
+ * Restore the heap order after the root changed.
+ * @param heap Heap array.
+ * @param before Heap ordering.
+ * @return Nothing.
+ */
+function siftDown<T>(
+    heap: HeapEntry<T>[],
+    before: (a: HeapEntry<T>, b: HeapEntry<T>) => boolean,
+): void {
+    const entry = heap[0];
+    if (!entry) return;
+    let index = 0;
+    for (;;) {
+        const left = index * 2 + 1;
+        const right = left + 1;
+        let child = left;
+        const leftEntry = heap[left];
+        const rightEntry = heap[right];
+        if (!leftEntry) break;
+        if (rightEntry && before(rightEntry, leftEntry)) child = right;
+        const childEntry = heap[child];
+        if (!childEntry || !before(childEntry, entry)) break;
+        heap[index] = childEntry;
+        index = child;
+    }
+    heap[index] = entry;
+}
@@ -0,0 +1,171 @@
+import type {
+    CalendarTimeZoneId,
+    DstPolicy,
+    JSCalendarObject,
+} from "../types.js";
+import type { TimeZoneDefinitions } from "../timezones/resolver.js";
+import { durationToMilliseconds, resolveLocalDateTime } from "../utils.js";
+import { DST_SHIFT_FORWARD, TYPE_EVENT, TYPE_TASK } from "./constants.js";
+import type { RecurrenceOccurrence } from "./types.js";
+
+const OCCURRENCE_ID_SEPARATOR = "/";
+
+export type OccurrenceSpan = {
+    start: Date;
+    end: Date;
+};
+
+/**
+ * Build the occurrence id of an occurrence: the URI-encoded uid, followed
+ * by a slash and the recurrenceId when there is one.
+ * @param uid Uid of the series.
+ * @param recurrenceId Optional recurrence id.
+ * @return Occurrence id.
+ */
+export function formatOccurrenceId(uid: string, recurrenceId?: string): string {
+    const encoded = encodeURIComponent(uid);
+    return recurrenceId === undefined
+        ? encoded
+        : `${encoded}${OCCURRENCE_ID_SEPARATOR}${recurrenceId}`;
+}
+
+/**
+ * Split an occurrence id back into uid and recurrenceId.
+ * @param occurrenceId Occurrence id from formatOccurrenceId.
+ * @return Uid and optional recurrence id.
+ */
+export function parseOccurrenceId(occurrenceId: string): {
+    uid: string;
+    recurrenceId?: string;
+} {
+    const index = occurrenceId.indexOf(OCCURRENCE_ID_SEPARATOR);
+    if (index < 0) return { uid: decodeURIComponent(occurrenceId) };
+    return {
+        uid: decodeURIComponent(occurrenceId.slice(0, index)),
+        recurrenceId: occurrenceId.slice(index + 1),
+    };
+}
+
+/**
+ * Describe an expanded occurrence of a source item.
+ * @param object Occurrence as yielded by the expansion.
+ * @param source Event, task, or group the occurrence came from.
+ * @param dstPolicy Policy for local times in daylight saving transitions.
+ * @return Occurrence record.
+ */
+export function toOccurrenceRecord(
+    object: JSCalendarObject,
+    source: JSCalendarObject,
+    dstPolicy: DstPolicy = DST_SHIFT_FORWARD,
+): RecurrenceOccurrence {
+    const recurrenceId = object.recurrenceId;
+    const anchor = seriesAnchor(source);
+    const span = occurrenceSpan(
+        object,
+        source.timeZone ?? undefined,
+        dstPolicy,
+    );
+    return {
+        object,
+        occurrenceId: formatOccurrenceId(source.uid, recurrenceId),
+        utcStart: span ? span.start : null,
+        utcEnd: span ? span.end : null,
+        isOverride:
+            recurrenceId !== undefined &&
+            source.recurrenceOverrides !== undefined &&
+            Object.prototype.hasOwnProperty.call(
+                source.recurrenceOverrides,
+                recurrenceId,
+            ),
+        isAnchor:
+            anchor !== undefined &&
+            (recurrenceId === undefined || recurrenceId === anchor),
+        sourceUid: source.uid,
+    };
+}
+
+/**
+ * Get the anchor of a series: an event's start, or a task's start or due.
+ * @param item JSCalendar object.
+ * @return Anchor LocalDateTime, or undefined for groups and tasks without one.
+ */
+export function seriesAnchor(item: JSCalendarObject): string | undefined {
+    if (item["@type"] === TYPE_EVENT) return item.start;
+    if (item["@type"] === TYPE_TASK) return item.start ?? item.due;
+    return undefined;
+}
+
+/**
+ * Get the span of an occurrence: an event's start plus its duration, or a
+ * task's start (or due) up to its due. Times use the occurrence's own time
+ * zone, which an override may have changed, and its custom time zone
+ * definitions.
+ * @param value Occurrence object.
+ * @param fallbackTimeZone Series time zone for occurrences without one.
+ * @param dstPolicy Policy for local times in daylight saving transitions.
+ * @return Start and end dates, or null for other object types.
+ */
+export function occurrenceSpan(
+    value: JSCalendarObject,
+    fallbackTimeZone?: CalendarTimeZoneId,
+    dstPolicy: DstPolicy = DST_SHIFT_FORWARD,
+): OccurrenceSpan | null {
+    if (value["@type"] === TYPE_EVENT) {
+        const timeZone =
+            value.timeZone === undefined ? fallbackTimeZone : value.timeZone;
+        const start = localToDate(
+            value.start,
+            timeZone ?? undefined,
+            value.timeZones,
+            dstPolicy,
+        );
+        const ms = value.duration
+            ? (durationToMilliseconds(value.duration) ?? 0)
+            : 0;
+        return { start, end: new Date(start.getTime() + ms) };
+    }
+    if (value["@type"] === TYPE_TASK) {
+        const first = value.start ?? value.due;
+        if (!first) return null;
+        const timeZone =
+            value.timeZone === undefined ? fallbackTimeZone : value.timeZone;
+        const start = localToDate(
+            first,
+            timeZone ?? undefined,
+            value.timeZones,
+            dstPolicy,
+        );
+        const end = value.due
+            ? localToDate(
+                  value.due,
+                  timeZone ?? undefined,
+                  value.timeZones,
+                  dstPolicy,
+              )
+            : start;
+        return { start, end: end < start ? start : end };
+    }
+    return null;
+}
+
+/**
+ * Convert a LocalDateTime to a Date, in a time zone or as floating time.
+ * Skipped times in a gap still need an instant here, so they shift forward.
+ * @param value LocalDateTime string.
+ * @param timeZone Optional time zone.
+ * @param timeZones Custom time zone definitions.
+ * @param dstPolicy Policy for local times in daylight saving transitions.
+ * @return Date for the local time.
+ */
+export function localToDate(
+    value: string,
+    timeZone?: CalendarTimeZoneId,
+    timeZones?: TimeZoneDefinitions,
+    dstPolicy: DstPolicy = DST_SHIFT_FORWARD,
+): Date {
+    if (!timeZone) return new Date(value);
+    return (
+        resolveLocalDateTime(value, timeZone, dstPolicy, timeZones) ??
+        resolveLocalDateTime(value, timeZone, DST_SHIFT_FORWARD, timeZones)
+    );
+}
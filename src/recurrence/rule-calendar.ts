@@ -0,0 +1,405 @@
+import type { NDay, RecurrenceRule } from "../types.js";
+import type { CalendarMonth, CalendarYear, DateTime } from "./types.js";
+import {
+    FREQ_MONTHLY,
+    FREQ_YEARLY,
+    RSCALE_GREGORIAN,
+    SKIP_BACKWARD,
+    SKIP_FORWARD,
+    SKIP_OMIT,
+} from "./constants.js";
+import {
+    calendarYearOf,
+    findCalendarMonth,
+    isCalendarScale,
+    nextCalendarYear,
+} from "./calendars.js";
+import {
+    addDays,
+    compareDate,
+    dayOfWeek,
+    formatLocalDateTime,
+    parseLocalDateTime,
+} from "./date-utils.js";
+import { normalizeRule } from "./rule-normalize.js";
+import { applyBySetPos } from "./rule-selectors.js";
+
+const LEAP_SUFFIX = "L";
+
+type CalendarDay = {
+    date: DateTime;
+    day: number;
+    month: CalendarMonth;
+};
+
+type CalendarPeriod = {
+    year: CalendarYear;
+    index: number;
+};
+
+/**
+ * Decide whether a rule has to be expanded in a non-Gregorian calendar.
+ * Rules finer than monthly are calendar-independent unless they filter by
+ * month, month day, or year day.
+ * @param rule Recurrence rule.
+ * @return True for yearly and monthly rules with a non-Gregorian rscale.
+ */
+export function isCalendarRule(rule: RecurrenceRule): boolean {
+    if (!rule.rscale || rule.rscale === RSCALE_GREGORIAN) return false;
+    if (!isCalendarScale(rule.rscale)) {
+        throw new Error(`Unsupported rscale: ${rule.rscale}`);
+    }
+    if (rule.frequency === FREQ_YEARLY || rule.frequency === FREQ_MONTHLY) {
+        return true;
+    }
+    if (
+        rule.byMonth?.length ||
+        rule.byMonthDay?.length ||
+        rule.byYearDay?.length
+    ) {
+        throw new Error(
+            `Unsupported rscale rule: ${rule.frequency} rules cannot filter by ${rule.rscale} months or days`,
+        );
+    }
+    return false;
+}
+
+/**
+ * Generate the candidate periods of a yearly or monthly rule in its rscale
+ * calendar (RFC 7529). Months and days are counted in that calendar, leap
+ * months are written as "5L" in byMonth, and the skip policy moves missing
+ * months and days.
+ * @param start Anchor date-time of the rule.
+ * @param rule Recurrence rule with a non-Gregorian rscale.
+ * @param toLocal Local date-time upper bound (inclusive), or undefined for none.
+ * @return Generator of sorted date-time strings, one array per period.
+ */
+export function* calendarPeriods(
+    start: DateTime,
+    rule: RecurrenceRule,
+    toLocal: string | undefined,
+): Generator<string[]> {
+    const calendar = rule.rscale ?? RSCALE_GREGORIAN;
+    if (rule.byWeekNo && rule.byWeekNo.length > 0) {
+        throw new Error(`Unsupported rscale rule: byWeekNo with ${calendar}`);
+    }
+    const year = calendarYearOf(calendar, start);
+    const anchorDate = findCalendarMonth(year, start);
+    if (!anchorDate) {
+        throw new Error(
+            `Cannot convert ${formatLocalDateTime(start)} to ${calendar}`,
+        );
+    }
+    const normalized = normalizeRule(rule, start, {
+        month: anchorDate.month.code,
+        day: anchorDate.day,
+    });
+    const interval = normalized.interval ?? 1;
+    const until = normalized.until;
+    const skip = normalized.skip ?? SKIP_OMIT;
+    const end = toLocal === undefined ? undefined : parseLocalDateTime(toLocal);
+
+    let period: CalendarPeriod = {
+        year,
+        index: year.months.indexOf(anchorDate.month),
+    };
+    for (;;) {
+        const candidates = periodDateTimes(calendar, period, normalized, skip);
+        if (normalized.bySetPosition && normalized.bySetPosition.length > 0) {
+            yield applyBySetPos(candidates, normalized.bySetPosition).sort();
+        } else {
+            yield candidates;
+        }
+
+        const periodStart = periodMonths(period, normalized.frequency)[0];
+        if (!periodStart) return;
+        if (until && formatLocalDateTime(periodStart.start) > until) return;
+        if (end && compareDate(periodStart.start, end) > 0) return;
+
+        period = advancePeriod(
+            calendar,
+            period,
+            normalized.frequency,
+            interval,
+        );
+    }
+}
+
+/**
+ * Generate the sorted, de-duplicated date-times of one period.
+ * @param calendar Calendar scale.
+ * @param period Current year, and month index for monthly rules.
+ * @param rule Normalized recurrence rule.
+ * @param skip Skip policy for missing months and days.
+ * @return Local date-time strings of the period.
+ */
+function periodDateTimes(
+    calendar: string,
+    period: CalendarPeriod,
+    rule: RecurrenceRule,
+    skip: string,
+): string[] {
+    const selected = selectMonths(calendar, period.year, rule.byMonth, skip);
+    const months =
+        rule.frequency === FREQ_MONTHLY
+            ? periodMonths(period, rule.frequency).filter(
+                  (month) => !rule.byMonth?.length || selected.includes(month),
+              )
+            : selected;
+    if (months.length === 0) return [];
+
+    let days: CalendarDay[] | undefined;
+    if (rule.byYearDay && rule.byYearDay.length > 0) {
+        days = selectYearDays(period.year, rule.byYearDay).filter((day) =>
+            months.includes(day.month),
+        );
+    }
+    if (rule.byMonthDay && rule.byMonthDay.length > 0) {
+        const byMonthDay = rule.byMonthDay;
+        days = days
+            ? days.filter((day) => matchesMonthDay(day, byMonthDay))
+            : months.flatMap((month) =>
+                  selectMonthDays(month, byMonthDay, skip),
+              );
+    }
+    const byDay = rule.byDay;
+    if (byDay && byDay.length > 0) {
+        const scopes =
+            rule.frequency === FREQ_YEARLY && !rule.byMonth?.length
+                ? [period.year.months.flatMap(listMonthDays)]
+                : months.map(listMonthDays);
+        const allowed = scopes.flatMap((scope) => selectWeekdays(scope, byDay));
+        if (days) {
+            const keys = new Set(allowed.map((day) => dateKey(day.date)));
+            days = days.filter((day) => keys.has(dateKey(day.date)));
+        } else {
+            days = allowed;
+        }
+    }
+
+    const hours = rule.byHour ?? [0];
+    const minutes = rule.byMinute ?? [0];
+    const seconds = rule.bySecond ?? [0];
+    const result = new Set<string>();
+    for (const day of days ?? []) {
+        for (const hour of hours) {
+            for (const minute of minutes) {
+                for (const second of seconds) {
+                    result.add(
+                        formatLocalDateTime({
+                            ...day.date,
+                            hour,
+                            minute,
+                            second,
+                        }),
+                    );
+                }
+            }
+        }
+    }
+    return Array.from(result).sort();
+}
+
+/**
+ * Select the months named by byMonth, moving missing leap months with the
+ * skip policy: backward to the regular month, forward to the month after it.
+ * @param calendar Calendar scale.
+ * @param year Calendar year.
+ * @param byMonth Month codes, or undefined for every month.
+ * @param skip Skip policy.
+ * @return Months of the period in calendar order.
+ */
+function selectMonths(
+    calendar: string,
+    year: CalendarYear,
+    byMonth: string[] | undefined,
+    skip: string,
+): CalendarMonth[] {
+    if (!byMonth || byMonth.length === 0) return year.months;
+    const result = new Set<CalendarMonth>();
+    for (const code of byMonth) {
+        const month = year.months.find((entry) => entry.code === code);
+        if (month) {
+            result.add(month);
+            continue;
+        }
+        if (skip === SKIP_OMIT || !code.endsWith(LEAP_SUFFIX)) continue;
+        const index = year.months.findIndex(
+            (entry) => entry.code === code.slice(0, -LEAP_SUFFIX.length),
+        );
+        if (index < 0) continue;
+        const target =
+            skip === SKIP_BACKWARD
+                ? year.months[index]
+                : (year.months[index + 1] ??
+                  nextCalendarYear(calendar, year).months[0]);
+        if (target) result.add(target);
+    }
+    return Array.from(result).sort((a, b) => compareDate(a.start, b.start));
+}
+
+/**
+ * List the months covered by a period.
+ * @param period Current period.
+ * @param frequency Rule frequency.
+ * @return The whole year for yearly rules, or the current month.
+ */
+function periodMonths(
+    period: CalendarPeriod,
+    frequency: RecurrenceRule["frequency"],
+): CalendarMonth[] {
+    if (frequency === FREQ_YEARLY) return period.year.months;
+    const month = period.year.months[period.index];
+    return month ? [month] : [];
+}
+
+/**
+ * Move to the next period, counting months across calendar years.
+ * @param calendar Calendar scale.
+ * @param period Current period.
+ * @param frequency Rule frequency.
+ * @param interval Number of periods to advance.
+ * @return Next period.
+ */
+function advancePeriod(
+    calendar: string,
+    period: CalendarPeriod,
+    frequency: RecurrenceRule["frequency"],
+    interval: number,
+): CalendarPeriod {
+    let year = period.year;
+    if (frequency === FREQ_YEARLY) {
+        for (let i = 0; i < interval; i += 1) {
+            year = nextCalendarYear(calendar, year);
+        }
+        return { year, index: 0 };
+    }
+    let index = period.index + interval;
+    while (index >= year.months.length) {
+        index -= year.months.length;
+        year = nextCalendarYear(calendar, year);
+    }
+    return { year, index };
+}
+
+/**
+ * Resolve byMonthDay values in a month. Days past the end of the month
+ * move to the next month's first day or the month's last day when the skip
+ * policy asks for it.
+ * @param month Calendar month.
+ * @param byMonthDay Day numbers (negative from the end).
+ * @param skip Skip policy.
+ * @return Matching days.
+ */
+function selectMonthDays(
+    month: CalendarMonth,
+    byMonthDay: number[],
+    skip: string,
+): CalendarDay[] {
+    const result: CalendarDay[] = [];
+    for (const value of byMonthDay) {
+        if (value === 0) continue;
+        const day = value > 0 ? value : month.length + value + 1;
+        if (day >= 1 && day <= month.length) {
+            result.push(monthDay(month, day));
+        } else if (skip === SKIP_FORWARD) {
+            result.push({
+                date: addDays(month.start, month.length),
+                day: 1,
+                month,
+            });
+        } else if (skip === SKIP_BACKWARD) {
+            result.push(monthDay(month, month.length));
+        }
+    }
+    return result;
+}
+
+/**
+ * Select days of a calendar year by byYearDay.
+ * @param year Calendar year.
+ * @param byYearDay Day-of-year values (negative from the end).
+ * @return Matching days.
+ */
+function selectYearDays(
+    year: CalendarYear,
+    byYearDay: number[],
+): CalendarDay[] {
+    const days = year.months.flatMap(listMonthDays);
+    const result: CalendarDay[] = [];
+    for (const value of byYearDay) {
+        const day = days[value > 0 ? value - 1 : days.length + value];
+        if (value !== 0 && day) result.push(day);
+    }
+    return result;
+}
+
+/**
+ * Check a day against byMonthDay values.
+ * @param day Calendar day.
+ * @param byMonthDay Day numbers (negative from the end).
+ * @return True when any value matches.
+ */
+function matchesMonthDay(day: CalendarDay, byMonthDay: number[]): boolean {
+    return byMonthDay.some(
+        (value) =>
+            (value > 0 && day.day === value) ||
+            (value < 0 && day.day === day.month.length + value + 1),
+    );
+}
+
+/**
+ * Select days of a scope by byDay, resolving nth entries within the scope.
+ * @param days Days of the month or year in order.
+ * @param byDay BYDAY rules.
+ * @return Matching days.
+ */
+function selectWeekdays(days: CalendarDay[], byDay: NDay[]): CalendarDay[] {
+    const result: CalendarDay[] = [];
+    for (const entry of byDay) {
+        const matches = days.filter((day) => dayOfWeek(day.date) === entry.day);
+        if (entry.nthOfPeriod === undefined) {
+            result.push(...matches);
+            continue;
+        }
+        const index =
+            entry.nthOfPeriod > 0
+                ? entry.nthOfPeriod - 1
+                : matches.length + entry.nthOfPeriod;
+        const match = matches[index];
+        if (match) result.push(match);
+    }
+    return result;
+}
+
+/**
+ * List every day of a calendar month.
+ * @param month Calendar month.
+ * @return Days in order.
+ */
+function listMonthDays(month: CalendarMonth): CalendarDay[] {
+    const result: CalendarDay[] = [];
+    for (let day = 1; day <= month.length; day += 1) {
+        result.push(monthDay(month, day));
+    }
+    return result;
+}
+
+/**
+ * Build a calendar day.
+ * @param month Calendar month.
+ * @param day Day of month.
+ * @return Calendar day with its Gregorian date.
+ */
+function monthDay(month: CalendarMonth, day: number): CalendarDay {
+    return { date: addDays(month.start, day - 1), day, month };
+}
+
+/**
+ * Format the date part of a date-time for comparisons.
+ * @param date Gregorian date.
+ * @return Date key.
+ */
+function dateKey(date: DateTime): string {
+    return formatLocalDateTime(date).slice(0, 10);
+}
@@ -161,8 +161,13 @@ export function filterDateCandidates(
 
     const byDay = rule.byDay;
     if (byDay && byDay.length > 0) {
+        // With byMonth, nth weekdays of a yearly rule count within the month.
+        const scope =
+            rule.frequency === FREQ_YEARLY && rule.byMonth?.length
+                ? FREQ_MONTHLY
+                : rule.frequency;
         result = result.filter((d) =>
-            matchesByDay(d, byDay, rule.frequency, periodStart, firstDay),
+            matchesByDay(d, byDay, scope, periodStart, firstDay),
         );
     }
 
@@ -14,11 +14,16 @@ import { dayOfWeek } from "./date-utils.js";
  * Normalize rule fields by copying arrays and filling defaults from the start date-time.
  * @param rule Recurrence rule to normalize.
  * @param start Anchor date-time that supplies default by* values.
+ * @param date Anchor month code and day in the rule's calendar, when it is not Gregorian.
  * @return Normalized recurrence rule with default by* fields filled.
  */
 export function normalizeRule(
     rule: RecurrenceRule,
     start: DateTime,
+    date: { month: string; day: number } = {
+        month: start.month.toString(),
+        day: start.day,
+    },
 ): RecurrenceRule {
     const normalized: RecurrenceRule = {
         ...rule,
@@ -67,7 +72,7 @@ export function normalizeRule(
         (!normalized.byDay || normalized.byDay.length === 0) &&
         (!normalized.byMonthDay || normalized.byMonthDay.length === 0)
     ) {
-        normalized.byMonthDay = [start.day];
+        normalized.byMonthDay = [date.day];
     }
 
     if (
@@ -82,11 +87,11 @@ export function normalizeRule(
         const hasByDay = normalized.byDay && normalized.byDay.length > 0;
 
         if (!hasByMonth && !hasByWeekNo && (hasByMonthDay || !hasByDay)) {
-            normalized.byMonth = [start.month.toString()];
+            normalized.byMonth = [date.month];
         }
 
         if (!hasByMonthDay && !hasByWeekNo && !hasByDay) {
-            normalized.byMonthDay = [start.day];
+            normalized.byMonthDay = [date.day];
         }
 
         if (hasByWeekNo && !hasByMonthDay && !hasByDay) {
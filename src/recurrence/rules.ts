@@ -1,16 +1,20 @@
 import type { RecurrenceRule, TimeZoneId } from "../types.js";
-import { RSCALE_GREGORIAN, SKIP_OMIT } from "./constants.js";
-import type { DayOfWeek } from "./types.js";
+import { SKIP_OMIT } from "./constants.js";
+import type { DateTime, DayOfWeek } from "./types.js";
 import {
     addInterval,
     compareDate,
     formatLocalDateTime,
     parseLocalDateTime,
+    periodsBetween,
 } from "./date-utils.js";
+import { calendarPeriods, isCalendarRule } from "./rule-calendar.js";
 import { generateDateTimes } from "./rule-generate.js";
 import { normalizeRule } from "./rule-normalize.js";
 import { applyBySetPos } from "./rule-selectors.js";
 
+const MAX_IDLE_PERIODS = 10000;
+
 /**
  * Expand a recurrence rule into local date-time strings within a range.
  * @param anchor Anchor LocalDateTime for the rule.
@@ -33,53 +37,130 @@ export function expandRule(
     fromDate?: Date,
     toDate?: Date,
 ): string[] {
-    if (rule.rscale && rule.rscale !== RSCALE_GREGORIAN) {
-        throw new Error(`Unsupported rscale: ${rule.rscale}`);
-    }
+    return Array.from(
+        iterateRule(anchor, rule, fromLocal, toLocal, includeAnchor),
+    );
+}
+
+/**
+ * Lazily expand a recurrence rule into local date-time strings within a
+ * range (RFC 8984 section 4.3.3.1). The anchor is the first occurrence and
+ * counts towards the rule's count; dates already produced by an earlier
+ * period are dropped. Periods are only generated as values are consumed.
+ * Without an upper bound the walk ends with the rule's count or until, or
+ * once MAX_IDLE_PERIODS periods in a row produced nothing.
+ * @param anchor Anchor LocalDateTime for the rule.
+ * @param rule Recurrence rule to expand.
+ * @param fromLocal Local date-time lower bound (inclusive).
+ * @param toLocal Local date-time upper bound (inclusive), or undefined for none.
+ * @param includeAnchor Whether the anchor is an occurrence even when it does not match the rule.
+ * @return Generator of matching local date-time strings in order.
+ */
+export function* iterateRule(
+    anchor: string,
+    rule: RecurrenceRule,
+    fromLocal: string,
+    toLocal: string | undefined,
+    includeAnchor = true,
+): Generator<string> {
     const start = parseLocalDateTime(anchor);
+    const anchorValue = formatLocalDateTime(start);
+    const count = rule.count ?? Infinity;
+    const until = rule.until;
+    const periods = isCalendarRule(rule)
+        ? calendarPeriods(start, rule, toLocal)
+        : gregorianPeriods(start, rule, fromLocal, toLocal);
+
+    let generated = 0;
+    let last: string | undefined;
+    if (includeAnchor) {
+        generated = 1;
+        last = anchorValue;
+        if (
+            anchorValue >= fromLocal &&
+            (toLocal === undefined || anchorValue <= toLocal)
+        ) {
+            yield anchorValue;
+        }
+    }
+
+    let idle = 0;
+    for (const candidates of periods) {
+        const before = generated;
+        for (const dt of candidates) {
+            if (dt < anchorValue) continue;
+            if (last !== undefined && dt <= last) continue;
+            if (generated >= count) return;
+            if (until && dt > until) return;
+            if (toLocal !== undefined && dt > toLocal) return;
+            generated += 1;
+            last = dt;
+            if (dt >= fromLocal) yield dt;
+        }
+        if (generated >= count) return;
+        idle = generated > before ? 0 : idle + 1;
+        if (toLocal === undefined && idle >= MAX_IDLE_PERIODS) return;
+    }
+}
+
+/**
+ * Generate the candidate periods of a Gregorian rule. Rules without a
+ * count start close to the range instead of walking from the anchor.
+ * @param start Anchor date-time of the rule.
+ * @param rule Recurrence rule to expand.
+ * @param fromLocal Local date-time lower bound (inclusive).
+ * @param toLocal Local date-time upper bound (inclusive), or undefined for none.
+ * @return Generator of sorted date-time strings, one array per period.
+ */
+function* gregorianPeriods(
+    start: DateTime,
+    rule: RecurrenceRule,
+    fromLocal: string,
+    toLocal: string | undefined,
+): Generator<string[]> {
     const normalized = normalizeRule(rule, start);
     const interval = normalized.interval ?? 1;
     const until = normalized.until;
-    const count = normalized.count ?? Infinity;
     const skip = normalized.skip ?? SKIP_OMIT;
     const firstDay: DayOfWeek = normalized.firstDayOfWeek ?? "mo";
+    const end = toLocal === undefined ? undefined : parseLocalDateTime(toLocal);
 
-    const results: string[] = [];
-    let generated = 0;
     let cursor = start;
-    const anchorValue = formatLocalDateTime(start);
+    if (normalized.count === undefined) {
+        const elapsed = periodsBetween(
+            start,
+            parseLocalDateTime(fromLocal),
+            normalized.frequency,
+            firstDay,
+        );
+        // Keep one earlier period so skip=forward dates can spill in.
+        const skipped = (Math.floor(elapsed / interval) - 1) * interval;
+        if (skipped > 0) {
+            cursor = addInterval(
+                start,
+                normalized.frequency,
+                skipped,
+                firstDay,
+            );
+        }
+    }
 
-    while (generated < count) {
+    for (;;) {
         const candidates = generateDateTimes(
             cursor,
             normalized,
             firstDay,
             skip,
         ).sort();
-        let filtered = candidates;
         if (normalized.bySetPosition && normalized.bySetPosition.length > 0) {
-            filtered = applyBySetPos(filtered, normalized.bySetPosition);
+            yield applyBySetPos(candidates, normalized.bySetPosition).sort();
+        } else {
+            yield candidates;
         }
 
-        for (const dt of filtered) {
-            if (compareDate(cursor, start) === 0 && dt < anchorValue) {
-                continue;
-            }
-            generated += 1;
-            if (generated > count) break;
-            if (until && dt > until) return results;
-            if (dt >= fromLocal && dt <= toLocal) {
-                results.push(dt);
-            }
-        }
-
-        if (until && cursor && formatLocalDateTime(cursor) > until) break;
-        if (generated >= count) break;
-        if (cursor && compareDate(cursor, parseLocalDateTime(toLocal)) > 0)
-            break;
+        if (until && formatLocalDateTime(cursor) > until) return;
+        if (end && compareDate(cursor, end) > 0) return;
 
         cursor = addInterval(cursor, normalized.frequency, interval, firstDay);
     }
-
-    return results;
 }
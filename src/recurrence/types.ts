@@ -5,16 +5,36 @@ export type RecurrenceRange = {
 
 export type RecurrenceExpandOptions = {
     includeAnchor?: boolean;
+    overlap?: boolean;
+    expandGroups?: boolean;
+    dstPolicy?: import("../timezones.js").DstPolicy;
+};
+
+export type RecurrenceRecordOptions = RecurrenceExpandOptions & {
+    records: true;
+};
+
+export type RecurrenceOccurrence = {
+    object: import("../types.js").JSCalendarObject;
+    occurrenceId: string;
+    utcStart: Date | null;
+    utcEnd: Date | null;
+    isOverride: boolean;
+    isAnchor: boolean;
+    sourceUid: string;
 };
 
 export type RecurrencePage = {
     items: import("../types.js").JSCalendarObject[];
     nextCursor?: string;
+    previousCursor?: string;
+    hasMore: boolean;
 };
 
 export type RecurrencePageOptions = RecurrenceExpandOptions & {
     limit: number;
     cursor?: string;
+    direction?: "forward" | "backward";
 };
 
 export type DayOfWeek = "mo" | "tu" | "we" | "th" | "fr" | "sa" | "su";
@@ -34,3 +54,15 @@ export type DateCandidate = {
     day: number;
     valid: boolean;
 };
+
+export type CalendarMonth = {
+    code: string;
+    start: DateTime;
+    length: number;
+};
+
+export type CalendarYear = {
+    year: number;
+    start: DateTime;
+    months: CalendarMonth[];
+};
@@ -1,4 +1,5 @@
 import type { Event, Group, JSCalendarObject, Task } from "./types.js";
+import type { TimeZoneDefinitions } from "./timezones/resolver.js";
 import {
     compareDateTime,
     dateTimeInTimeZone,
@@ -116,8 +117,16 @@ export function filterByDateRange(
 
         const timeZone =
             "timeZone" in item ? (item.timeZone ?? undefined) : undefined;
-        const rangeStart = normalizeRangeValue(range.start, timeZone);
-        const rangeEnd = normalizeRangeValue(range.end, timeZone);
+        const rangeStart = normalizeRangeValue(
+            range.start,
+            timeZone,
+            item.timeZones,
+        );
+        const rangeEnd = normalizeRangeValue(
+            range.end,
+            timeZone,
+            item.timeZones,
+        );
 
         if (range.start) {
             const cmpStart = compareDateTime(
@@ -140,16 +149,18 @@ export function filterByDateRange(
  * Normalize a range value into a LocalDateTime or UTCDateTime string.
  * @param value Range value.
  * @param timeZone Optional time zone.
+ * @param timeZones Custom time zone definitions of the item.
  * @return Normalized date-time string.
  */
 function normalizeRangeValue(
     value: DateRangeValue | undefined,
     timeZone?: string,
+    timeZones?: TimeZoneDefinitions,
 ): string {
     if (!value) return "";
     if (isStringValue(value)) return value;
     if (timeZone) {
-        return dateTimeInTimeZone(value, timeZone);
+        return dateTimeInTimeZone(value, timeZone, timeZones);
     }
     return localDateTimeFromDate(value);
 }
@@ -258,7 +269,7 @@ function getEventRangeAsDates(
     event: Event,
 ): { start: Date; end?: Date } | null {
     const start = event.timeZone
-        ? localDateTimeToUtcDate(event.start, event.timeZone)
+        ? localDateTimeToUtcDate(event.start, event.timeZone, event.timeZones)
         : isUtcDateTime(event.start)
           ? new Date(event.start)
           : null;
@@ -289,7 +300,9 @@ function getTaskRangeAsDates(task: Task): { start: Date; end?: Date } | null {
     const start = task.start ?? task.due;
     if (!start) return null;
     if (task.timeZone) {
-        return { start: localDateTimeToUtcDate(start, task.timeZone) };
+        return {
+            start: localDateTimeToUtcDate(start, task.timeZone, task.timeZones),
+        };
     }
     if (isUtcDateTime(start)) {
         return { start: new Date(start) };
@@ -1,3 +1,5 @@
+import { TimeZoneLinks, WindowsTimeZones } from "./timezones/aliases.js";
+
 export const RegionalTimeZones = [
     "Africa/Abidjan",
     "Africa/Accra",
@@ -473,6 +475,14 @@ export const TimeZones = [
 
 export type TimeZoneId = (typeof TimeZones)[number];
 export type TimeZoneInput = TimeZoneId | Lowercase<TimeZoneId>;
+export type CustomTimeZoneId = `/${string}`;
+export type CalendarTimeZoneId = TimeZoneId | CustomTimeZoneId;
+export type { TimeZoneAlias } from "./timezones/aliases.js";
+export type TimeZoneMode = "strict" | "lenient";
+export type DstPolicy = "shift-forward" | "skip" | "earlier" | "later";
+export type ResolveTimeZoneOptions = {
+    mode?: TimeZoneMode;
+};
 
 /**
  * Build a lowercase lookup map for time zones.
@@ -489,16 +499,63 @@ function createTimeZoneMap(
     return map;
 }
 
+/**
+ * Build a lowercase lookup map for alias names.
+ * @param aliases Alias tables mapping names to canonical IDs.
+ * @return Map keyed by lowercase alias name.
+ */
+function createAliasMap(
+    aliases: Array<Record<string, TimeZoneId>>,
+): Record<string, TimeZoneId> {
+    const map: Record<string, TimeZoneId> = {};
+    for (const table of aliases) {
+        for (const [name, tz] of Object.entries(table)) {
+            map[name.toLowerCase()] = tz;
+        }
+    }
+    return map;
+}
+
 const TimeZoneMap: Record<string, TimeZoneId> = createTimeZoneMap(TimeZones);
+const TimeZoneAliasMap: Record<string, TimeZoneId> = createAliasMap([
+    TimeZoneLinks,
+    WindowsTimeZones,
+]);
+
+/**
+ * Find the canonical ID for an arbitrary time zone string. Strict mode only
+ * accepts bundled IDs; lenient mode also maps IANA links such as
+ * "US/Eastern" and Windows names such as "W. Europe Standard Time".
+ * @param input Time zone string in any letter case.
+ * @param mode Resolution mode, strict by default.
+ * @return Canonical TimeZoneId, or undefined when unknown.
+ */
+export function findTimeZone(
+    input: string,
+    mode: TimeZoneMode = "strict",
+): TimeZoneId | undefined {
+    const key = input.toLowerCase();
+    const canonical = TimeZoneMap[key];
+    if (canonical || mode === "strict") return canonical;
+    return TimeZoneAliasMap[key];
+}
 
 /**
  * Resolve a time zone input to its canonical ID.
- * @param input Time zone input.
+ * @param input Time zone input; aliases need lenient mode.
+ * @param options Resolution options.
  * @return Canonical TimeZoneId.
  */
-export function resolveTimeZone(input: TimeZoneInput): TimeZoneId {
-    const key = input.toLowerCase();
-    const value = TimeZoneMap[key];
+export function resolveTimeZone(input: TimeZoneInput): TimeZoneId;
+export function resolveTimeZone(
+    input: string,
+    options: ResolveTimeZoneOptions,
+): TimeZoneId;
+export function resolveTimeZone(
+    input: string,
+    options: ResolveTimeZoneOptions = {},
+): TimeZoneId {
+    const value = findTimeZone(input, options.mode);
     if (!value) {
         throw new Error(`Unknown time zone: ${input}`);
     }
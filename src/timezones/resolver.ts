@@ -0,0 +1,224 @@
+import type {
+    CustomTimeZoneId,
+    LocalDateTime,
+    TimeZone,
+    TimeZoneRule,
+    TimeZoneRulePatch,
+} from "../types.js";
+import { iterateRule } from "../recurrence/rules.js";
+import { localDateTimeMilliseconds, parseUtcOffset } from "./transitions.js";
+
+const CUSTOM_PREFIX = "/";
+const SECOND_MS = 1000;
+const WINDOW_YEARS = 1;
+const transitionCache = new WeakMap<TimeZone, Map<number, ZoneTransition[]>>();
+
+export type TimeZoneDefinitions = Partial<Record<string, TimeZone>>;
+
+type ZoneTransition = {
+    at: number;
+    offsetFrom: number;
+    offsetTo: number;
+};
+
+/**
+ * Check whether a time zone id names a custom time zone. RFC 8984 requires
+ * custom ids to start with a slash and be defined in the timeZones map.
+ * @param timeZone Time zone id.
+ * @return True for custom time zone ids.
+ */
+export function isCustomTimeZoneId(
+    timeZone: string,
+): timeZone is CustomTimeZoneId {
+    return timeZone.startsWith(CUSTOM_PREFIX);
+}
+
+/**
+ * Find the definition of a custom time zone id.
+ * @param timeZone Time zone id.
+ * @param definitions timeZones map of the object using the id.
+ * @return TimeZone definition, or undefined for IANA ids.
+ */
+export function findCustomTimeZone(
+    timeZone: string,
+    definitions?: TimeZoneDefinitions,
+): TimeZone | undefined {
+    if (!isCustomTimeZoneId(timeZone)) return undefined;
+    const definition = definitions?.[timeZone];
+    if (!definition) throw new Error(`Unknown time zone: ${timeZone}`);
+    return definition;
+}
+
+/**
+ * Read the UTC offset of a custom time zone at an instant: the offsetTo of
+ * the latest observance onset, or the offsetFrom of the earliest onset for
+ * instants before all of them.
+ * @param zone TimeZone definition.
+ * @param at Instant to inspect.
+ * @return Offset from UTC in seconds.
+ */
+export function customUtcOffsetSeconds(zone: TimeZone, at: Date): number {
+    return offsetAt(zone, at.getTime());
+}
+
+/**
+ * Format an instant as a LocalDateTime in a custom time zone.
+ * @param value Instant to format.
+ * @param zone TimeZone definition.
+ * @return LocalDateTime string.
+ */
+export function customZoneToLocal(value: Date, zone: TimeZone): LocalDateTime {
+    const offset = offsetAt(zone, value.getTime());
+    return new Date(value.getTime() + offset * SECOND_MS)
+        .toISOString()
+        .slice(0, 19);
+}
+
+/**
+ * Convert a LocalDateTime in a custom time zone to an instant. Times in a
+ * gap move forward by the gap; repeated times use the earlier offset.
+ * @param value LocalDateTime string.
+ * @param zone TimeZone definition.
+ * @return Date in UTC.
+ */
+export function customZoneToUtc(value: LocalDateTime, zone: TimeZone): Date {
+    const local = localDateTimeMilliseconds(value);
+    const before = offsetAt(zone, local);
+    const guess = local - before * SECOND_MS;
+    const offset = offsetAt(zone, guess);
+    if (offset === before) return new Date(guess);
+    const candidate = local - offset * SECOND_MS;
+    return new Date(offsetAt(zone, candidate) === offset ? candidate : guess);
+}
+
+/**
+ * Find the offset in effect at an instant.
+ * @param zone TimeZone definition.
+ * @param at Instant in milliseconds.
+ * @return Offset from UTC in seconds.
+ */
+function offsetAt(zone: TimeZone, at: number): number {
+    const transitions = transitionsAround(zone, new Date(at).getUTCFullYear());
+    for (let index = transitions.length - 1; index >= 0; index -= 1) {
+        const transition = transitions[index];
+        if (transition && transition.at <= at) return transition.offsetTo;
+    }
+    const first = earliestTransition(zone);
+    if (!first) {
+        throw new Error(`Time zone has no observances: ${zone.tzId}`);
+    }
+    return first.offsetFrom;
+}
+
+/**
+ * Collect the onsets of a zone's observances around a year: all onsets in
+ * the surrounding years, preceded by the last onset before them.
+ * @param zone TimeZone definition.
+ * @param year Full UTC year.
+ * @return Cached transitions in chronological order.
+ */
+function transitionsAround(zone: TimeZone, year: number): ZoneTransition[] {
+    let byYear = transitionCache.get(zone);
+    if (!byYear) {
+        byYear = new Map();
+        transitionCache.set(zone, byYear);
+    }
+    const cached = byYear.get(year);
+    if (cached) return cached;
+
+    const windowStart = `${year - WINDOW_YEARS}-01-01T00:00:00`;
+    const windowEnd = `${year + WINDOW_YEARS}-12-31T23:59:59`;
+    const transitions: ZoneTransition[] = [];
+    for (const rule of observances(zone)) {
+        transitions.push(...ruleTransitions(rule, windowEnd));
+    }
+    transitions.sort((a, b) => a.at - b.at);
+    const startMs = localDateTimeMilliseconds(windowStart);
+    let first = 0;
+    for (let index = 0; index < transitions.length; index += 1) {
+        const transition = transitions[index];
+        if (transition && transition.at < startMs) first = index;
+    }
+    const result = transitions.slice(first);
+    byYear.set(year, result);
+    return result;
+}
+
+/**
+ * Find the first onset of any observance of a zone.
+ * @param zone TimeZone definition.
+ * @return Earliest transition, or undefined for zones without observances.
+ */
+function earliestTransition(zone: TimeZone): ZoneTransition | undefined {
+    let first: ZoneTransition | undefined;
+    for (const rule of observances(zone)) {
+        const onsets = [
+            rule.start,
+            ...Object.keys(rule.recurrenceOverrides ?? {}),
+        ];
+        for (const onset of onsets) {
+            const transition = toTransition(rule, onset);
+            if (!first || transition.at < first.at) first = transition;
+        }
+    }
+    return first;
+}
+
+/**
+ * List the standard and daylight observances of a zone.
+ * @param zone TimeZone definition.
+ * @return TimeZoneRule objects.
+ */
+function observances(zone: TimeZone): TimeZoneRule[] {
+    return [...(zone.standard ?? []), ...(zone.daylight ?? [])];
+}
+
+/**
+ * Expand the onsets of one observance up to a local date-time: its start,
+ * the occurrences of its recurrence rules, and its recurrence overrides.
+ * @param rule TimeZoneRule observance.
+ * @param toLocal Inclusive local upper bound.
+ * @return Transitions of the observance.
+ */
+function ruleTransitions(
+    rule: TimeZoneRule,
+    toLocal: LocalDateTime,
+): ZoneTransition[] {
+    const onsets = new Set<string>();
+    if (rule.start <= toLocal) onsets.add(rule.start);
+    for (const recurrenceRule of rule.recurrenceRules ?? []) {
+        for (const onset of iterateRule(
+            rule.start,
+            recurrenceRule,
+            rule.start,
+            toLocal,
+        )) {
+            onsets.add(onset);
+        }
+    }
+    for (const onset of Object.keys(rule.recurrenceOverrides ?? {})) {
+        if (onset <= toLocal) onsets.add(onset);
+    }
+    return Array.from(onsets, (onset) => toTransition(rule, onset));
+}
+
+/**
+ * Build the transition of an observance onset. The onset is local time in
+ * the offset before the transition; an override may patch either offset.
+ * @param rule TimeZoneRule observance.
+ * @param onset Local onset date-time.
+ * @return Transition at the onset.
+ */
+function toTransition(
+    rule: TimeZoneRule,
+    onset: LocalDateTime,
+): ZoneTransition {
+    const patch: TimeZoneRulePatch = rule.recurrenceOverrides?.[onset] ?? {};
+    const offsetFrom = parseUtcOffset(patch.offsetFrom ?? rule.offsetFrom);
+    const offsetTo = parseUtcOffset(patch.offsetTo ?? rule.offsetTo);
+    return {
+        at: localDateTimeMilliseconds(onset) - offsetFrom * SECOND_MS,
+        offsetFrom,
+        offsetTo,
+    };
+}
@@ -0,0 +1,411 @@
+import type {
+    DayOfWeek,
+    LocalDateTime,
+    RecurrenceRule,
+    TimeZone,
+    TimeZoneRule,
+} from "../types.js";
+
+const TYPE_TIME_ZONE = "TimeZone";
+const TYPE_TIME_ZONE_RULE = "TimeZoneRule";
+const TYPE_RECURRENCE_RULE = "RecurrenceRule";
+const TYPE_NDAY = "NDay";
+const SECOND_MS = 1000;
+const MINUTE_MS = 60 * SECOND_MS;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const YEAR_MS = 366 * DAY_MS;
+const DAYS_PER_WEEK = 7;
+const LAST_IN_MONTH = -1;
+const JANUARY = 0;
+const JULY = 6;
+const NAME_LOCALE = "en-US";
+const NAME_LOCALES = [NAME_LOCALE, "en-GB"];
+const HOURS_PER_DAY = 24;
+const HOUR_SECONDS = 3600;
+const MINUTE_SECONDS = 60;
+const OFFSET_PATTERN = /^([+-])(\d{2}):?(\d{2})(?::?(\d{2}))?$/;
+const LOCAL_PATTERN = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2}):(\d{2})/;
+const formatters = new Map<string, Intl.DateTimeFormat>();
+const ABBREVIATION_PATTERN = /^[A-Z]{2,6}$/;
+const DAYS: DayOfWeek[] = ["su", "mo", "tu", "we", "th", "fr", "sa"];
+
+export type OffsetTransition = {
+    at: Date;
+    offsetFrom: number;
+    offsetTo: number;
+};
+
+type ObservanceRun = {
+    rule: TimeZoneRule;
+    daylight: boolean;
+    year: number;
+    last: LocalDateTime;
+    count: number;
+    month: number;
+    nthOfPeriod: number;
+    day: DayOfWeek;
+};
+
+/**
+ * Read the UTC offset of an IANA time zone at an instant.
+ * @param timeZone IANA time zone.
+ * @param at Instant to inspect.
+ * @return Offset from UTC in seconds.
+ */
+export function getUtcOffsetSeconds(timeZone: string, at: Date): number {
+    const fields: Record<string, number> = {};
+    for (const part of getFormatter(timeZone).formatToParts(at)) {
+        if (part.type !== "literal") fields[part.type] = Number(part.value);
+    }
+    const local = Date.UTC(
+        fields.year ?? 0,
+        (fields.month ?? 1) - 1,
+        fields.day ?? 1,
+        (fields.hour ?? 0) % HOURS_PER_DAY,
+        fields.minute ?? 0,
+        fields.second ?? 0,
+    );
+    const instant = Math.floor(at.getTime() / SECOND_MS) * SECOND_MS;
+    return Math.round((local - instant) / SECOND_MS);
+}
+
+/**
+ * Find the UTC offset changes of an IANA time zone within a range.
+ * @param timeZone IANA time zone.
+ * @param from Range start.
+ * @param to Range end.
+ * @return Transitions in chronological order, precise to the second.
+ */
+export function findOffsetTransitions(
+    timeZone: string,
+    from: Date,
+    to: Date,
+): OffsetTransition[] {
+    const result: OffsetTransition[] = [];
+    const end = to.getTime();
+    let cursor = Math.floor(from.getTime() / SECOND_MS) * SECOND_MS;
+    let offset = getUtcOffsetSeconds(timeZone, new Date(cursor));
+    while (cursor < end) {
+        const next = Math.min(cursor + DAY_MS, end);
+        const nextOffset = getUtcOffsetSeconds(timeZone, new Date(next));
+        if (nextOffset !== offset) {
+            let low = cursor;
+            let high = next;
+            while (high - low > SECOND_MS) {
+                const middle =
+                    Math.floor((low + high) / 2 / SECOND_MS) * SECOND_MS;
+                if (
+                    getUtcOffsetSeconds(timeZone, new Date(middle)) === offset
+                ) {
+                    low = middle;
+                } else {
+                    high = middle;
+                }
+            }
+            result.push({
+                at: new Date(high),
+                offsetFrom: offset,
+                offsetTo: getUtcOffsetSeconds(timeZone, new Date(high)),
+            });
+            offset = nextOffset;
+        }
+        cursor = next;
+    }
+    return result;
+}
+
+/**
+ * Describe an IANA time zone as a JSCalendar TimeZone object.
+ * Transitions are read for the range padded by one year on both sides;
+ * transitions that repeat on the same weekday rule every year are folded
+ * into one TimeZoneRule with a yearly recurrence rule, which is left open
+ * when the zone still follows it at the end of the range.
+ * @param timeZone IANA time zone.
+ * @param from Start of the span the definition must cover.
+ * @param to End of the span the definition must cover.
+ * @return TimeZone with standard and daylight rules.
+ */
+export function synthesizeTimeZone(
+    timeZone: string,
+    from: Date,
+    to: Date,
+): TimeZone {
+    const windowStart = new Date(from.getTime() - YEAR_MS);
+    const windowEnd = new Date(
+        Math.max(from.getTime(), to.getTime()) + YEAR_MS,
+    );
+    const transitions = findOffsetTransitions(timeZone, windowStart, windowEnd);
+    const standard: TimeZoneRule[] = [];
+    const daylight: TimeZoneRule[] = [];
+
+    const first = transitions[0];
+    if (!first || first.at.getTime() > from.getTime()) {
+        const offset = getUtcOffsetSeconds(timeZone, windowStart);
+        const rule = createRule(
+            localDateTimeAt(windowStart, offset),
+            offset,
+            offset,
+            zoneName(timeZone, windowStart),
+        );
+        if (isDaylight(timeZone, windowStart, offset)) {
+            daylight.push(rule);
+        } else {
+            standard.push(rule);
+        }
+    }
+
+    const runs = new Map<string, ObservanceRun>();
+    const closed: ObservanceRun[] = [];
+    for (const transition of transitions) {
+        const start = localDateTimeAt(transition.at, transition.offsetFrom);
+        const local = new Date(
+            transition.at.getTime() + transition.offsetFrom * SECOND_MS,
+        );
+        const year = local.getUTCFullYear();
+        const month = local.getUTCMonth() + 1;
+        const date = local.getUTCDate();
+        const day = DAYS[local.getUTCDay()] ?? "su";
+        const nthOfPeriod =
+            date + DAYS_PER_WEEK > daysInMonth(year, month)
+                ? LAST_IN_MONTH
+                : Math.ceil(date / DAYS_PER_WEEK);
+        const daylightObservance = isDaylight(
+            timeZone,
+            transition.at,
+            transition.offsetTo,
+        );
+        const key = [
+            daylightObservance,
+            transition.offsetFrom,
+            transition.offsetTo,
+            month,
+            nthOfPeriod,
+            day,
+            start.slice(start.indexOf("T")),
+        ].join("|");
+
+        const run = runs.get(key);
+        if (run && run.year === year - 1) {
+            run.year = year;
+            run.last = start;
+            run.count += 1;
+            continue;
+        }
+        if (run) closed.push(run);
+        const rule = createRule(
+            start,
+            transition.offsetFrom,
+            transition.offsetTo,
+            zoneName(timeZone, transition.at),
+        );
+        runs.set(key, {
+            rule,
+            daylight: daylightObservance,
+            year,
+            last: start,
+            count: 1,
+            month,
+            nthOfPeriod,
+            day,
+        });
+        (daylightObservance ? daylight : standard).push(rule);
+    }
+
+    const last = transitions[transitions.length - 1];
+    const active =
+        last !== undefined && last.at.getTime() > windowEnd.getTime() - YEAR_MS;
+    const latest = new Map<boolean, LocalDateTime>();
+    for (const run of runs.values()) {
+        const current = latest.get(run.daylight);
+        if (!current || run.last > current) latest.set(run.daylight, run.last);
+    }
+    for (const run of [...closed, ...runs.values()]) {
+        if (run.count < 2) continue;
+        const open = active && latest.get(run.daylight) === run.last;
+        const recurrence: RecurrenceRule = {
+            "@type": TYPE_RECURRENCE_RULE,
+            frequency: "yearly",
+            byMonth: [`${run.month}`],
+            byDay: [
+                {
+                    "@type": TYPE_NDAY,
+                    day: run.day,
+                    nthOfPeriod: run.nthOfPeriod,
+                },
+            ],
+        };
+        if (!open) recurrence.until = run.last;
+        run.rule.recurrenceRules = [recurrence];
+    }
+
+    const result: TimeZone = { "@type": TYPE_TIME_ZONE, tzId: timeZone };
+    if (standard.length > 0) result.standard = standard;
+    if (daylight.length > 0) result.daylight = daylight;
+    return result;
+}
+
+/**
+ * Format a UTC offset in seconds as an iCalendar UTC-OFFSET string.
+ * @param seconds Offset from UTC in seconds.
+ * @return Offset such as "+0100" or "-0930".
+ */
+export function formatUtcOffset(seconds: number): string {
+    const sign = seconds < 0 ? "-" : "+";
+    const absolute = Math.abs(seconds);
+    const hours = Math.floor(absolute / HOUR_SECONDS);
+    const minutes = Math.floor((absolute % HOUR_SECONDS) / MINUTE_SECONDS);
+    const rest = absolute % MINUTE_SECONDS;
+    const text = `${sign}${pad(hours)}${pad(minutes)}`;
+    return rest > 0 ? `${text}${pad(rest)}` : text;
+}
+
+/**
+ * Parse a UTC offset such as "+0100" or "-05:00".
+ * @param value Offset string.
+ * @return Offset from UTC in seconds.
+ */
+export function parseUtcOffset(value: string): number {
+    const match = OFFSET_PATTERN.exec(value);
+    if (!match) throw new Error(`Invalid UTC offset: ${value}`);
+    const seconds =
+        Number(match[2]) * HOUR_SECONDS +
+        Number(match[3]) * MINUTE_SECONDS +
+        Number(match[4] ?? 0);
+    return match[1] === "-" ? -seconds : seconds;
+}
+
+/**
+ * Read a LocalDateTime as milliseconds, as if it were UTC.
+ * @param value LocalDateTime string.
+ * @return Milliseconds since the epoch.
+ */
+export function localDateTimeMilliseconds(value: LocalDateTime): number {
+    const match = LOCAL_PATTERN.exec(value);
+    if (!match) throw new Error(`Invalid LocalDateTime: ${value}`);
+    return Date.UTC(
+        Number(match[1]),
+        Number(match[2]) - 1,
+        Number(match[3]),
+        Number(match[4]),
+        Number(match[5]),
+        Number(match[6]),
+    );
+}
+
+/**
+ * Create a TimeZoneRule for one observance.
+ * @param start Local start of the observance in the previous offset.
+ * @param offsetFrom Offset before the transition in seconds.
+ * @param offsetTo Offset after the transition in seconds.
+ * @param name Abbreviation of the observance, when known.
+ * @return TimeZoneRule object.
+ */
+function createRule(
+    start: LocalDateTime,
+    offsetFrom: number,
+    offsetTo: number,
+    name: string | undefined,
+): TimeZoneRule {
+    const rule: TimeZoneRule = {
+        "@type": TYPE_TIME_ZONE_RULE,
+        start,
+        offsetFrom: formatUtcOffset(offsetFrom),
+        offsetTo: formatUtcOffset(offsetTo),
+    };
+    if (name) rule.names = { [name]: true };
+    return rule;
+}
+
+/**
+ * Decide whether an offset is daylight saving time for its year.
+ * @param timeZone IANA time zone.
+ * @param at Instant the offset applies to.
+ * @param offset Offset in seconds.
+ * @return True when the offset exceeds the year's lowest offset.
+ */
+function isDaylight(timeZone: string, at: Date, offset: number): boolean {
+    const year = at.getUTCFullYear();
+    const winter = getUtcOffsetSeconds(
+        timeZone,
+        new Date(Date.UTC(year, JANUARY, 1)),
+    );
+    const summer = getUtcOffsetSeconds(
+        timeZone,
+        new Date(Date.UTC(year, JULY, 1)),
+    );
+    return offset > Math.min(winter, summer);
+}
+
+/**
+ * Get a cached formatter that reads wall-clock fields in a zone.
+ * @param timeZone IANA time zone.
+ * @return Intl.DateTimeFormat for the zone.
+ */
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+    let formatter = formatters.get(timeZone);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat(NAME_LOCALE, {
+            timeZone,
+            hourCycle: "h23",
+            year: "numeric",
+            month: "numeric",
+            day: "numeric",
+            hour: "numeric",
+            minute: "numeric",
+            second: "numeric",
+        });
+        formatters.set(timeZone, formatter);
+    }
+    return formatter;
+}
+
+/**
+ * Read the short name of a zone at an instant. en-GB knows the European
+ * abbreviations that en-US renders as GMT offsets.
+ * @param timeZone IANA time zone.
+ * @param at Instant to name.
+ * @return Alphabetic abbreviation such as "CEST", or undefined.
+ */
+function zoneName(timeZone: string, at: Date): string | undefined {
+    for (const locale of NAME_LOCALES) {
+        const name = new Intl.DateTimeFormat(locale, {
+            timeZone,
+            timeZoneName: "short",
+        })
+            .formatToParts(at)
+            .find((part) => part.type === "timeZoneName")?.value;
+        if (name && ABBREVIATION_PATTERN.test(name)) return name;
+    }
+    return undefined;
+}
+
+/**
+ * Format an instant as a LocalDateTime in a fixed offset.
+ * @param at Instant to format.
+ * @param offset Offset from UTC in seconds.
+ * @return LocalDateTime string.
+ */
+function localDateTimeAt(at: Date, offset: number): LocalDateTime {
+    return new Date(at.getTime() + offset * SECOND_MS)
+        .toISOString()
+        .slice(0, 19);
+}
+
+/**
+ * Count the days of a month.
+ * @param year Full year.
+ * @param month Month number from 1 to 12.
+ * @return Number of days.
+ */
+function daysInMonth(year: number, month: number): number {
+    return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/**
+ * Pad a number to two digits.
+ * @param value Number to pad.
+ * @return Two-digit string.
+ */
+function pad(value: number): string {
+    return `${value}`.padStart(2, "0");
+}
@@ -1,5 +1,13 @@
-import type { TimeZoneId } from "./timezones.js";
-export type { TimeZoneId, TimeZoneInput } from "./timezones.js";
+import type { CalendarTimeZoneId } from "./timezones.js";
+export type {
+    CalendarTimeZoneId,
+    CustomTimeZoneId,
+    DstPolicy,
+    TimeZoneAlias,
+    TimeZoneId,
+    TimeZoneInput,
+    TimeZoneMode,
+} from "./timezones.js";
 
 export type Id = string;
 export type Int = number;
@@ -69,7 +77,7 @@ export interface Location {
     description?: string;
     locationTypes?: BooleanMap;
     relativeTo?: string;
-    timeZone?: TimeZoneId;
+    timeZone?: CalendarTimeZoneId;
     coordinates?: string;
     links?: Record<Id, Link>;
 }
@@ -215,7 +223,7 @@ export interface JSCalendarCommon {
     categories?: BooleanMap;
     color?: string;
     recurrenceId?: LocalDateTime;
-    recurrenceIdTimeZone?: TimeZoneId | null;
+    recurrenceIdTimeZone?: CalendarTimeZoneId | null;
     recurrenceRules?: RecurrenceRule[];
     excludedRecurrenceRules?: RecurrenceRule[];
     excluded?: boolean;
@@ -228,8 +236,8 @@ export interface JSCalendarCommon {
     requestStatus?: string;
     useDefaultAlerts?: boolean;
     alerts?: Record<Id, Alert>;
-    timeZone?: TimeZoneId | null;
-    timeZones?: Partial<Record<TimeZoneId, TimeZone>>;
+    timeZone?: CalendarTimeZoneId | null;
+    timeZones?: Partial<Record<CalendarTimeZoneId, TimeZone>>;
 }
 
 export interface Event extends JSCalendarCommon {
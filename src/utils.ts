@@ -1,12 +1,32 @@
 import type { Duration, UTCDateTime } from "./types.js";
+import type { DstPolicy } from "./timezones.js";
 import { format } from "date-fns";
 import { formatInTimeZone, fromZonedTime } from "date-fns-tz";
+import type { TimeZoneDefinitions } from "./timezones/resolver.js";
+import {
+    DST_LATER,
+    DST_SHIFT_FORWARD,
+    DST_SKIP,
+} from "./recurrence/constants.js";
+import {
+    customUtcOffsetSeconds,
+    customZoneToLocal,
+    customZoneToUtc,
+    findCustomTimeZone,
+} from "./timezones/resolver.js";
+import {
+    getUtcOffsetSeconds,
+    localDateTimeMilliseconds,
+} from "./timezones/transitions.js";
 
 const TYPEOF_FUNCTION = "function";
 const TYPEOF_STRING = "string";
 const TYPEOF_NUMBER = "number";
 const TYPEOF_BOOLEAN = "boolean";
 const TYPEOF_OBJECT = "object";
+const SECOND_MS = 1000;
+const DAY_MS = 24 * 60 * 60 * SECOND_MS;
+const LOCAL_PATTERN = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2}):(\d{2})/;
 
 export type PrimitiveLike =
     | string
@@ -156,26 +176,38 @@ export function localDateTimeFromDate(value: Date): string {
 /**
  * Format a Date as a LocalDateTime in a target time zone.
  * @param value Date to format.
- * @param timeZone IANA time zone.
+ * @param timeZone IANA time zone, or a custom id defined in timeZones.
+ * @param timeZones Custom time zone definitions of the object.
  * @return LocalDateTime string in the time zone.
  */
-export function dateTimeInTimeZone(value: Date, timeZone: string): string {
+export function dateTimeInTimeZone(
+    value: Date,
+    timeZone: string,
+    timeZones?: TimeZoneDefinitions,
+): string {
+    const custom = findCustomTimeZone(timeZone, timeZones);
+    if (custom) return customZoneToLocal(value, custom);
     return formatInTimeZone(value, timeZone, "yyyy-MM-dd'T'HH:mm:ss");
 }
 
 /**
  * Convert LocalDateTime string to a UTC Date using a time zone.
  * @param value LocalDateTime string.
- * @param timeZone IANA time zone.
+ * @param timeZone IANA time zone, or a custom id defined in timeZones.
+ * @param timeZones Custom time zone definitions of the object.
  * @return Date in UTC.
  */
-export function localDateTimeToUtcDate(value: string, timeZone: string): Date {
-    const match = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2}):(\d{2})/.exec(
-        value,
-    );
+export function localDateTimeToUtcDate(
+    value: string,
+    timeZone: string,
+    timeZones?: TimeZoneDefinitions,
+): Date {
+    const match = LOCAL_PATTERN.exec(value);
     if (!match) {
         throw new Error(`Invalid LocalDateTime: ${value}`);
     }
+    const custom = findCustomTimeZone(timeZone, timeZones);
+    if (custom) return customZoneToUtc(value, custom);
     const year = Number(match[1]);
     const month = Number(match[2]);
     const day = Number(match[3]);
@@ -185,3 +217,57 @@ export function localDateTimeToUtcDate(value: string, timeZone: string): Date {
     const local = new Date(year, month - 1, day, hour, minute, second);
     return fromZonedTime(local, timeZone);
 }
+
+/**
+ * Convert a LocalDateTime to a UTC Date, resolving daylight saving
+ * transitions by policy. Times in a gap move forward by the gap with
+ * "shift-forward" (RFC 5545 section 3.3.5) and "later", back with
+ * "earlier", and are dropped with "skip". Repeated times use the earlier
+ * offset unless the policy is "later".
+ * @param value LocalDateTime string.
+ * @param timeZone IANA time zone, or a custom id defined in timeZones.
+ * @param dstPolicy Policy for gaps and repeated times.
+ * @param timeZones Custom time zone definitions of the object.
+ * @return Date in UTC, or null for a skipped time in a gap.
+ */
+export function resolveLocalDateTime(
+    value: string,
+    timeZone: string,
+    dstPolicy: Exclude<DstPolicy, typeof DST_SKIP>,
+    timeZones?: TimeZoneDefinitions,
+): Date;
+export function resolveLocalDateTime(
+    value: string,
+    timeZone: string,
+    dstPolicy: DstPolicy,
+    timeZones?: TimeZoneDefinitions,
+): Date | null;
+export function resolveLocalDateTime(
+    value: string,
+    timeZone: string,
+    dstPolicy: DstPolicy,
+    timeZones?: TimeZoneDefinitions,
+): Date | null {
+    const local = localDateTimeMilliseconds(value);
+    const custom = findCustomTimeZone(timeZone, timeZones);
+    const offsetAt = (at: number): number =>
+        custom
+            ? customUtcOffsetSeconds(custom, new Date(at))
+            : getUtcOffsetSeconds(timeZone, new Date(at));
+    // The offsets a day either side bracket any transition at this time:
+    // both readings are valid in an overlap and neither is in a gap.
+    const before = local - offsetAt(local - DAY_MS) * SECOND_MS;
+    const after = local - offsetAt(local + DAY_MS) * SECOND_MS;
+    const valid = [before, after].filter(
+        (at) => local - offsetAt(at) * SECOND_MS === at,
+    );
+    if (valid.length === 0) {
+        if (dstPolicy === DST_SKIP) return null;
+        const forward =
+            dstPolicy === DST_SHIFT_FORWARD || dstPolicy === DST_LATER;
+        return new Date(forward ? before : after);
+    }
+    return new Date(
+        dstPolicy === DST_LATER ? Math.max(...valid) : Math.min(...valid),
+    );
+}
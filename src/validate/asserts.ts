@@ -1,5 +1,6 @@
 import type { JSCalendarObject, JsonValue, PatchLike } from "../types.js";
 import { TimeZones } from "../timezones.js";
+import { isCustomTimeZoneId } from "../timezones/resolver.js";
 import { fail } from "./error.js";
 import {
     CHARSET_KEY,
@@ -375,6 +376,7 @@ export function assertTimeZone(
 ): void {
     if (value === undefined || value === null) return;
     if (!isStringValue(value)) fail(path, "must be a time zone ID");
+    if (isCustomTimeZoneId(value)) return;
     for (const tz of TimeZones) {
         if (tz === value) return;
     }
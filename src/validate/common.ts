@@ -1,13 +1,16 @@
 import { z } from "zod";
 import type { ZodIssue } from "zod";
 import { TimeZones } from "../timezones.js";
+import { isCustomTimeZoneId } from "../timezones/resolver.js";
 import {
     DATE_TIME,
     DAY_OF_WEEK,
     DURATION,
     ID_PATTERN,
+    MONTH_CODE,
     PARTICIPANT_ROLE,
     RECURRENCE_FREQUENCY,
+    RSCALE,
     SKIP,
     VENDOR_SPECIFIC_VALUE,
     Z_SUFFIX,
@@ -214,6 +217,18 @@ export function isSkipValue(value: string): boolean {
     return false;
 }
 
+/**
+ * Check recurrence rscale values.
+ * @param value Input value.
+ * @return True when supported.
+ */
+export function isRscaleValue(value: string): boolean {
+    for (const rscale of RSCALE) {
+        if (rscale === value) return true;
+    }
+    return false;
+}
+
 /**
  * Check day-of-week values.
  * @param value Input value.
@@ -545,13 +560,14 @@ export function optionalTimeZone() {
 }
 
 /**
- * Create a schema for a required time zone ID.
+ * Create a schema for a required time zone ID: a supported IANA ID or a
+ * custom "/"-prefixed ID.
  * @return Zod schema.
  */
 export function timeZoneSchemaValue() {
     return z.string().superRefine((value, ctx) => {
         if (value === undefined || value === null) return;
-        if (!isSupportedTimeZone(value)) {
+        if (!isSupportedTimeZone(value) && !isCustomTimeZoneId(value)) {
             addIssue(ctx, [], "must be a supported time zone ID");
         }
     });
@@ -620,19 +636,21 @@ export function nonZeroIntegerArray() {
 }
 
 /**
- * Create a schema for byMonth arrays.
+ * Create a schema for byMonth arrays. Month 13 and the "L" leap-month
+ * suffix are used by non-Gregorian calendars (RFC 7529).
  * @return Zod schema.
  */
 export function byMonthSchema() {
     return z
         .array(
             z.string().superRefine((entry, ctx) => {
-                const numeric = Number.parseInt(entry, 10);
-                if (!Number.isInteger(numeric) || numeric < 1 || numeric > 12) {
+                const match = MONTH_CODE.exec(entry);
+                const numeric = Number.parseInt(match?.[1] ?? "", 10);
+                if (!match || numeric < 1 || numeric > 13) {
                     addIssue(
                         ctx,
                         [],
-                        "must be a month number between 1 and 12",
+                        "must be a month number between 1 and 13, optionally followed by L",
                     );
                 }
             }),
@@ -1,7 +1,6 @@
 export const Z_SUFFIX = "Z";
 export const CHARSET_KEY = "charset";
 export const UTF8 = "utf-8";
-export const RSCALE_GREGORIAN = "gregorian";
 export const TYPE_NDAY = "NDay";
 export const TYPE_RECURRENCE_RULE = "RecurrenceRule";
 export const TYPE_ALERT = "Alert";
@@ -42,6 +41,14 @@ export const PARTICIPANT_ROLE = new Set([
     "contact",
 ]);
 export const SKIP = new Set(["omit", "backward", "forward"]);
+export const RSCALE = new Set([
+    "gregorian",
+    "hebrew",
+    "chinese",
+    "islamic-civil",
+    "ethiopic",
+]);
+export const MONTH_CODE = /^(\d{1,2})(L?)$/;
 export const ID_PATTERN = /^[A-Za-z0-9_-]+$/;
 export const VENDOR_SPECIFIC_VALUE =
     /^[A-Za-z0-9](?:[A-Za-z0-9-]*[A-Za-z0-9])?(?:\.[A-Za-z0-9](?:[A-Za-z0-9-]*[A-Za-z0-9])?)+:.+$/;
@@ -1,6 +1,6 @@
 import { z } from "zod";
+import { isCustomTimeZoneId } from "../timezones/resolver.js";
 import {
-    RSCALE_GREGORIAN,
     TYPE_ABSOLUTE_TRIGGER,
     TYPE_ALERT,
     TYPE_EVENT,
@@ -30,6 +30,7 @@ import {
     isDayOfWeek,
     isParticipantRole,
     isRecurrenceFrequency,
+    isRscaleValue,
     isSkipValue,
     isSupportedTimeZone,
     isVendorSpecificValue,
@@ -252,8 +253,8 @@ const recurrenceRuleSchema = objectSchema({
     rscale: z
         .string()
         .refine(
-            (value) => value === RSCALE_GREGORIAN,
-            "only gregorian is supported",
+            (value) => isRscaleValue(value),
+            "must be gregorian, hebrew, chinese, islamic-civil, or ethiopic",
         )
         .optional(),
     skip: z
@@ -367,7 +368,8 @@ const recurrenceOverrideSchema = () =>
         });
 
 /**
- * Create schemas for time zone maps keyed by supported time zone IDs.
+ * Create schemas for time zone maps keyed by supported or custom time zone
+ * IDs.
  * @return Time zone map schema.
  */
 const timeZonesSchema = () =>
@@ -377,7 +379,7 @@ const timeZonesSchema = () =>
         .superRefine((value, ctx) => {
             if (value === undefined) return;
             for (const key of Object.keys(value)) {
-                if (!isSupportedTimeZone(key)) {
+                if (!isSupportedTimeZone(key) && !isCustomTimeZoneId(key)) {
                     addIssue(ctx, [key], "must be a supported time zone ID");
                 }
             }